@@ -0,0 +1,103 @@
+// Mission folders of DJI Fly on an RC / phone storage. Works on any directory tree laid out
+// like the controller, so a plain folder can stand in for a mounted device.
+import path from 'path';
+import fs from 'fs/promises';
+
+const WAYPOINT_SUBPATH = ['Android', 'data', 'dji.go.v5', 'files', 'waypoint'];
+const PREVIEW_DIR = 'map_preview';
+
+const isDirectory = async (p) => {
+  try {
+    return (await fs.stat(p)).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+/** Accepts the storage root, any folder on the way down, or the waypoint folder itself. */
+export const findWaypointDir = async (root) => {
+  const resolved = path.resolve(root);
+  if (path.basename(resolved) === 'waypoint') return resolved;
+
+  // Walk down the part of WAYPOINT_SUBPATH the chosen folder does not already cover
+  const parts = resolved.split(path.sep);
+  for (let skip = WAYPOINT_SUBPATH.length - 1; skip >= 0; skip--) {
+    const covered = WAYPOINT_SUBPATH.slice(0, skip);
+    if (covered.every((part, i) => parts[parts.length - skip + i] === part)) {
+      const candidate = path.join(resolved, ...WAYPOINT_SUBPATH.slice(skip));
+      if (await isDirectory(candidate)) return candidate;
+    }
+  }
+  return null;
+};
+
+const readPreview = async (waypointDir, uuid) => {
+  for (const ext of ['jpg', 'png']) {
+    try {
+      const data = await fs.readFile(path.join(waypointDir, PREVIEW_DIR, uuid, `${uuid}.${ext}`));
+      return `data:image/${ext === 'jpg' ? 'jpeg' : 'png'};base64,${data.toString('base64')}`;
+    } catch {
+      // Try the next format
+    }
+  }
+  return null;
+};
+
+const openWaypointDir = async (root) => {
+  const waypointDir = await findWaypointDir(root);
+  if (!waypointDir) throw new Error('No Android/data/dji.go.v5/files/waypoint folder found.');
+  return waypointDir;
+};
+
+// Subfolders holding a <UUID>/<UUID>.kmz, the only layout DJI Fly reads
+const readMissionFolders = async (waypointDir) => {
+  const entries = await fs.readdir(waypointDir, { withFileTypes: true });
+  const folders = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name === PREVIEW_DIR) continue;
+    const kmzPath = path.join(waypointDir, entry.name, `${entry.name}.kmz`);
+    try {
+      folders.push({ uuid: entry.name, kmzPath, stat: await fs.stat(kmzPath) });
+    } catch {
+      // Not a mission folder
+    }
+  }
+  return folders;
+};
+
+/** One entry per mission folder, newest first. */
+export const listMissions = async (root) => {
+  const waypointDir = await openWaypointDir(root);
+  const missions = [];
+  for (const { uuid, stat } of await readMissionFolders(waypointDir)) {
+    missions.push({
+      uuid,
+      size: stat.size,
+      modifiedAt: stat.mtimeMs,
+      preview: await readPreview(waypointDir, uuid)
+    });
+  }
+
+  return { waypointDir, missions: missions.sort((a, b) => b.modifiedAt - a.modifiedAt) };
+};
+
+/**
+ * Copies the mission's KMZ to backupDir, then overwrites it with data. DJI Fly only reads
+ * <UUID>/<UUID>.kmz, so the file name must stay the same.
+ */
+export const replaceMission = async (root, uuid, data, backupDir) => {
+  const waypointDir = await openWaypointDir(root);
+  // Only a folder listMissions would offer; this also rules out '.', '..' and separators
+  const mission = (await readMissionFolders(waypointDir)).find(folder => folder.uuid === uuid);
+  if (!mission) throw new Error(`Invalid mission folder "${uuid}".`);
+
+  const { kmzPath } = mission;
+
+  await fs.mkdir(backupDir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = path.join(backupDir, `${uuid}_${stamp}.kmz`);
+  await fs.copyFile(kmzPath, backupPath);
+
+  await fs.writeFile(kmzPath, data);
+  return { kmzPath, backupPath };
+};
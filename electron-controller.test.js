@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+import { findWaypointDir, listMissions, replaceMission } from './electron-controller.js';
+
+// A plain directory tree laid out like the controller storage
+let root;
+let waypointDir;
+
+const addMission = async (uuid, content, mtime) => {
+  const kmzPath = path.join(waypointDir, uuid, `${uuid}.kmz`);
+  await fs.mkdir(path.dirname(kmzPath), { recursive: true });
+  await fs.writeFile(kmzPath, content);
+  if (mtime) await fs.utimes(kmzPath, mtime, mtime);
+  return kmzPath;
+};
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'dfp-controller-'));
+  waypointDir = path.join(root, 'Android', 'data', 'dji.go.v5', 'files', 'waypoint');
+  await fs.mkdir(path.join(waypointDir, 'map_preview'), { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('findWaypointDir', () => {
+  it('finds the waypoint folder from the storage root, a folder on the way, or itself', async () => {
+    expect(await findWaypointDir(root)).toBe(waypointDir);
+    expect(await findWaypointDir(path.join(root, 'Android', 'data'))).toBe(waypointDir);
+    expect(await findWaypointDir(waypointDir)).toBe(waypointDir);
+  });
+
+  it('returns null when the tree has no waypoint folder', async () => {
+    expect(await findWaypointDir(path.join(root, 'Android', 'data', 'dji.go.v5', 'files', 'other'))).toBeNull();
+  });
+});
+
+describe('listMissions', () => {
+  it('lists mission folders newest first with their previews', async () => {
+    await addMission('AAAA', 'a', new Date('2024-01-01'));
+    await addMission('BBBB', 'bb', new Date('2024-02-01'));
+    await fs.mkdir(path.join(waypointDir, 'empty'));
+    await fs.mkdir(path.join(waypointDir, 'map_preview', 'BBBB'), { recursive: true });
+    await fs.writeFile(path.join(waypointDir, 'map_preview', 'BBBB', 'BBBB.jpg'), 'jpg');
+
+    const { missions } = await listMissions(root);
+
+    expect(missions.map(m => m.uuid)).toEqual(['BBBB', 'AAAA']);
+    expect(missions[0].size).toBe(2);
+    expect(missions[0].preview).toBe(`data:image/jpeg;base64,${Buffer.from('jpg').toString('base64')}`);
+    expect(missions[1].preview).toBeNull();
+  });
+
+  it('fails without a waypoint folder', async () => {
+    const other = path.join(root, 'other-card');
+    await fs.mkdir(other);
+    await expect(listMissions(other)).rejects.toThrow(/waypoint folder/);
+  });
+});
+
+describe('replaceMission', () => {
+  it('backs up the current KMZ before overwriting it', async () => {
+    const kmzPath = await addMission('AAAA', 'original');
+    const backupDir = path.join(root, 'backups');
+
+    const result = await replaceMission(root, 'AAAA', Buffer.from('replacement'), backupDir);
+
+    expect(result.kmzPath).toBe(kmzPath);
+    expect(path.dirname(result.backupPath)).toBe(backupDir);
+    expect(await fs.readFile(result.backupPath, 'utf8')).toBe('original');
+    expect(await fs.readFile(kmzPath, 'utf8')).toBe('replacement');
+  });
+
+  it('leaves the mission untouched when the backup cannot be written', async () => {
+    const kmzPath = await addMission('AAAA', 'original');
+    const blocked = path.join(root, 'not-a-folder');
+    await fs.writeFile(blocked, '');
+
+    await expect(replaceMission(root, 'AAAA', Buffer.from('replacement'), path.join(blocked, 'backups'))).rejects.toThrow();
+    expect(await fs.readFile(kmzPath, 'utf8')).toBe('original');
+  });
+
+  it.each(['.', '..', 'map_preview', '../AAAA', 'CCCC'])('rejects "%s", which is not a listed mission', async (uuid) => {
+    await addMission('AAAA', 'original');
+    await expect(replaceMission(root, uuid, Buffer.from('x'), path.join(root, 'backups'))).rejects.toThrow(/Invalid mission folder/);
+  });
+});
@@ -0,0 +1,107 @@
+// Offline raster basemaps. MBTiles files and {z}/{x}/{y} tile folders the user picked are
+// registered as sources and served to the page on the dfp-tiles:// scheme.
+import path from 'path';
+import fs from 'fs/promises';
+
+export const TILE_SCHEME = 'dfp-tiles';
+
+const MIME_TYPES = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+const sources = new Map();
+let nextSourceId = 1;
+
+const registerSource = (source) => {
+  const id = `src${nextSourceId++}`; // Becomes the URL host, so keep it lowercase
+  sources.set(id, source);
+  return id;
+};
+
+const parseBounds = (value) => {
+  const parts = String(value || '').split(',').map(Number);
+  return parts.length === 4 && parts.every(n => !isNaN(n)) ? [[parts[1], parts[0]], [parts[3], parts[2]]] : null;
+};
+
+export const addMbtilesSource = async (filePath) => {
+  // Built into the Node.js runtime Electron ships with, no native module to rebuild
+  const { DatabaseSync } = await import('node:sqlite');
+  const db = new DatabaseSync(filePath, { readOnly: true });
+
+  try {
+    const meta = Object.fromEntries(db.prepare('SELECT name, value FROM metadata').all().map(row => [row.name, row.value]));
+    const format = String(meta.format || 'png').toLowerCase();
+    if (!MIME_TYPES[format]) throw new Error(`Unsupported tile format "${format}". Only raster MBTiles (png/jpg/webp) can be shown.`);
+
+    const range = db.prepare('SELECT MIN(zoom_level) AS minZoom, MAX(zoom_level) AS maxZoom FROM tiles').get();
+    const id = registerSource({
+      kind: 'mbtiles',
+      format,
+      db,
+      tileQuery: db.prepare('SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?')
+    });
+
+    return {
+      id,
+      name: meta.name || path.basename(filePath, path.extname(filePath)),
+      format,
+      minZoom: Number(meta.minzoom ?? range.minZoom ?? 0),
+      maxZoom: Number(meta.maxzoom ?? range.maxZoom ?? 18),
+      bounds: parseBounds(meta.bounds)
+    };
+  } catch (e) {
+    db.close();
+    throw e;
+  }
+};
+
+const firstEntry = async (dir, predicate) => {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  return entries.find(predicate) || null;
+};
+
+export const addFolderSource = async (folder) => {
+  const entries = await fs.readdir(folder, { withFileTypes: true });
+  const zooms = entries.filter(e => e.isDirectory() && /^\d+$/.test(e.name)).map(e => Number(e.name)).sort((a, b) => a - b);
+  if (zooms.length === 0) throw new Error('No {z}/{x}/{y} tile folders found.');
+
+  // The extension of the first tile found decides the format of the whole folder
+  const zoomDir = path.join(folder, String(zooms[0]));
+  const xDir = await firstEntry(zoomDir, e => e.isDirectory());
+  const tile = xDir && await firstEntry(path.join(zoomDir, xDir.name), e => e.isFile() && !!MIME_TYPES[path.extname(e.name).slice(1).toLowerCase()]);
+  if (!tile) throw new Error('No png/jpg/webp tiles found.');
+  const format = path.extname(tile.name).slice(1).toLowerCase();
+
+  return {
+    id: registerSource({ kind: 'folder', format, folder }),
+    name: path.basename(folder),
+    format,
+    minZoom: zooms[0],
+    maxZoom: zooms[zooms.length - 1],
+    bounds: null
+  };
+};
+
+const readTile = async (source, z, x, y) => {
+  if (source.kind === 'mbtiles') {
+    // MBTiles rows count from the south (TMS), the map asks for XYZ rows
+    const row = source.tileQuery.get(z, x, (1 << z) - 1 - y);
+    return row ? row.tile_data : null;
+  }
+  try {
+    return await fs.readFile(path.join(source.folder, String(z), String(x), `${y}.${source.format}`));
+  } catch {
+    return null;
+  }
+};
+
+/** Protocol handler for dfp-tiles://<source id>/<z>/<x>/<y> */
+export const handleTileRequest = async (request) => {
+  const url = new URL(request.url);
+  const source = sources.get(url.hostname);
+  const [z, x, y] = url.pathname.split('/').filter(Boolean).map(part => parseInt(part, 10));
+  if (!source || [z, x, y].some(n => isNaN(n))) return new Response(null, { status: 404 });
+
+  const data = await readTile(source, z, x, y);
+  if (!data) return new Response(null, { status: 404 });
+  // The page has web security on, so map screenshots (html2canvas with useCORS) need the CORS header
+  return new Response(data, { headers: { 'Content-Type': MIME_TYPES[source.format], 'Access-Control-Allow-Origin': '*' } });
+};
@@ -1,12 +1,139 @@
-import { app, BrowserWindow, shell } from 'electron';
+import { app, BrowserWindow, shell, ipcMain, dialog, protocol } from 'electron';
 import path from 'path';
+import fs from 'fs/promises';
 import { fileURLToPath } from 'url';
+import { listMissions, replaceMission } from './electron-controller.js';
+import { TILE_SCHEME, addMbtilesSource, addFolderSource, handleTileRequest } from './electron-tiles.js';
 
 // Equivalent to __dirname in ES modules
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const PROJECT_EXTENSION = '.dfpp';
+const MAX_RECENT_FILES = 10;
+const recentFilesPath = () => path.join(app.getPath('userData'), 'recent-files.json');
+
+// Offline tiles are fetched by Leaflet like any web tile, so the scheme needs the usual web privileges
+protocol.registerSchemesAsPrivileged([
+  { scheme: TILE_SCHEME, privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true } }
+]);
+
 let mainWindow;
+let pendingOpenPath = null; // File passed on launch, sent once the page has loaded
+
+// The renderer may only touch paths the user picked in a dialog (or reopened from the recent list)
+const grantedFiles = new Set();
+const grantedFolders = new Set();
+
+const readRecentFiles = async () => {
+  try {
+    return JSON.parse(await fs.readFile(recentFilesPath(), 'utf8'));
+  } catch {
+    return [];
+  }
+};
+
+const addRecentFile = async (filePath) => {
+  const recent = [filePath, ...(await readRecentFiles()).filter(p => p !== filePath)].slice(0, MAX_RECENT_FILES);
+  await fs.writeFile(recentFilesPath(), JSON.stringify(recent));
+  app.addRecentDocument(filePath);
+};
+
+const readFileForRenderer = async (filePath) => {
+  const data = await fs.readFile(filePath);
+  grantedFiles.add(filePath);
+  await addRecentFile(filePath);
+  return { path: filePath, name: path.basename(filePath), data: new Uint8Array(data) };
+};
+
+const findProjectArg = (argv) => argv.find(arg => arg.toLowerCase().endsWith(PROJECT_EXTENSION));
+
+const sendOpenFile = async (filePath) => {
+  if (!mainWindow || mainWindow.webContents.isLoading()) {
+    pendingOpenPath = filePath;
+    return;
+  }
+  try {
+    mainWindow.webContents.send('file:open', await readFileForRenderer(filePath));
+  } catch (e) {
+    dialog.showErrorBox('Open failed', `${filePath}\n${e.message}`);
+  }
+};
+
+ipcMain.handle('dialog:openFiles', async (_event, { filters, multiple }) => {
+  const result = await dialog.showOpenDialog(mainWindow, {
+    properties: multiple ? ['openFile', 'multiSelections'] : ['openFile'],
+    filters
+  });
+  if (result.canceled) return [];
+  return Promise.all(result.filePaths.map(readFileForRenderer));
+});
+
+ipcMain.handle('dialog:saveFile', async (_event, { defaultName, filters, data }) => {
+  const result = await dialog.showSaveDialog(mainWindow, { defaultPath: defaultName, filters });
+  if (result.canceled || !result.filePath) return null;
+  await fs.writeFile(result.filePath, Buffer.from(data));
+  grantedFiles.add(result.filePath);
+  await addRecentFile(result.filePath);
+  return result.filePath;
+});
+
+ipcMain.handle('fs:writeFile', async (_event, { filePath, data }) => {
+  if (!grantedFiles.has(filePath)) throw new Error('Path was not chosen by the user.');
+  await fs.writeFile(filePath, Buffer.from(data));
+});
+
+ipcMain.handle('dialog:chooseFolder', async () => {
+  const result = await dialog.showOpenDialog(mainWindow, { properties: ['openDirectory', 'createDirectory'] });
+  if (result.canceled || result.filePaths.length === 0) return null;
+  grantedFolders.add(result.filePaths[0]);
+  return result.filePaths[0];
+});
+
+ipcMain.handle('fs:writeToFolder', async (_event, { folder, files }) => {
+  if (!grantedFolders.has(folder)) throw new Error('Folder was not chosen by the user.');
+  const written = [];
+  for (const file of files) {
+    // Route names become file names; never let them escape the folder
+    const target = path.join(folder, path.basename(file.name));
+    await fs.writeFile(target, Buffer.from(file.data));
+    written.push(target);
+  }
+  return written;
+});
+
+ipcMain.handle('recent:list', () => readRecentFiles());
+
+ipcMain.handle('recent:open', async (_event, filePath) => {
+  if (!(await readRecentFiles()).includes(filePath)) throw new Error('Not a recent file.');
+  return readFileForRenderer(filePath);
+});
+
+// Send to controller: root is the mounted RC / phone storage (or any folder laid out like it)
+ipcMain.handle('controller:list', async (_event, root) => {
+  if (!grantedFolders.has(root)) throw new Error('Folder was not chosen by the user.');
+  return listMissions(root);
+});
+
+ipcMain.handle('controller:replace', async (_event, { root, uuid, data }) => {
+  if (!grantedFolders.has(root)) throw new Error('Folder was not chosen by the user.');
+  return replaceMission(root, uuid, Buffer.from(data), path.join(app.getPath('userData'), 'controller-backups'));
+});
+
+ipcMain.handle('tiles:openMbtiles', async () => {
+  const result = await dialog.showOpenDialog(mainWindow, {
+    properties: ['openFile'],
+    filters: [{ name: 'MBTiles', extensions: ['mbtiles'] }]
+  });
+  if (result.canceled || result.filePaths.length === 0) return null;
+  return addMbtilesSource(result.filePaths[0]);
+});
+
+ipcMain.handle('tiles:openFolder', async () => {
+  const result = await dialog.showOpenDialog(mainWindow, { properties: ['openDirectory'] });
+  if (result.canceled || result.filePaths.length === 0) return null;
+  return addFolderSource(result.filePaths[0]);
+});
 
 function createWindow() {
   mainWindow = new BrowserWindow({
@@ -15,20 +142,29 @@ function createWindow() {
     title: "DJI Fly Planner PRO",
     icon: path.join(__dirname, 'assets/icon.png'), // Ícone da janela
     webPreferences: {
-      nodeIntegration: true,
-      contextIsolation: false,
-      webSecurity: false
+      preload: path.join(__dirname, 'preload.cjs'),
+      nodeIntegration: false,
+      contextIsolation: true,
+      sandbox: true
     }
   });
 
   const isDev = process.env.NODE_ENV === 'development';
-  
-  const startUrl = isDev 
-    ? 'http://localhost:3000' 
+
+  const startUrl = isDev
+    ? 'http://localhost:3000'
     : `file://${path.join(__dirname, './dist/index.html')}`;
 
   mainWindow.loadURL(startUrl);
 
+  mainWindow.webContents.on('did-finish-load', () => {
+    if (pendingOpenPath) {
+      const filePath = pendingOpenPath;
+      pendingOpenPath = null;
+      sendOpenFile(filePath);
+    }
+  });
+
   // Open links in external browser
   mainWindow.webContents.setWindowOpenHandler(({ url }) => {
     shell.openExternal(url);
@@ -45,7 +181,31 @@ function createWindow() {
   });
 }
 
-app.whenReady().then(createWindow);
+// Double-clicking a .dfpp while the app runs hands the path to the existing window
+if (!app.requestSingleInstanceLock()) {
+  app.quit();
+} else {
+  app.on('second-instance', (_event, argv) => {
+    const projectPath = findProjectArg(argv);
+    if (projectPath) sendOpenFile(projectPath);
+    if (mainWindow) {
+      if (mainWindow.isMinimized()) mainWindow.restore();
+      mainWindow.focus();
+    }
+  });
+
+  // macOS delivers file associations as an event, possibly before the app is ready
+  app.on('open-file', (event, filePath) => {
+    event.preventDefault();
+    sendOpenFile(filePath);
+  });
+
+  app.whenReady().then(() => {
+    pendingOpenPath = pendingOpenPath || findProjectArg(process.argv.slice(1)) || null;
+    protocol.handle(TILE_SCHEME, handleTileRequest);
+    createWindow();
+  });
+}
 
 app.on('window-all-closed', function () {
   if (process.platform !== 'darwin') {
@@ -57,4 +217,4 @@ app.on('activate', function () {
   if (BrowserWindow.getAllWindows().length === 0) {
     createWindow();
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,22 @@
+// Bridge between the sandboxed page and the main process. Only these calls are exposed;
+// the page never gets Node.js or direct filesystem access.
+const { contextBridge, ipcRenderer } = require('electron');
+
+contextBridge.exposeInMainWorld('dfpDesktop', {
+  openFiles: (options) => ipcRenderer.invoke('dialog:openFiles', options),
+  saveFile: (options) => ipcRenderer.invoke('dialog:saveFile', options),
+  writeFile: (filePath, data) => ipcRenderer.invoke('fs:writeFile', { filePath, data }),
+  chooseFolder: () => ipcRenderer.invoke('dialog:chooseFolder'),
+  writeToFolder: (folder, files) => ipcRenderer.invoke('fs:writeToFolder', { folder, files }),
+  getRecentFiles: () => ipcRenderer.invoke('recent:list'),
+  openRecentFile: (filePath) => ipcRenderer.invoke('recent:open', filePath),
+  listControllerMissions: (root) => ipcRenderer.invoke('controller:list', root),
+  replaceControllerMission: (root, uuid, data) => ipcRenderer.invoke('controller:replace', { root, uuid, data }),
+  openMbtiles: () => ipcRenderer.invoke('tiles:openMbtiles'),
+  openTileFolder: () => ipcRenderer.invoke('tiles:openFolder'),
+  onOpenFile: (callback) => {
+    const listener = (_event, file) => callback(file);
+    ipcRenderer.on('file:open', listener);
+    return () => ipcRenderer.removeListener('file:open', listener);
+  }
+});
@@ -1,19 +1,31 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { MapEditor } from './components/Map';
 import { RouteManager } from './components/RouteManager';
 import { Calculator } from './components/Calculator';
 import { Instructions } from './components/Instructions';
-import { Route, FlightSettings, DEFAULT_SETTINGS, Waypoint, HomePoint, RouteStats, SpeedUnit } from './types';
-import { parseCSV, parseKML, exportLitchiZip, exportDJIKMLZip, exportDJIWPML, generateId } from './services/fileService';
-import { updateWaypointsWithBearings, estimateRouteStats, generateGridWaypoints } from './services/geometryService';
+import { RotationOptimizer } from './components/RotationOptimizer';
+import { ControllerSync } from './components/ControllerSync';
+import { LayerManager } from './components/LayerManager';
+import { Route, FlightSettings, DEFAULT_SETTINGS, Waypoint, WaypointAction, HomePoint, RouteStats, SpeedUnit, GridRotationCandidate, ElevationGrid, RouteHistory, ProjectDocument, ProjectMetadata, ProjectSummary, ExportTarget, ValidationIssue, AirspaceLayer, AirspaceConflict, LocalMapLayer, CustomMapLayer } from './types';
+import { parseCSV, parseKML, parseKMZ, parseGPX, parseGeoJSON, exportLitchiZip, exportDJIKMLZip, exportGPX, exportGeoJSON, exportQGCZip, exportDJIWPML, generateId } from './services/fileService';
+import { updateWaypointsWithBearings, estimateRouteStats, generateGridWaypoints, rankGridRotations, generateOrbitWaypoints, generateFacadeWaypoints, generateCorridorWaypoints, calculatePhotoInterval } from './services/geometryService';
+import { loadElevationFile, applyTerrainFollow } from './services/terrainService';
+import { toActionSlots } from './services/actionService';
+import { createProjectMetadata, createProjectDocument, parseProject, serializeProject, readProjectFile, saveProjectFile } from './services/projectService';
+import { openProjectStorage, ProjectStorage, loadMapLayers, saveMapLayers } from './services/storageService';
+import { isDesktop, PlatformFile, getRecentFiles, openRecentFile, onOpenFileRequest, openMbtiles, openTileFolder } from './services/platformService';
+import { tileSourceToLayer, loadImageOverlay } from './services/tileService';
+import { validateRoutes, formatIssue } from './services/validationService';
+import { parseAirspaceFile, findAirspaceConflicts, airspaceIssues, clipToBoundary } from './services/airspaceService';
+import { createHistory, recordChange, undoHistory, redoHistory, jumpToHistory } from './services/historyService';
 import { X, HelpCircle, Map as MapIcon, Table, Calculator as CalcIcon, Camera, CheckCircle, AlertCircle, BookOpen } from 'lucide-react';
 import html2canvas from 'html2canvas';
 import { t, Language } from './translations';
 import * as turf from '@turf/turf';
 
-const PROJECT_PREFIX = 'litchi_project_';
+const AUTOSAVE_INTERVAL_MS = 30000;
 
 type ActiveTab = 'map' | 'manager' | 'calculator' | 'instructions';
 
@@ -24,19 +36,30 @@ interface Notification {
 }
 
 const App: React.FC = () => {
-  const [routes, setRoutes] = useState<Route[]>([]);
+  const [history, setHistory] = useState<RouteHistory>(() => createHistory());
+  const routes = history.present;
   const [settings, setSettings] = useState<FlightSettings>(DEFAULT_SETTINGS);
   
   const [stats, setStats] = useState<RouteStats>({ totalDistance: 0, totalTimeMinutes: 0, photoCount: 0, videoCount: 0, batteryCount: 1, swapPoints: [] });
+  const [validationTarget, setValidationTarget] = useState<ExportTarget>('dji_wpml');
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [airspaceLayers, setAirspaceLayers] = useState<AirspaceLayer[]>([]);
+  const [conflicts, setConflicts] = useState<AirspaceConflict[]>([]);
+  const [localLayers, setLocalLayers] = useState<LocalMapLayer[]>([]);
   const [selectedStatsRouteId, setSelectedStatsRouteId] = useState<string | 'all'>('all');
   
   const [isLoading, setIsLoading] = useState(false);
   const [showInstructions, setShowInstructions] = useState(true);
-  const [savedProjects, setSavedProjects] = useState<string[]>([]);
+  const [savedProjects, setSavedProjects] = useState<ProjectSummary[]>([]);
+  const [sessionPrompt, setSessionPrompt] = useState<{ doc: ProjectDocument; savedAt: number; } | null>(null);
+  const [projectMeta, setProjectMeta] = useState<ProjectMetadata>(() => createProjectMetadata());
+  const [projectPath, setProjectPath] = useState<string | null>(null); // Desktop: where Save writes to
+  const [recentFiles, setRecentFiles] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState<ActiveTab>('map');
   const [notification, setNotification] = useState<Notification | null>(null);
   
   const [measureMode, setMeasureMode] = useState(false);
+  const [exclusionMode, setExclusionMode] = useState(false);
   const [speedUnit, setSpeedUnit] = useState<SpeedUnit>('kmh');
   
   const [language, setLanguage] = useState<Language>('en');
@@ -47,62 +70,357 @@ const App: React.FC = () => {
       currentName: ''
   });
 
+  const [elevationGrid, setElevationGrid] = useState<ElevationGrid | null>(null);
+  const [showControllerSync, setShowControllerSync] = useState(false);
+  const [showLayerManager, setShowLayerManager] = useState(false);
+  const [mapLayers, setMapLayers] = useState<CustomMapLayer[]>(loadMapLayers);
+  const [rotationModal, setRotationModal] = useState<{ routeId: string; candidates: GridRotationCandidate[]; } | null>(null);
+
   const showToast = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
       setNotification({ id: Date.now(), message, type });
       setTimeout(() => setNotification(null), 3000);
   };
 
+  // Every change to the routes goes through the history so it can be undone
+  const updateRoutes = (labelKey: string, update: (prev: Route[]) => Route[], options?: { detail?: string; mergeKey?: string }) => {
+    setHistory(prev => recordChange(prev, update, labelKey, options));
+  };
+
+  const storageRef = useRef<ProjectStorage | null>(null);
+  // State last written to the workspace, a file or the autosave slot; anything newer is unsaved
+  const persistedRef = useRef<{ routes: Route[]; settings: FlightSettings }>({ routes, settings });
+  const latestRef = useRef({ routes, settings, projectMeta, sessionPending: !!sessionPrompt });
+  latestRef.current = { routes, settings, projectMeta, sessionPending: !!sessionPrompt };
+
+  useEffect(() => {
+    openProjectStorage().then(async storage => {
+      storageRef.current = storage;
+      setSavedProjects(await storage.list());
+
+      const session = await storage.loadSession();
+      if (!session) return;
+      try {
+        const doc = parseProject(session.data);
+        if (doc.routes.length > 0) {
+          setSessionPrompt({ doc, savedAt: session.savedAt });
+          return;
+        }
+      } catch (e) {
+        console.error('Discarding unreadable autosave', e);
+      }
+      await storage.clearSession();
+    }).catch(e => {
+      console.error(e);
+      showToast('Project storage is unavailable.', 'error');
+    });
+  }, []);
+
   useEffect(() => {
-    const keys = Object.keys(localStorage).filter(k => k.startsWith(PROJECT_PREFIX));
-    const names = keys.map(k => k.replace(PROJECT_PREFIX, ''));
-    setSavedProjects(names);
+    const timer = setInterval(() => {
+      const storage = storageRef.current;
+      const { routes, settings, projectMeta, sessionPending } = latestRef.current;
+      const persisted = persistedRef.current;
+      if (!storage || sessionPending || (routes === persisted.routes && settings === persisted.settings)) return;
+
+      storage.saveSession(serializeProject(createProjectDocument(routes, settings, projectMeta)))
+        .then(() => { persistedRef.current = { routes, settings }; })
+        .catch(e => console.error('Autosave failed', e));
+    }, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
   }, []);
 
+  // After an explicit save or open the autosave slot no longer holds anything worth restoring
+  const markPersisted = (doc: ProjectDocument) => {
+    persistedRef.current = { routes: doc.routes, settings: doc.settings };
+    storageRef.current?.clearSession().catch(e => console.error(e));
+  };
+
+  useEffect(() => {
+    saveMapLayers(mapLayers);
+  }, [mapLayers]);
+
   useEffect(() => {
     const newStats = estimateRouteStats(routes, settings, selectedStatsRouteId);
     setStats(newStats);
   }, [routes, settings, selectedStatsRouteId]);
 
-  const saveProject = (name: string) => {
+  useEffect(() => {
+    setConflicts(findAirspaceConflicts(routes, airspaceLayers));
+  }, [routes, airspaceLayers]);
+
+  useEffect(() => {
+    setIssues([...validateRoutes(routes, settings, validationTarget), ...airspaceIssues(conflicts)]);
+  }, [routes, settings, validationTarget, conflicts]);
+
+  const saveProject = async (name: string) => {
+    const storage = storageRef.current;
+    if (!storage) return;
     try {
-      const data = JSON.stringify({ routes, settings });
-      localStorage.setItem(`${PROJECT_PREFIX}${name}`, data);
-      
-      if (!savedProjects.includes(name)) {
-        setSavedProjects(prev => [...prev, name]);
-      }
+      const doc = createProjectDocument(routes, settings, { ...projectMeta, name });
+      const summary = await storage.save(name, serializeProject(doc));
+      setProjectMeta(doc.metadata);
+      setSavedProjects(prev => [...prev.filter(p => p.name !== name), summary]);
+      markPersisted(doc);
       showToast(`Project "${name}" saved successfully!`, 'success');
-    } catch (e) {
+    } catch (e: any) {
+      console.error(e);
+      showToast(`Failed to save: ${e?.message || e}`, 'error');
+    }
+  };
+
+  const applyProject = (doc: ProjectDocument) => {
+    updateRoutes('hist_open_project', () => doc.routes, { detail: doc.metadata.name });
+    setSettings(doc.settings);
+    setProjectMeta(doc.metadata);
+  };
+
+  const loadProject = async (name: string) => {
+    try {
+      const dataStr = await storageRef.current?.load(name);
+      if (!dataStr) return;
+      // Older workspace entries are migrated on the fly and upgraded on their next save
+      const doc = parseProject(dataStr, name);
+      applyProject(doc);
+      markPersisted(doc);
+      setProjectPath(null);
+      showToast(`Project "${name}" loaded.`, 'success');
+    } catch (e: any) {
+      console.error(e);
+      showToast(`Error loading project data: ${e?.message || e}`, 'error');
+    }
+  };
+
+  const openProjectFile = async (file: PlatformFile) => {
+    try {
+      const doc = await readProjectFile(file);
+      applyProject(doc);
+      markPersisted(doc);
+      setProjectPath(file.path ?? null);
+      refreshRecentFiles();
+      showToast(`Project "${doc.metadata.name}" opened.`, 'success');
+    } catch (e: any) {
+      console.error(e);
+      showToast(`Failed to open ${file.name}: ${e?.message || e}`, 'error');
+    }
+  };
+
+  // Desktop saves over the opened file unless Save As is requested
+  const saveProjectAsFile = async (name: string, saveAsNew = false) => {
+    try {
+      const doc = createProjectDocument(routes, settings, { ...projectMeta, name: name || projectMeta.name });
+      const savedPath = await saveProjectFile(doc, saveAsNew ? null : projectPath);
+      if (isDesktop && !savedPath) return; // Dialog cancelled
+      setProjectMeta(doc.metadata);
+      setProjectPath(savedPath);
+      markPersisted(doc);
+      refreshRecentFiles();
+      if (savedPath) showToast(`Project saved to ${savedPath}`, 'success');
+    } catch (e: any) {
+      console.error(e);
+      showToast(`Failed to save project file: ${e?.message || e}`, 'error');
+    }
+  };
+
+  const refreshRecentFiles = () => {
+    getRecentFiles().then(setRecentFiles).catch(e => console.error(e));
+  };
+
+  // Exports resolve to the number of files written or the saved path; nothing to report in the browser
+  const runExport = async (task: () => Promise<number | string | null>) => {
+    try {
+      const result = await task();
+      if (!isDesktop || !result) return;
+      showToast(typeof result === 'number' ? `${result} files exported.` : `Exported to ${result}`, 'success');
+      refreshRecentFiles();
+    } catch (e: any) {
+      console.error(e);
+      showToast(`Export failed: ${e?.message || e}`, 'error');
+    }
+  };
+
+  // Errors block the export and open the manager on the offending rows; warnings only ask
+  const checkBeforeExport = (target: ExportTarget) => {
+    const found = [...validateRoutes(routes, settings, target), ...airspaceIssues(conflicts)];
+    const describe = (issue: ValidationIssue) => {
+      const route = routes.find(r => r.id === issue.routeId);
+      const wpIndex = route && issue.waypointId !== undefined ? route.waypoints.findIndex(w => w.id === issue.waypointId) : -1;
+      return `${route?.name || ''}${wpIndex >= 0 ? ` #${wpIndex + 1}` : ''}: ${formatIssue(issue, language)}`;
+    };
+
+    const errors = found.filter(i => i.severity === 'error');
+    if (errors.length > 0) {
+      setValidationTarget(target);
+      setActiveTab('manager');
+      showToast(`Export blocked: ${errors.length} error(s). ${describe(errors[0])}`, 'error');
+      return false;
+    }
+
+    const warnings = found.filter(i => i.severity === 'warning');
+    if (warnings.length === 0) return true;
+    const shown = warnings.slice(0, 5).map(describe).join('\n');
+    const more = warnings.length > 5 ? `\n... +${warnings.length - 5}` : '';
+    return confirm(`${warnings.length} ${t("val_warnings", language)}:\n\n${shown}${more}\n\nExport anyway?`);
+  };
+
+  const openFile = (file: PlatformFile) => {
+    if (file.name.toLowerCase().endsWith('.dfpp')) openProjectFile(file);
+    else handleImport([file]);
+  };
+
+  const handleOpenRecent = async (filePath: string) => {
+    try {
+      openFile(await openRecentFile(filePath));
+    } catch (e: any) {
       console.error(e);
-      showToast('Failed to save. Storage might be full.', 'error');
+      showToast(`Failed to open ${filePath}: ${e?.message || e}`, 'error');
+      refreshRecentFiles();
     }
   };
 
-  const loadProject = (name: string) => {
-    const dataStr = localStorage.getItem(`${PROJECT_PREFIX}${name}`);
-    if (dataStr) {
+  // Files opened from the OS (file association, second launch); the listener needs the latest state
+  const openFileRef = useRef(openFile);
+  openFileRef.current = openFile;
+  useEffect(() => {
+    refreshRecentFiles();
+    return onOpenFileRequest(file => openFileRef.current(file));
+  }, []);
+
+  const deleteProject = async (name: string) => {
+    if (confirm(`Are you sure you want to delete project "${name}"?`)) {
       try {
-        const data = JSON.parse(dataStr);
-        if (data.routes) setRoutes(data.routes);
-        if (data.settings) setSettings(data.settings);
-        showToast(`Project "${name}" loaded.`, 'success');
-      } catch (e) {
+        await storageRef.current?.remove(name);
+        setSavedProjects(prev => prev.filter(p => p.name !== name));
+        showToast('Project deleted.', 'info');
+      } catch (e: any) {
         console.error(e);
-        showToast('Error loading project data.', 'error');
+        showToast(`Failed to delete project: ${e?.message || e}`, 'error');
       }
     }
   };
 
-  const deleteProject = (name: string) => {
-    if (confirm(`Are you sure you want to delete project "${name}"?`)) {
-      localStorage.removeItem(`${PROJECT_PREFIX}${name}`);
-      setSavedProjects(prev => prev.filter(p => p !== name));
-      showToast('Project deleted.', 'info');
+  const handleRestoreSession = (restore: boolean) => {
+    if (!sessionPrompt) return;
+    if (restore) {
+      applyProject(sessionPrompt.doc);
+      // Still unsaved, but already in the autosave slot
+      persistedRef.current = { routes: sessionPrompt.doc.routes, settings: sessionPrompt.doc.settings };
+      showToast('Unsaved session restored.', 'success');
+    } else {
+      storageRef.current?.clearSession().catch(e => console.error(e));
+    }
+    setSessionPrompt(null);
+  };
+
+  const handleLoadDem = async (file: File) => {
+    setIsLoading(true);
+    try {
+      const grid = await loadElevationFile(file);
+      setElevationGrid(grid);
+      showToast(`DEM "${grid.name}" loaded (${grid.width}x${grid.height}).`, 'success');
+    } catch (e: any) {
+      console.error(e);
+      showToast(`Failed to load DEM: ${e?.message || e}`, 'error');
+    } finally {
+      setIsLoading(false);
     }
   };
 
+  const handleLoadAirspace = async (files: File[]) => {
+    const results = await Promise.allSettled(files.map(parseAirspaceFile));
+    const loaded = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+    const failed = results.flatMap(r => r.status === 'rejected' ? [r.reason?.message || String(r.reason)] : []);
+    failed.forEach(msg => console.error(msg));
+
+    if (loaded.length > 0) {
+      setAirspaceLayers(prev => [...prev, ...loaded]);
+      const zoneCount = loaded.reduce((sum, layer) => sum + layer.zones.length, 0);
+      showToast(`Loaded ${zoneCount} zones from ${loaded.length} files.${failed.length > 0 ? ` Failed: ${failed.join('; ')}` : ''}`, failed.length > 0 ? 'info' : 'success');
+    } else if (failed.length > 0) {
+      showToast(`Failed to load zones: ${failed.join('; ')}`, 'error');
+    }
+  };
+
+  const handleUpdateAirspaceLayer = (id: string, patch: Partial<AirspaceLayer>) => {
+    setAirspaceLayers(prev => prev.map(layer => layer.id === id ? { ...layer, ...patch } : layer));
+  };
+
+  const handleOpenLocalTiles = async (kind: 'mbtiles' | 'folder') => {
+    try {
+      const source = kind === 'mbtiles' ? await openMbtiles() : await openTileFolder();
+      if (!source) return;
+      setLocalLayers(prev => [...prev, tileSourceToLayer(source, kind)]);
+      showToast(`Offline basemap "${source.name}" loaded (zoom ${source.minZoom}-${source.maxZoom}).`, 'success');
+    } catch (e: any) {
+      console.error(e);
+      showToast(`Failed to load tiles: ${e?.message || e}`, 'error');
+    }
+  };
+
+  const handleLoadImageOverlay = async (files: File[]) => {
+    setIsLoading(true);
+    try {
+      const layer = await loadImageOverlay(files);
+      setLocalLayers(prev => [...prev, layer]);
+      showToast(`Image overlay "${layer.name}" loaded.`, 'success');
+    } catch (e: any) {
+      console.error(e);
+      showToast(`Failed to load image: ${e?.message || e}`, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemoveLocalLayer = (id: string) => {
+    const layer = localLayers.find(l => l.id === id);
+    if (layer?.url.startsWith('blob:')) URL.revokeObjectURL(layer.url);
+    setLocalLayers(prev => prev.filter(l => l.id !== id));
+  };
+
+  // Terrain follow only adjusts altitudes while a DEM is loaded and the option is on
+  const followTerrain = (waypoints: Waypoint[], homePoint: HomePoint): Waypoint[] => {
+    if (!settings.terrainFollow || !elevationGrid) return waypoints;
+    return applyTerrainFollow(waypoints, homePoint, elevationGrid, settings);
+  };
+
+  // Corridor lanes shoot on a timer, at the interval the forward overlap requires
+  const buildCorridorWaypoints = (path: { lat: number, lng: number }[], template?: Waypoint): Waypoint[] => {
+    const interval = calculatePhotoInterval(settings.altitude, settings.speedKmh, settings.selectedDroneModel, settings.mappingOverlap, settings.aspectRatio);
+    const base: Waypoint = template ?? {
+      id: 1,
+      latitude: 0,
+      longitude: 0,
+      altitude: settings.altitude,
+      heading: 0,
+      curveSize: settings.curveSize,
+      rotationDir: 0,
+      gimbalMode: settings.gimbalMode,
+      gimbalPitch: -90,
+      actionType1: 1,
+      actionParam1: 0,
+      actionType2: -1,
+      actionParam2: 0,
+      altitudeMode: settings.altitudeMode,
+      speed: parseFloat((settings.speedKmh / 3.6).toFixed(2)),
+      poiLat: 0,
+      poiLon: 0,
+      poiAlt: 0,
+      poiAltMode: 0,
+      photoTimeInterval: -1,
+      photoDistInterval: -1
+    };
+
+    return generateCorridorWaypoints(path, settings).map((c, idx) => ({
+      ...base,
+      id: idx + 1,
+      latitude: c.lat,
+      longitude: c.lng,
+      isEffort: c.isEffort,
+      photoTimeInterval: interval
+    }));
+  };
+
   const toggleRouteLock = (id: string) => {
-    setRoutes(prev => prev.map(r => {
+    updateRoutes('hist_lock_route', prev => prev.map(r => {
       if (r.id === id) {
         return { ...r, locked: !r.locked };
       }
@@ -114,7 +432,7 @@ const App: React.FC = () => {
     let updatedCount = 0;
     let lockedCount = 0;
 
-    setRoutes(currentRoutes => {
+    updateRoutes('hist_apply_settings', currentRoutes => {
       const newRoutes = currentRoutes.map(route => {
         if (route.locked) {
             lockedCount++;
@@ -123,16 +441,34 @@ const App: React.FC = () => {
 
         updatedCount++;
 
+        // Orbit geometry, headings and gimbal all derive from the POI, so regenerate as a whole
+        if (route.orbit) {
+            return { ...route, waypoints: generateOrbitWaypoints(route.orbit, route.orbit.radius, settings) };
+        }
+
+        // Facade rows carry their own altitudes and wall-facing headings
+        if (route.facade) {
+            return { ...route, waypoints: generateFacadeWaypoints(route.facade.start, route.facade.end, settings) };
+        }
+
         let currentWaypoints = route.waypoints;
+        let corridor = route.corridor;
+        const isSurvey = settings.flightMode === 'mapping' || settings.flightMode === 'corridor';
+
+        if (settings.flightMode === 'corridor' && route.corridor) {
+             corridor = { ...route.corridor, width: settings.corridorWidth };
+             currentWaypoints = buildCorridorWaypoints(route.corridor.path, route.waypoints[0]);
+        }
 
         if (settings.flightMode === 'mapping' && route.gridRotation !== undefined && route.originalPolygon) {
-             const newGridCoords = generateGridWaypoints(route.originalPolygon, settings, route.gridRotation);
+             const newGridCoords = generateGridWaypoints(route.originalPolygon, settings, route.gridRotation, route.exclusionZones);
              
              currentWaypoints = newGridCoords.map((c, idx) => ({
                 ...route.waypoints[0], 
                 id: idx + 1,
                 latitude: c.lat,
                 longitude: c.lng,
+                isEffort: c.isEffort,
                 actionType1: 1, 
                 gimbalPitch: -90, 
                 heading: 0,
@@ -146,11 +482,13 @@ const App: React.FC = () => {
           speed: parseFloat((settings.speedKmh / 3.6).toFixed(2)),
           curveSize: settings.curveSize,
           gimbalMode: settings.gimbalMode,
-          gimbalPitch: settings.flightMode === 'mapping' ? -90 : settings.gimbalPitch,
+          gimbalPitch: isSurvey ? -90 : settings.gimbalPitch,
           altitudeMode: settings.altitudeMode,
-          actionType1: settings.flightMode === 'mapping' ? 1 : settings.action1,
+          actionType1: isSurvey ? 1 : settings.action1,
         }));
 
+        updatedWaypoints = followTerrain(updatedWaypoints, route.homePoint);
+
         if (settings.headingMode === 'auto_bearing') {
            updatedWaypoints = updateWaypointsWithBearings(updatedWaypoints);
         } else if (settings.headingMode === 'manual') {
@@ -159,7 +497,8 @@ const App: React.FC = () => {
            updatedWaypoints = updatedWaypoints.map(wp => ({ ...wp, heading: 0 }));
         }
 
-        return { ...route, waypoints: updatedWaypoints };
+        // Applying settings replaces the finish/RC-lost actions an imported mission carried
+        return { ...route, waypoints: updatedWaypoints, corridor, missionConfig: undefined };
       });
       return newRoutes;
     });
@@ -170,21 +509,22 @@ const App: React.FC = () => {
         showToast(`Settings applied to all ${updatedCount} routes!`, 'success');
     }
 
-  }, [settings]);
+  }, [settings, elevationGrid]);
 
 
-  const handleImport = async (files: FileList) => {
+  const handleImport = async (files: FileList | File[]) => {
     setIsLoading(true);
     
     const fileArray = Array.from(files);
     
-    const importPromises = fileArray.map(async (file) => {
+    const importPromises = fileArray.map(async (file): Promise<{ file: string, routes: Route[], error?: string }> => {
       const ext = file.name.split('.').pop()?.toLowerCase();
       try {
+        let parsed: Route[] = [];
         if (ext === 'csv') {
           const wps = await parseCSV(file);
           if (wps.length > 0) {
-             return [{
+             parsed = [{
               id: generateId(),
               name: file.name.replace('.csv', ''),
               waypoints: wps,
@@ -194,29 +534,34 @@ const App: React.FC = () => {
             } as Route];
           }
         } else if (ext === 'kml') {
-          const kmlRoutes = await parseKML(file);
-          return kmlRoutes.map(r => ({
-              ...r, 
-              locked: false,
-              homePoint: { lat: r.waypoints[0].latitude - 0.0001, lng: r.waypoints[0].longitude }
-          } as Route));
+          parsed = await parseKML(file, settings);
+        } else if (ext === 'kmz') {
+          parsed = await parseKMZ(file, settings);
+        } else if (ext === 'geojson' || ext === 'json') {
+          parsed = await parseGeoJSON(file, settings);
+        } else if (ext === 'gpx') {
+          parsed = await parseGPX(file);
+        } else {
+          return { file: file.name, routes: [], error: `unsupported format ".${ext}"` };
         }
+        return { file: file.name, routes: parsed, error: parsed.length === 0 ? 'no routes found' : undefined };
       } catch (err) {
         console.error(`Error parsing ${file.name}`, err);
-        return null;
+        return { file: file.name, routes: [], error: err instanceof Error ? err.message : String(err) };
       }
-      return null;
     });
 
     try {
         const results = await Promise.all(importPromises);
-        const validNewRoutes = results.flat().filter((r): r is Route => r !== null);
+        const validNewRoutes = results.flatMap(r => r.routes);
+        const failures = results.filter(r => r.error).map(r => `${r.file} (${r.error})`);
 
         if (validNewRoutes.length > 0) {
-             setRoutes(prev => [...prev, ...validNewRoutes]);
-             showToast(`Successfully imported ${validNewRoutes.length} routes from ${files.length} files.`, 'success');
+             updateRoutes('hist_import', prev => [...prev, ...validNewRoutes], { detail: results.filter(r => r.routes.length > 0).map(r => r.file).join(', ') });
+             const failed = failures.length > 0 ? ` Failed: ${failures.join('; ')}` : '';
+             showToast(`Successfully imported ${validNewRoutes.length} routes from ${files.length - failures.length} files.${failed}`, failures.length > 0 ? 'info' : 'success');
         } else {
-             showToast('No valid routes found in files.', 'error');
+             showToast(failures.length > 0 ? `Import failed: ${failures.join('; ')}` : 'No valid routes found in files.', 'error');
         }
 
     } catch (e) {
@@ -227,7 +572,19 @@ const App: React.FC = () => {
     }
   };
 
-  const handleRouteCreated = (coords: { lat: number, lng: number }[]) => {
+  const handleRouteCreated = (coords: { lat: number, lng: number, isEffort?: boolean }[], polygon?: { lat: number, lng: number }[]) => {
+    if (polygon && settings.clipGridToBoundary) {
+      const clipped = clipToBoundary(polygon, airspaceLayers);
+      if (!clipped) {
+        showToast('The drawn area lies outside every boundary.', 'error');
+        return;
+      }
+      if (clipped !== polygon) {
+        polygon = clipped;
+        coords = generateGridWaypoints(clipped, settings, 0);
+      }
+    }
+
     const defaultAction = settings.flightMode === 'mapping' ? 1 : settings.action1;
     const defaultGimbal = settings.flightMode === 'mapping' ? -90 : settings.gimbalPitch;
 
@@ -252,14 +609,16 @@ const App: React.FC = () => {
       poiAlt: 0,
       poiAltMode: 0,
       photoTimeInterval: -1,
-      photoDistInterval: -1
+      photoDistInterval: -1,
+      isEffort: c.isEffort
     }));
     
-    let finalWps = newWaypoints;
+    const homePoint = { lat: newWaypoints[0].latitude - 0.0001, lng: newWaypoints[0].longitude };
+    let finalWps = followTerrain(newWaypoints, homePoint);
     if (settings.headingMode === 'auto_bearing') {
-       finalWps = updateWaypointsWithBearings(newWaypoints);
+       finalWps = updateWaypointsWithBearings(finalWps);
     } else if (settings.headingMode === 'manual') {
-       finalWps = newWaypoints.map(wp => ({ ...wp, heading: settings.headingManual }));
+       finalWps = finalWps.map(wp => ({ ...wp, heading: settings.headingManual }));
     }
 
     const newRoute: Route = {
@@ -268,15 +627,67 @@ const App: React.FC = () => {
       waypoints: finalWps,
       color: '#ff5722',
       locked: false,
-      homePoint: { lat: finalWps[0].latitude - 0.0001, lng: finalWps[0].longitude },
-      gridRotation: settings.flightMode === 'mapping' ? 0 : undefined,
-      originalPolygon: settings.flightMode === 'mapping' ? coords : undefined
+      homePoint,
+      gridRotation: polygon ? 0 : undefined,
+      originalPolygon: polygon
     };
 
-    setRoutes(prev => [...prev, newRoute]);
+    updateRoutes('hist_create_route', prev => [...prev, newRoute], { detail: newRoute.name });
     showToast('New route created from drawing.', 'success');
   };
 
+  const handleCorridorCreated = (path: { lat: number, lng: number }[]) => {
+    const homePoint = { lat: path[0].lat - 0.0001, lng: path[0].lng };
+    const waypoints = followTerrain(buildCorridorWaypoints(path), homePoint);
+
+    const newRoute: Route = {
+      id: generateId(),
+      name: `Corridor ${routes.length + 1}`,
+      waypoints,
+      color: '#0ea5e9',
+      locked: false,
+      homePoint,
+      corridor: { path, width: settings.corridorWidth }
+    };
+
+    updateRoutes('hist_create_route', prev => [...prev, newRoute], { detail: newRoute.name });
+    showToast(`Corridor created (${waypoints.length} waypoints).`, 'success');
+  };
+
+  const handleOrbitCreated = (center: { lat: number, lng: number }, radius: number) => {
+    const waypoints = generateOrbitWaypoints(center, radius, settings);
+
+    const newRoute: Route = {
+      id: generateId(),
+      name: `Orbit ${routes.length + 1}`,
+      waypoints,
+      color: '#8b5cf6',
+      locked: false,
+      homePoint: { lat: waypoints[0].latitude - 0.0001, lng: waypoints[0].longitude },
+      orbit: { lat: center.lat, lng: center.lng, radius }
+    };
+
+    updateRoutes('hist_create_route', prev => [...prev, newRoute], { detail: newRoute.name });
+    showToast(`Orbit created (${waypoints.length} waypoints, r = ${radius.toFixed(0)} m).`, 'success');
+  };
+
+  const handleFacadeCreated = (start: { lat: number, lng: number }, end: { lat: number, lng: number }) => {
+    const waypoints = generateFacadeWaypoints(start, end, settings);
+
+    const newRoute: Route = {
+      id: generateId(),
+      name: `Facade ${routes.length + 1}`,
+      waypoints,
+      color: '#14b8a6',
+      locked: false,
+      homePoint: { lat: waypoints[0].latitude - 0.0001, lng: waypoints[0].longitude },
+      facade: { start, end }
+    };
+
+    updateRoutes('hist_create_route', prev => [...prev, newRoute], { detail: newRoute.name });
+    showToast(`Facade scan created (${waypoints.length} waypoints).`, 'success');
+  };
+
   const handleOpenRenameModal = (id: string, currentName: string) => {
       setRenameModal({ isOpen: true, routeId: id, currentName });
   };
@@ -284,27 +695,53 @@ const App: React.FC = () => {
   const handleConfirmRename = () => {
       const { routeId, currentName } = renameModal;
       if (routeId && currentName.trim()) {
-          setRoutes(prev => prev.map(r => r.id === routeId ? { ...r, name: currentName } : r));
+          updateRoutes('hist_rename_route', prev => prev.map(r => r.id === routeId ? { ...r, name: currentName } : r), { detail: currentName });
           showToast('Route renamed.', 'success');
       }
       setRenameModal({ isOpen: false, routeId: null, currentName: '' });
   };
 
   const handleDeleteRoute = (id: string) => {
-    setRoutes(prev => prev.filter(r => r.id !== id));
+    updateRoutes('hist_delete_route', prev => prev.filter(r => r.id !== id), { detail: routes.find(r => r.id === id)?.name });
     showToast('Route deleted.', 'info');
   };
 
   const handleUndo = () => {
-    setRoutes(prev => {
-      if (prev.length === 0) return prev;
-      showToast('Last action undone.', 'info');
-      return prev.slice(0, -1);
-    });
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+    setHistory(undoHistory);
+    showToast(`Undone: ${t(entry.labelKey, language)}`, 'info');
   };
 
+  const handleRedo = () => {
+    const entry = history.future[0];
+    if (!entry) return;
+    setHistory(redoHistory);
+    showToast(`Redone: ${t(entry.labelKey, language)}`, 'info');
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   const handleWaypointUpdate = (routeId: string, wpId: number, lat: number, lng: number) => {
-    setRoutes(prev => prev.map(route => {
+    updateRoutes('hist_move_waypoint', prev => prev.map(route => {
       if (route.id !== routeId) return route;
       if (route.locked) return route; 
 
@@ -321,37 +758,86 @@ const App: React.FC = () => {
       }
 
       return { ...route, waypoints: finalWps };
-    }));
+    }), { detail: `#${wpId}` });
   };
 
   const handleHomePointUpdate = (routeId: string, lat: number, lng: number) => {
-      setRoutes(prev => prev.map(r => r.id === routeId ? { ...r, homePoint: { lat, lng } } : r));
+      updateRoutes('hist_home_point', prev => prev.map(r => r.id === routeId ? { ...r, homePoint: { lat, lng } } : r), { mergeKey: `home:${routeId}` });
   };
   
+  const regenerateGrid = (route: Route, angle: number, exclusionZones = route.exclusionZones): Waypoint[] => {
+      if (!route.originalPolygon) return route.waypoints;
+      const newGridCoords = generateGridWaypoints(route.originalPolygon, settings, angle, exclusionZones);
+      
+      const gridWps = newGridCoords.map((c, idx) => ({
+         ...route.waypoints[0], 
+         id: idx + 1,
+         latitude: c.lat,
+         longitude: c.lng,
+         isEffort: c.isEffort,
+         actionType1: 1, 
+         gimbalPitch: -90,
+         altitude: settings.altitude
+      }));
+      return followTerrain(gridWps, route.homePoint);
+  };
+
   const handleRotationUpdate = (routeId: string, angle: number) => {
-      setRoutes(prev => prev.map(route => {
+      // The rotation handle reports every step of a drag
+      updateRoutes('hist_rotation', prev => prev.map(route => {
           if (route.id !== routeId || route.locked) return route;
-          const basePolygon = route.originalPolygon;
-          if (!basePolygon) return { ...route, gridRotation: angle };
-
-          const newGridCoords = generateGridWaypoints(basePolygon, settings, angle);
-          
-          const newWps: Waypoint[] = newGridCoords.map((c, idx) => ({
-             ...route.waypoints[0], 
-             id: idx + 1,
-             latitude: c.lat,
-             longitude: c.lng,
-             actionType1: 1, 
-             gimbalPitch: -90,
-             altitude: settings.altitude
-          }));
-
-          return { ...route, waypoints: newWps, gridRotation: angle };
-      }));
+          if (!route.originalPolygon) return { ...route, gridRotation: angle };
+          return { ...route, waypoints: regenerateGrid(route, angle), gridRotation: angle };
+      }), { detail: `${angle.toFixed(0)}°`, mergeKey: `rotation:${routeId}` });
+  };
+
+  const handleOptimizeRotation = (routeId: string) => {
+      const route = routes.find(r => r.id === routeId);
+      if (!route) return;
+      setRotationModal({ routeId, candidates: rankGridRotations(route, settings) });
+  };
+
+  const handleApplyOptimizedRotation = (angle: number) => {
+      if (!rotationModal) return;
+      handleRotationUpdate(rotationModal.routeId, angle);
+      setRotationModal(null);
+      showToast(`Grid rotation set to ${angle}°.`, 'success');
+  };
+
+  const updateExclusionZones = (routeId: string, update: (zones: { lat: number, lng: number }[][]) => { lat: number, lng: number }[][], mergeKey?: string) => {
+      updateRoutes('hist_exclusion_zone', prev => prev.map(route => {
+          if (route.id !== routeId || route.locked || !route.originalPolygon) return route;
+          const exclusionZones = update(route.exclusionZones || []);
+          return { ...route, exclusionZones, waypoints: regenerateGrid(route, route.gridRotation || 0, exclusionZones) };
+      }), { detail: routes.find(r => r.id === routeId)?.name, mergeKey });
+  };
+
+  const handleExclusionZoneCreated = (ring: { lat: number, lng: number }[]) => {
+      const center = turf.centroid(turf.polygon([[...ring, ring[0]].map(p => [p.lng, p.lat])]));
+      const target = routes.find(r => !r.locked && r.originalPolygon && turf.booleanPointInPolygon(
+          center,
+          turf.polygon([[...r.originalPolygon, r.originalPolygon[0]].map(p => [p.lng, p.lat])])
+      ));
+
+      if (!target) {
+          showToast('Draw the keep-out zone inside an unlocked mapping area.', 'error');
+          return;
+      }
+      updateExclusionZones(target.id, zones => [...zones, ring]);
+      showToast(`Keep-out zone added to "${target.name}".`, 'success');
+  };
+
+  const handleExclusionZoneUpdate = (routeId: string, zoneIndex: number, ring: { lat: number, lng: number }[]) => {
+      updateExclusionZones(routeId, zones => zones.map((z, i) => i === zoneIndex ? ring : z), `zone:${routeId}:${zoneIndex}`);
+  };
+
+  const handleExclusionZoneDelete = (routeId: string, zoneIndex: number) => {
+      updateExclusionZones(routeId, zones => zones.filter((_, i) => i !== zoneIndex));
+      showToast('Keep-out zone removed.', 'info');
   };
 
   const handleDetailedUpdate = (routeId: string, wpId: number, field: string, value: any) => {
-      setRoutes(prev => prev.map(route => {
+      updateRoutes('hist_edit_waypoint', prev => prev.map(route => {
           if (route.id !== routeId) return route;
           if (route.locked) return route;
 
@@ -362,11 +848,18 @@ const App: React.FC = () => {
               return wp;
           });
           return { ...route, waypoints: updatedWps };
-      }));
+      }), { detail: `#${wpId} ${field}`, mergeKey: `field:${routeId}:${wpId}:${field}` });
+  };
+
+  const handleWaypointActionsUpdate = (routeId: string, wpId: number, actions: WaypointAction[]) => {
+      updateRoutes('hist_edit_actions', prev => prev.map(route => {
+          if (route.id !== routeId || route.locked) return route;
+          return { ...route, waypoints: route.waypoints.map(wp => wp.id === wpId ? { ...wp, ...toActionSlots(actions) } : wp) };
+      }), { detail: `#${wpId}` });
   };
 
   const handleDeleteWaypoint = (routeId: string, wpId: number) => {
-      setRoutes(prev => prev.map(route => {
+      updateRoutes('hist_delete_waypoint', prev => prev.map(route => {
           if (route.id !== routeId || route.locked) return route;
           const filtered = route.waypoints.filter(wp => wp.id !== wpId);
           let finalWps = filtered;
@@ -374,11 +867,11 @@ const App: React.FC = () => {
              finalWps = updateWaypointsWithBearings(filtered);
           }
           return { ...route, waypoints: finalWps };
-      }));
+      }), { detail: `#${wpId}` });
   };
 
   const handleReorderWaypoint = (routeId: string, wpId: number, direction: 'up' | 'down') => {
-      setRoutes(prev => prev.map(route => {
+      updateRoutes('hist_reorder_waypoint', prev => prev.map(route => {
           if (route.id !== routeId || route.locked) return route;
           const index = route.waypoints.findIndex(wp => wp.id === wpId);
           if (index === -1) return route;
@@ -395,7 +888,7 @@ const App: React.FC = () => {
              finalWps = updateWaypointsWithBearings(newWps);
           }
           return { ...route, waypoints: finalWps };
-      }));
+      }), { detail: `#${wpId}` });
   };
 
   const takeScreenshot = async () => {
@@ -425,21 +918,47 @@ const App: React.FC = () => {
         selectedStatsRouteId={selectedStatsRouteId}
         setSelectedStatsRouteId={setSelectedStatsRouteId}
         onImport={handleImport}
-        onExportLitchi={() => exportLitchiZip(routes)}
-        onExportKML={() => exportDJIKMLZip(routes)}
-        onExportWPML={() => exportDJIWPML(routes, settings)}
-        onClearRoutes={() => { setRoutes([]); showToast('All routes cleared.', 'info'); }}
+        onExportLitchi={() => checkBeforeExport('litchi') && runExport(() => exportLitchiZip(routes))}
+        onExportKML={() => checkBeforeExport('dji_kml') && runExport(() => exportDJIKMLZip(routes))}
+        onExportGPX={() => checkBeforeExport('gpx') && runExport(() => exportGPX(routes))}
+        onExportGeoJSON={() => checkBeforeExport('geojson') && runExport(() => exportGeoJSON(routes))}
+        onExportQGC={() => checkBeforeExport('qgc') && runExport(() => exportQGCZip(routes, settings))}
+        onExportWPML={() => checkBeforeExport('dji_wpml') && runExport(() => exportDJIWPML(routes, settings))}
+        onSendToController={() => setShowControllerSync(true)}
+        onClearRoutes={() => { updateRoutes('hist_clear_routes', () => []); showToast('All routes cleared.', 'info'); }}
         onApplySettings={applySettingsToRoutes}
+        elevationGridName={elevationGrid?.name || null}
+        onLoadDem={handleLoadDem}
+        onClearDem={() => { setElevationGrid(null); showToast('DEM unloaded.', 'info'); }}
+        airspaceLayers={airspaceLayers}
+        airspaceConflicts={conflicts}
+        onLoadAirspace={handleLoadAirspace}
+        onUpdateAirspaceLayer={handleUpdateAirspaceLayer}
+        onRemoveAirspaceLayer={(id) => setAirspaceLayers(prev => prev.filter(layer => layer.id !== id))}
         onPromptRename={handleOpenRenameModal}
         onDeleteRoute={handleDeleteRoute}
         onToggleLock={toggleRouteLock}
+        onOptimizeRotation={handleOptimizeRotation}
+        history={history}
         onUndo={handleUndo}
+        onRedo={handleRedo}
+        onJumpHistory={(stack, index) => setHistory(prev => jumpToHistory(prev, stack, index))}
         savedProjects={savedProjects}
         onSaveProject={saveProject}
         onLoadProject={loadProject}
         onDeleteProject={deleteProject}
+        projectMeta={projectMeta}
+        setProjectMeta={setProjectMeta}
+        onOpenProjectFile={openProjectFile}
+        onSaveProjectFile={saveProjectAsFile}
+        projectPath={projectPath}
+        recentFiles={recentFiles}
+        onOpenRecent={handleOpenRecent}
         measureMode={measureMode}
         setMeasureMode={setMeasureMode}
+        exclusionMode={exclusionMode}
+        setExclusionMode={setExclusionMode}
+        onOpenLayerManager={() => setShowLayerManager(true)}
         speedUnit={speedUnit}
         setSpeedUnit={setSpeedUnit}
         language={language}
@@ -495,13 +1014,29 @@ const App: React.FC = () => {
                     <MapEditor 
                         routes={routes}
                         measureMode={measureMode}
+                        exclusionMode={exclusionMode}
                         headingMode={settings.headingMode}
                         flightMode={settings.flightMode}
                         currentSettings={settings}
                         onRouteCreated={handleRouteCreated} 
+                        onOrbitCreated={handleOrbitCreated}
+                        onCorridorCreated={handleCorridorCreated}
+                        onFacadeCreated={handleFacadeCreated}
                         onWaypointUpdate={handleWaypointUpdate}
                         onHomePointUpdate={handleHomePointUpdate}
                         onRotationUpdate={handleRotationUpdate}
+                        onExclusionZoneCreated={handleExclusionZoneCreated}
+                        onExclusionZoneUpdate={handleExclusionZoneUpdate}
+                        onExclusionZoneDelete={handleExclusionZoneDelete}
+                        airspaceLayers={airspaceLayers}
+                        conflicts={conflicts}
+                        mapLayers={mapLayers}
+                        localLayers={localLayers}
+                        onOpenMbtiles={() => handleOpenLocalTiles('mbtiles')}
+                        onOpenTileFolder={() => handleOpenLocalTiles('folder')}
+                        onLoadImageOverlay={handleLoadImageOverlay}
+                        onRemoveLocalLayer={handleRemoveLocalLayer}
+                        onNotify={showToast}
                         speedUnit={speedUnit}
                         language={language}
                         stats={stats}
@@ -536,10 +1071,14 @@ const App: React.FC = () => {
                     routes={routes} 
                     stats={stats}
                     onUpdateWaypoint={handleDetailedUpdate} 
+                    onUpdateWaypointActions={handleWaypointActionsUpdate}
                     onDeleteWaypoint={handleDeleteWaypoint}
                     onReorderWaypoint={handleReorderWaypoint}
                     onRenameRoute={() => {}} 
                     onPromptRename={handleOpenRenameModal}
+                    issues={issues}
+                    validationTarget={validationTarget}
+                    onValidationTargetChange={setValidationTarget}
                     speedUnit={speedUnit}
                     language={language}
                 />
@@ -566,6 +1105,68 @@ const App: React.FC = () => {
             </div>
         )}
 
+        {rotationModal && (
+            <RotationOptimizer 
+                routeName={routes.find(r => r.id === rotationModal.routeId)?.name || ''}
+                currentAngle={routes.find(r => r.id === rotationModal.routeId)?.gridRotation || 0}
+                candidates={rotationModal.candidates}
+                onApply={handleApplyOptimizedRotation}
+                onClose={() => setRotationModal(null)}
+                language={language}
+            />
+        )}
+
+        {showControllerSync && (
+            <ControllerSync 
+                routes={routes}
+                settings={settings}
+                conflicts={conflicts}
+                onClose={() => setShowControllerSync(false)}
+                onNotify={showToast}
+                language={language}
+            />
+        )}
+
+        {showLayerManager && (
+            <LayerManager 
+                layers={mapLayers}
+                onChange={setMapLayers}
+                onClose={() => setShowLayerManager(false)}
+                language={language}
+            />
+        )}
+
+        {sessionPrompt && (
+             <div className="fixed inset-0 z-[2000] bg-black/50 flex items-center justify-center p-4">
+                 <div className="bg-white rounded-lg shadow-xl w-full max-w-sm overflow-hidden">
+                     <div className="p-4 border-b bg-slate-50">
+                         <h3 className="font-bold text-slate-800">{t("restore_session", language)}</h3>
+                     </div>
+                     <div className="p-6 text-sm text-slate-600 space-y-1">
+                         <p>{t("restore_session_desc", language)}</p>
+                         <p className="text-xs text-slate-500">
+                             {sessionPrompt.doc.metadata.name && <span className="font-bold">{sessionPrompt.doc.metadata.name} &middot; </span>}
+                             {sessionPrompt.doc.routes.length} {t("routes_label", language)} &middot; {new Date(sessionPrompt.savedAt).toLocaleString()}
+                         </p>
+                     </div>
+                     <div className="p-4 bg-slate-50 border-t flex justify-end gap-2">
+                         <button 
+                            onClick={() => handleRestoreSession(false)}
+                            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-200 rounded"
+                         >
+                            {t("discard", language)}
+                         </button>
+                         <button 
+                            onClick={() => handleRestoreSession(true)}
+                            className="px-4 py-2 text-sm font-bold text-white bg-blue-600 hover:bg-blue-700 rounded"
+                         >
+                            {t("restore", language)}
+                         </button>
+                     </div>
+                 </div>
+             </div>
+        )}
+
         {renameModal.isOpen && (
              <div className="fixed inset-0 z-[2000] bg-black/50 flex items-center justify-center p-4">
                  <div className="bg-white rounded-lg shadow-xl w-full max-w-sm overflow-hidden">
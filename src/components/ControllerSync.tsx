@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Route, FlightSettings, AirspaceConflict } from '../types';
+import { X, FolderOpen, RefreshCw, Send, Image, CheckCircle } from 'lucide-react';
+import { t, Language } from '../translations';
+import { ControllerMission, chooseControllerRoot, listControllerMissions, replaceControllerMission } from '../services/platformService';
+import { buildDJIWPMLKmz } from '../services/fileService';
+import { validateRoute, formatIssue } from '../services/validationService';
+import { airspaceIssues } from '../services/airspaceService';
+
+interface ControllerSyncProps {
+    routes: Route[];
+    settings: FlightSettings;
+    conflicts: AirspaceConflict[];
+    onClose: () => void;
+    onNotify: (message: string, type: 'success' | 'error' | 'info') => void;
+    language: Language;
+}
+
+export const ControllerSync: React.FC<ControllerSyncProps> = ({
+    routes,
+    settings,
+    conflicts,
+    onClose,
+    onNotify,
+    language
+}) => {
+    const [root, setRoot] = useState<string | null>(null);
+    const [waypointDir, setWaypointDir] = useState('');
+    const [missions, setMissions] = useState<ControllerMission[]>([]);
+    const [selectedUuid, setSelectedUuid] = useState<string | null>(null);
+    const [routeId, setRouteId] = useState(routes[0]?.id || '');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [backupPath, setBackupPath] = useState<string | null>(null);
+
+    const loadMissions = async (folder: string) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const result = await listControllerMissions(folder);
+            setWaypointDir(result.waypointDir);
+            setMissions(result.missions);
+            setSelectedUuid(prev => result.missions.some(m => m.uuid === prev) ? prev : null);
+        } catch (e: any) {
+            setWaypointDir('');
+            setMissions([]);
+            setError(e?.message || String(e));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleChooseRoot = async () => {
+        const folder = await chooseControllerRoot();
+        if (!folder) return;
+        setRoot(folder);
+        setBackupPath(null);
+        loadMissions(folder);
+    };
+
+    const handleReplace = async () => {
+        const route = routes.find(r => r.id === routeId);
+        if (!root || !selectedUuid || !route) return;
+
+        const errors = [...validateRoute(route, settings, 'dji_wpml'), ...airspaceIssues(conflicts.filter(c => c.routeId === route.id))]
+            .filter(i => i.severity === 'error');
+        if (errors.length > 0) {
+            setError(errors.map(i => formatIssue(i, language)).join('\n'));
+            return;
+        }
+        if (!confirm(`${t("controller_confirm", language)}\n\n${selectedUuid}  ←  ${route.name}`)) return;
+
+        setBusy(true);
+        try {
+            const result = await replaceControllerMission(root, selectedUuid, await buildDJIWPMLKmz(route, settings));
+            setBackupPath(result.backupPath);
+            onNotify(`"${route.name}" sent to mission ${selectedUuid}.`, 'success');
+            await loadMissions(root);
+        } catch (e: any) {
+            console.error(e);
+            onNotify(`Send to controller failed: ${e?.message || e}`, 'error');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const formatSize = (bytes: number) => bytes >= 1048576 ? `${(bytes / 1048576).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+    return (
+        <div className="fixed inset-0 z-[2000] bg-black/50 flex items-center justify-center p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden text-slate-900">
+                <div className="p-4 border-b bg-slate-50 flex justify-between items-center">
+                    <div>
+                        <h3 className="font-bold text-slate-800">{t("send_to_controller", language)}</h3>
+                        <p className="text-xs text-slate-500">{t("controller_hint", language)}</p>
+                    </div>
+                    <button onClick={onClose}><X size={20} className="text-slate-400 hover:text-slate-700"/></button>
+                </div>
+
+                <div className="p-4 border-b flex items-center gap-2">
+                    <button
+                        onClick={handleChooseRoot}
+                        disabled={busy}
+                        className="px-3 py-2 text-sm font-bold text-white bg-orange-500 hover:bg-orange-600 disabled:opacity-50 rounded flex items-center gap-2 shrink-0"
+                    >
+                        <FolderOpen size={16}/> {t("controller_choose", language)}
+                    </button>
+                    {root && (
+                        <>
+                            <span className="text-xs text-slate-500 font-mono truncate flex-1" title={waypointDir || root}>{waypointDir || root}</span>
+                            <button onClick={() => loadMissions(root)} disabled={busy} className="text-slate-400 hover:text-blue-600 disabled:opacity-50" title={t("refresh", language)}>
+                                <RefreshCw size={16} className={busy ? 'animate-spin' : ''}/>
+                            </button>
+                        </>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4">
+                    {error && <div className="p-3 mb-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded whitespace-pre-line">{error}</div>}
+                    {root && !error && missions.length === 0 && !busy && (
+                        <div className="text-sm text-slate-500 text-center p-6">{t("controller_no_missions", language)}</div>
+                    )}
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        {missions.map(m => (
+                            <button
+                                key={m.uuid}
+                                onClick={() => setSelectedUuid(m.uuid)}
+                                className={`text-left rounded border overflow-hidden transition ${selectedUuid === m.uuid ? 'border-orange-500 ring-2 ring-orange-300' : 'border-slate-200 hover:border-slate-400'}`}
+                            >
+                                {m.preview
+                                    ? <img src={m.preview} alt={m.uuid} className="w-full h-28 object-cover bg-slate-100"/>
+                                    : <div className="w-full h-28 bg-slate-100 flex items-center justify-center text-slate-300"><Image size={32}/></div>}
+                                <div className="p-2 text-[10px]">
+                                    <div className="font-mono text-slate-700 truncate" title={m.uuid}>{m.uuid}</div>
+                                    <div className="text-slate-400">{new Date(m.modifiedAt).toLocaleString()} &middot; {formatSize(m.size)}</div>
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {backupPath && (
+                    <div className="px-4 py-2 bg-emerald-50 border-t border-emerald-100 text-xs text-emerald-700 flex items-center gap-2">
+                        <CheckCircle size={14} className="shrink-0"/>
+                        <span className="truncate" title={backupPath}>{t("controller_backup", language)}: {backupPath}</span>
+                    </div>
+                )}
+
+                <div className="p-4 bg-slate-50 border-t flex items-center gap-2">
+                    <select
+                        value={routeId}
+                        onChange={(e) => setRouteId(e.target.value)}
+                        className="flex-1 bg-white border border-slate-300 rounded p-2 text-sm"
+                    >
+                        {routes.map(r => <option key={r.id} value={r.id}>{r.name} ({r.waypoints.length} WP)</option>)}
+                    </select>
+                    <button
+                        onClick={handleReplace}
+                        disabled={busy || !selectedUuid || !routeId}
+                        className="px-4 py-2 text-sm font-bold text-white bg-orange-500 hover:bg-orange-600 rounded disabled:opacity-50 flex items-center gap-2"
+                    >
+                        <Send size={16}/> {t("controller_replace", language)}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
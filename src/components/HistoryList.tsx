@@ -0,0 +1,51 @@
+import React from 'react';
+import { RouteHistory } from '../types';
+import { History, CornerDownRight } from 'lucide-react';
+import { t, Language } from '../translations';
+
+interface HistoryListProps {
+    history: RouteHistory;
+    onJump: (stack: 'past' | 'future', index: number) => void;
+    language: Language;
+}
+
+// Newest at the top: redoable changes (greyed), the current state, then undoable changes
+export const HistoryList: React.FC<HistoryListProps> = ({ history, onJump, language }) => {
+    const { past, future } = history;
+    if (past.length === 0 && future.length === 0) return null;
+
+    const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+    const row = (stack: 'past' | 'future', index: number) => {
+        const entry = history[stack][index];
+        return (
+            <button
+                key={`${stack}-${index}`}
+                onClick={() => onJump(stack, index)}
+                title={t(stack === 'past' ? "history_undo_to" : "history_redo_to", language)}
+                className={`w-full flex items-center justify-between gap-2 px-2 py-1 text-left text-xs border-b last:border-0 border-slate-100 hover:bg-blue-50 ${stack === 'future' ? 'text-slate-400 italic' : 'text-slate-700'}`}
+            >
+                <span className="truncate">
+                    {t(entry.labelKey, language)}
+                    {entry.detail && <span className="text-slate-400"> &middot; {entry.detail}</span>}
+                </span>
+                <span className="text-[10px] text-slate-400 font-mono shrink-0">{formatTime(entry.timestamp)}</span>
+            </button>
+        );
+    };
+
+    return (
+        <details className="text-xs">
+            <summary className="cursor-pointer text-slate-500 font-semibold flex items-center gap-1 select-none">
+                <History size={14} /> {t("history", language)} ({past.length})
+            </summary>
+            <div className="mt-1 max-h-40 overflow-y-auto border border-slate-200 rounded bg-white">
+                {future.map((_, i) => future.length - 1 - i).map(i => row('future', i))}
+                <div className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold uppercase text-blue-600 bg-blue-50 border-b border-slate-100">
+                    <CornerDownRight size={12} /> {t("history_current", language)}
+                </div>
+                {past.map((_, i) => past.length - 1 - i).map(i => row('past', i))}
+            </div>
+        </details>
+    );
+};
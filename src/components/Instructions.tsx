@@ -39,6 +39,9 @@ export const Instructions: React.FC<InstructionsProps> = ({ language }) => {
                             <ul className="list-disc pl-4 space-y-1">
                                 <li>{t("instr_polyline_tool", language)}</li>
                                 <li>{t("instr_polygon_tool", language)}</li>
+                                <li>{t("instr_circle_tool", language)}</li>
+                                <li>{t("instr_corridor_tool", language)}</li>
+                                <li>{t("instr_facade_tool", language)}</li>
                             </ul>
                         </div>
                         <div className="bg-slate-50 p-3 rounded border border-slate-200 text-sm">
@@ -47,6 +50,7 @@ export const Instructions: React.FC<InstructionsProps> = ({ language }) => {
                                 <li>{t("instr_drag_wp", language)}</li>
                                 <li>{t("instr_drag_home", language)}</li>
                                 <li>{t("instr_rotate_grid", language)}</li>
+                                <li>{t("instr_exclusion_zone", language)}</li>
                             </ul>
                         </div>
                     </div>
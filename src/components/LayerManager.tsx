@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { CustomMapLayer } from '../types';
+import { X, ArrowUp, ArrowDown, Edit2, Trash2, Plus, Check } from 'lucide-react';
+import { t, Language } from '../translations';
+import { generateId } from '../services/fileService';
+
+interface LayerManagerProps {
+    layers: CustomMapLayer[];
+    onChange: (layers: CustomMapLayer[]) => void;
+    onClose: () => void;
+    language: Language;
+}
+
+const createDraft = (): CustomMapLayer => ({
+    id: '',
+    name: '',
+    type: 'xyz',
+    url: '',
+    layers: '',
+    style: 'default',
+    tileMatrixSet: 'GoogleMapsCompatible',
+    format: 'image/png',
+    attribution: '',
+    opacity: 1,
+    overlay: true,
+    active: true
+});
+
+// Returns a translation key describing the first problem, or null
+const checkDraft = (draft: CustomMapLayer): string | null => {
+    if (!draft.name.trim()) return 'layer_err_name';
+    if (!/^https?:\/\//i.test(draft.url.trim())) return 'layer_err_url';
+    if (draft.type === 'xyz' && !['{z}', '{x}', '{y}'].every(p => draft.url.includes(p))) return 'layer_err_xyz';
+    if (draft.type === 'wms' && !draft.layers.trim()) return 'layer_err_layers';
+    if (draft.type === 'wmts' && !/\{TileMatrix\}/i.test(draft.url) && (!draft.layers.trim() || !draft.tileMatrixSet.trim())) return 'layer_err_wmts';
+    return null;
+};
+
+export const LayerManager: React.FC<LayerManagerProps> = ({
+    layers,
+    onChange,
+    onClose,
+    language
+}) => {
+    const [draft, setDraft] = useState<CustomMapLayer>(createDraft);
+    const [error, setError] = useState<string | null>(null);
+
+    const updateLayer = (id: string, patch: Partial<CustomMapLayer>) =>
+        onChange(layers.map(layer => layer.id === id ? { ...layer, ...patch } : layer));
+
+    const moveLayer = (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= layers.length) return;
+        const next = [...layers];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    const handleSave = () => {
+        const problem = checkDraft(draft);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        const layer = { ...draft, name: draft.name.trim(), url: draft.url.trim(), layers: draft.layers.trim() };
+        if (draft.id) onChange(layers.map(l => l.id === draft.id ? layer : l));
+        else onChange([...layers, { ...layer, id: generateId() }]);
+        setDraft(createDraft());
+        setError(null);
+    };
+
+    const handleDelete = (layer: CustomMapLayer) => {
+        if (!confirm(`${t("layer_delete_confirm", language)} "${layer.name}"?`)) return;
+        onChange(layers.filter(l => l.id !== layer.id));
+        if (draft.id === layer.id) setDraft(createDraft());
+    };
+
+    const inputClass = "w-full bg-white text-gray-900 border border-slate-300 rounded text-sm p-2 focus:ring-2 focus:ring-blue-500 outline-none placeholder-gray-400";
+    const labelClass = "block text-[10px] font-bold text-slate-500 uppercase mb-1";
+
+    const urlPlaceholder = draft.type === 'xyz' ? 'https://tiles.example.com/{z}/{x}/{y}.png'
+        : draft.type === 'wms' ? 'https://geo.example.com/wms'
+        : 'https://geo.example.com/wmts';
+
+    return (
+        <div className="fixed inset-0 z-[2000] bg-black/50 flex items-center justify-center p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden text-slate-900">
+                <div className="p-4 border-b bg-slate-50 flex justify-between items-center">
+                    <div>
+                        <h3 className="font-bold text-slate-800">{t("layer_manager", language)}</h3>
+                        <p className="text-xs text-slate-500">{t("layer_manager_hint", language)}</p>
+                    </div>
+                    <button onClick={onClose}><X size={20} className="text-slate-400 hover:text-slate-700"/></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto">
+                    {layers.length === 0 ? (
+                        <div className="p-6 text-center text-sm text-slate-500">{t("layer_none", language)}</div>
+                    ) : (
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-xs text-slate-700 uppercase bg-slate-50 border-b sticky top-0">
+                                <tr>
+                                    <th className="px-3 py-2"></th>
+                                    <th className="px-3 py-2">{t("layer_name", language)}</th>
+                                    <th className="px-3 py-2">{t("layer_role", language)}</th>
+                                    <th className="px-3 py-2">{t("layer_opacity", language)}</th>
+                                    <th className="px-3 py-2" title={t("layer_active_hint", language)}>{t("layer_active", language)}</th>
+                                    <th className="px-3 py-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {layers.map((layer, idx) => (
+                                    <tr key={layer.id} className={`border-b hover:bg-blue-50 ${draft.id === layer.id ? 'bg-blue-50' : ''}`}>
+                                        <td className="px-3 py-2 whitespace-nowrap">
+                                            <button onClick={() => moveLayer(idx, -1)} disabled={idx === 0} className="text-slate-400 hover:text-blue-600 disabled:opacity-30"><ArrowUp size={14}/></button>
+                                            <button onClick={() => moveLayer(idx, 1)} disabled={idx === layers.length - 1} className="text-slate-400 hover:text-blue-600 disabled:opacity-30"><ArrowDown size={14}/></button>
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <span className="font-bold text-slate-800">{layer.name}</span>
+                                            <span className="ml-2 text-[10px] font-bold uppercase bg-slate-100 text-slate-500 px-1 rounded">{layer.type}</span>
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <select
+                                                value={layer.overlay ? 'overlay' : 'base'}
+                                                onChange={(e) => updateLayer(layer.id, { overlay: e.target.value === 'overlay' })}
+                                                className="bg-white border border-slate-300 rounded text-xs p-1"
+                                            >
+                                                <option value="base">{t("layer_base", language)}</option>
+                                                <option value="overlay">{t("layer_overlay", language)}</option>
+                                            </select>
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <div className="flex items-center gap-2">
+                                                <input
+                                                    type="range"
+                                                    min={0.1}
+                                                    max={1}
+                                                    step={0.05}
+                                                    value={layer.opacity}
+                                                    onChange={(e) => updateLayer(layer.id, { opacity: Number(e.target.value) })}
+                                                    className="w-20"
+                                                />
+                                                <span className="text-xs text-slate-500 w-8">{Math.round(layer.opacity * 100)}%</span>
+                                            </div>
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <input type="checkbox" checked={layer.active} onChange={(e) => updateLayer(layer.id, { active: e.target.checked })}/>
+                                        </td>
+                                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                                            <button onClick={() => { setDraft(layer); setError(null); }} className="text-slate-400 hover:text-blue-600 mr-2" title={t("layer_edit", language)}><Edit2 size={14}/></button>
+                                            <button onClick={() => handleDelete(layer)} className="text-red-500 hover:text-red-700" title={t("remove_layer", language)}><Trash2 size={14}/></button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                <div className="p-4 bg-slate-50 border-t space-y-3">
+                    <h4 className="text-xs font-bold uppercase text-slate-600">{draft.id ? t("layer_edit", language) : t("layer_add", language)}</h4>
+                    <div className="grid grid-cols-4 gap-2">
+                        <div>
+                            <label className={labelClass}>{t("layer_type", language)}</label>
+                            <select value={draft.type} onChange={(e) => setDraft(d => ({ ...d, type: e.target.value as CustomMapLayer['type'] }))} className={inputClass}>
+                                <option value="xyz">XYZ</option>
+                                <option value="wms">WMS</option>
+                                <option value="wmts">WMTS</option>
+                            </select>
+                        </div>
+                        <div className="col-span-3">
+                            <label className={labelClass}>{t("layer_name", language)}</label>
+                            <input value={draft.name} onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))} className={inputClass}/>
+                        </div>
+                        <div className="col-span-4">
+                            <label className={labelClass}>URL</label>
+                            <input value={draft.url} placeholder={urlPlaceholder} onChange={(e) => setDraft(d => ({ ...d, url: e.target.value }))} className={`${inputClass} font-mono text-xs`}/>
+                        </div>
+                        {draft.type !== 'xyz' && (
+                            <>
+                                <div className="col-span-2">
+                                    <label className={labelClass}>{draft.type === 'wms' ? t("layer_wms_layers", language) : t("layer_wmts_layer", language)}</label>
+                                    <input value={draft.layers} onChange={(e) => setDraft(d => ({ ...d, layers: e.target.value }))} className={inputClass}/>
+                                </div>
+                                <div className={draft.type === 'wms' ? 'col-span-2' : ''}>
+                                    <label className={labelClass}>{t("layer_format", language)}</label>
+                                    <select value={draft.format} onChange={(e) => setDraft(d => ({ ...d, format: e.target.value }))} className={inputClass}>
+                                        <option value="image/png">PNG</option>
+                                        <option value="image/jpeg">JPEG</option>
+                                    </select>
+                                </div>
+                            </>
+                        )}
+                        {draft.type === 'wmts' && (
+                            <div>
+                                <label className={labelClass}>{t("layer_style", language)}</label>
+                                <input value={draft.style} onChange={(e) => setDraft(d => ({ ...d, style: e.target.value }))} className={inputClass}/>
+                            </div>
+                        )}
+                        {draft.type === 'wmts' && (
+                            <div className="col-span-2">
+                                <label className={labelClass}>{t("layer_matrix_set", language)}</label>
+                                <input value={draft.tileMatrixSet} onChange={(e) => setDraft(d => ({ ...d, tileMatrixSet: e.target.value }))} className={inputClass}/>
+                            </div>
+                        )}
+                        <div className={draft.type === 'wmts' ? 'col-span-2' : 'col-span-4'}>
+                            <label className={labelClass}>{t("layer_attribution", language)}</label>
+                            <input value={draft.attribution} onChange={(e) => setDraft(d => ({ ...d, attribution: e.target.value }))} className={inputClass}/>
+                        </div>
+                    </div>
+
+                    <div className="flex items-center gap-4 text-xs">
+                        <label className="flex items-center gap-2 font-bold text-slate-700">
+                            <input type="checkbox" checked={draft.overlay} onChange={(e) => setDraft(d => ({ ...d, overlay: e.target.checked }))}/>
+                            {t("layer_overlay", language)}
+                        </label>
+                        {error && <span className="text-red-600 font-bold">{t(error, language)}</span>}
+                        <div className="ml-auto flex gap-2">
+                            {draft.id && (
+                                <button onClick={() => { setDraft(createDraft()); setError(null); }} className="px-3 py-2 text-sm text-slate-600 hover:bg-slate-200 rounded">
+                                    {t("cancel", language)}
+                                </button>
+                            )}
+                            <button onClick={handleSave} className="px-4 py-2 text-sm font-bold text-white bg-blue-600 hover:bg-blue-700 rounded flex items-center gap-2">
+                                {draft.id ? <Check size={16}/> : <Plus size={16}/>} {draft.id ? t("save", language) : t("layer_add", language)}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,11 +1,14 @@
 
 import React, { useEffect, useState, useMemo } from 'react';
-import { MapContainer, TileLayer, FeatureGroup, Polyline, Marker, Popup, useMapEvents, LayersControl, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, FeatureGroup, Polyline, Polygon, Marker, Popup, CircleMarker, ImageOverlay, WMSTileLayer, LayerGroup, useMapEvents, LayersControl, useMap } from 'react-leaflet';
 import { EditControl } from 'react-leaflet-draw';
 import L from 'leaflet';
 import 'leaflet-draw';
-import { Route, FlightSettings, SpeedUnit, Waypoint, RouteStats } from '../types';
-import { calculateDistance, calculateBearing, generateGridWaypoints, computeDestinationPoint } from '../services/geometryService';
+import { Route, FlightSettings, SpeedUnit, Waypoint, RouteStats, AirspaceLayer, AirspaceConflict, LocalMapLayer, CustomMapLayer } from '../types';
+import { calculateDistance, calculateBearing, generateGridWaypoints, computeDestinationPoint, buildCorridorBuffer } from '../services/geometryService';
+import { getCachedTile, ONLINE_BASEMAPS, customLayerUrl } from '../services/tileService';
+import { routeFootprints, computeCoverage, renderCoverage, COVERAGE_LEVELS } from '../services/footprintService';
+import { OfflineMapPanel } from './OfflineMapPanel';
 import { Language, t } from '../translations';
 import * as turf from '@turf/turf';
 import { point as createPoint, points as createPoints } from '@turf/helpers';
@@ -57,6 +60,20 @@ const RulerIcon = L.divIcon({
     iconAnchor: [6, 6]
 });
 
+const PoiIcon = L.divIcon({
+    className: 'poi-icon',
+    html: '<div style="background-color: #8b5cf6; color: white; border: 2px solid white; width: 22px; height: 22px; border-radius: 50%; display: flex; align-items: center; justify-content: center; box-shadow: 0 2px 4px rgba(0,0,0,0.3); font-size: 10px; font-weight: 900; font-family: sans-serif;">POI</div>',
+    iconSize: [22, 22],
+    iconAnchor: [11, 11]
+});
+
+const ExclusionVertexIcon = L.divIcon({
+    className: 'exclusion-vertex',
+    html: '<div style="background-color: white; border: 2px solid #dc2626; width: 10px; height: 10px; border-radius: 2px;"></div>',
+    iconSize: [10, 10],
+    iconAnchor: [5, 5]
+});
+
 const createArrowIcon = (heading: number, color: string, isLocked: boolean) => {
     const fillColor = isLocked ? '#888888' : color;
     const svg = `
@@ -80,16 +97,56 @@ L.Marker.prototype.options.icon = L.icon({
     iconAnchor: [12, 41]
 });
 
+// Online basemaps (tile layers with a cacheKey) show prefetched tiles before going to the network
+const createNetworkTile = L.TileLayer.prototype.createTile;
+L.TileLayer.include({
+    createTile(this: any, coords: L.Coords, done: L.DoneCallback) {
+        const cacheKey: string | undefined = this.options.cacheKey;
+        if (!cacheKey) return createNetworkTile.call(this, coords, done);
+
+        const tile = document.createElement('img');
+        tile.alt = '';
+        L.DomEvent.on(tile, 'load', () => {
+            if (tile.src.startsWith('blob:')) URL.revokeObjectURL(tile.src);
+            this._tileOnLoad(done, tile);
+        });
+        L.DomEvent.on(tile, 'error', (e) => this._tileOnError(done, tile, e));
+        getCachedTile(cacheKey, coords)
+            .then(blob => { tile.src = blob ? URL.createObjectURL(blob) : this.getTileUrl(coords); })
+            .catch(() => { tile.src = this.getTileUrl(coords); });
+        return tile;
+    }
+});
+
+const DEFAULT_BASEMAP = 'esri_imagery';
+
 interface MapProps {
   routes: Route[];
   measureMode: boolean;
+  exclusionMode: boolean;
   headingMode: FlightSettings['headingMode']; 
   flightMode: FlightSettings['flightMode'];
   currentSettings: FlightSettings;
-  onRouteCreated: (latlngs: { lat: number, lng: number }[]) => void;
+  onRouteCreated: (latlngs: { lat: number, lng: number, isEffort?: boolean }[], polygon?: { lat: number, lng: number }[]) => void;
   onWaypointUpdate: (routeId: string, wpId: number, lat: number, lng: number) => void;
   onHomePointUpdate: (routeId: string, lat: number, lng: number) => void;
   onRotationUpdate: (routeId: string, angle: number) => void;
+  onOrbitCreated: (center: { lat: number, lng: number }, radius: number) => void;
+  onCorridorCreated: (path: { lat: number, lng: number }[]) => void;
+  onFacadeCreated: (start: { lat: number, lng: number }, end: { lat: number, lng: number }) => void;
+  onExclusionZoneCreated: (ring: { lat: number, lng: number }[]) => void;
+  onExclusionZoneUpdate: (routeId: string, zoneIndex: number, ring: { lat: number, lng: number }[]) => void;
+  onExclusionZoneDelete: (routeId: string, zoneIndex: number) => void;
+  airspaceLayers: AirspaceLayer[];
+  conflicts: AirspaceConflict[];
+  mapLayers: CustomMapLayer[];
+  // Offline maps
+  localLayers: LocalMapLayer[];
+  onOpenMbtiles: () => void;
+  onOpenTileFolder: () => void;
+  onLoadImageOverlay: (files: File[]) => void;
+  onRemoveLocalLayer: (id: string) => void;
+  onNotify: (message: string, type: 'success' | 'error' | 'info') => void;
   speedUnit: SpeedUnit;
   language: Language;
   stats: RouteStats; // Receive stats to render swap points
@@ -139,7 +196,7 @@ const DraggableArrow: React.FC<DraggableArrowProps> = ({
   const displaySpeed = speedUnit === 'kmh' ? (speed * 3.6).toFixed(1) + ' km/h' : speed.toFixed(1) + ' m/s';
 
   const actionMap: Record<number, string> = {
-      [-1]: "None", 0: "Stay", 1: "Photo", 2: "Start Rec", 3: "Stop Rec", 5: "Rotate"
+      [-1]: "None", 0: "Stay", 1: "Photo", 2: "Start Rec", 3: "Stop Rec", 4: "Rotate", 5: "Tilt", 6: "Zoom", 7: "Focus"
   };
 
   return (
@@ -254,6 +311,185 @@ const GridRotationHandle: React.FC<{ route: Route, onRotate: (id: string, angle:
     );
 };
 
+const ExclusionZoneEditor: React.FC<{
+    zone: { lat: number, lng: number }[],
+    isLocked: boolean,
+    language: Language,
+    onChange: (ring: { lat: number, lng: number }[]) => void,
+    onRemove: () => void
+}> = ({ zone, isLocked, language, onChange, onRemove }) => {
+    const positions = zone.map(p => [p.lat, p.lng] as L.LatLngTuple);
+
+    return (
+        <>
+            <Polygon 
+                positions={positions}
+                pathOptions={{ color: '#dc2626', weight: 2, fillColor: '#dc2626', fillOpacity: 0.25, dashArray: '4, 4' }}
+            >
+                <Popup>
+                    <div className="text-xs space-y-2 text-center">
+                        <strong className="block text-red-700">{t("exclusion_zone", language)}</strong>
+                        {!isLocked && (
+                            <button onClick={onRemove} className="bg-red-600 text-white px-2 py-1 rounded hover:bg-red-700">
+                                {t("remove_zone", language)}
+                            </button>
+                        )}
+                    </div>
+                </Popup>
+            </Polygon>
+            {!isLocked && zone.map((p, idx) => (
+                <Marker 
+                    key={idx}
+                    position={[p.lat, p.lng]}
+                    icon={ExclusionVertexIcon}
+                    draggable={true}
+                    eventHandlers={{
+                        dragend: (e) => {
+                            const ll = e.target.getLatLng();
+                            onChange(zone.map((v, i) => i === idx ? { lat: ll.lat, lng: ll.lng } : v));
+                        }
+                    }}
+                />
+            ))}
+        </>
+    );
+};
+
+// Leaflet puts layer names and attributions in the DOM as HTML
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+// Attribution is plain text; a URL in it becomes the only markup, a link
+const attributionHtml = (text: string) => text.split(/(https?:\/\/[^\s<>"']+)/).map((part, idx) =>
+    idx % 2 ? `<a href="${escapeHtml(part)}" target="_blank" rel="noopener noreferrer">${escapeHtml(part)}</a>` : escapeHtml(part)
+).join('');
+
+// User-defined XYZ/WMTS templates go through a plain tile layer, WMS asks the server per tile
+const CustomTileLayer: React.FC<{ layer: CustomMapLayer, zIndex: number }> = ({ layer, zIndex }) => layer.type === 'wms' ? (
+    <WMSTileLayer
+        url={layer.url}
+        params={{ layers: layer.layers, format: layer.format, transparent: true }}
+        attribution={attributionHtml(layer.attribution)}
+        opacity={layer.opacity}
+        zIndex={zIndex}
+    />
+) : (
+    <TileLayer
+        url={customLayerUrl(layer)}
+        attribution={attributionHtml(layer.attribution)}
+        opacity={layer.opacity}
+        zIndex={zIndex}
+        maxZoom={22}
+        maxNativeZoom={19}
+    />
+);
+
+// Hundreds of trapezoids per grid, so they go to a canvas instead of one SVG path each
+const PhotoFootprints: React.FC<{ routes: Route[], settings: FlightSettings }> = ({ routes, settings }) => {
+    const map = useMap();
+    const renderer = useMemo(() => L.canvas({ padding: 0.5 }), []);
+    useEffect(() => () => { map.removeLayer(renderer); }, [map, renderer]);
+
+    const footprints = useMemo(
+        () => routes.flatMap(route => routeFootprints(route, settings).map(fp => ({ ...fp, color: route.color }))),
+        [routes, settings]
+    );
+
+    return (
+        <>
+            {footprints.map((fp, idx) => (
+                <Polygon
+                    key={idx}
+                    positions={fp.corners.map(p => [p.lat, p.lng] as L.LatLngTuple)}
+                    pathOptions={{ renderer, color: fp.color, weight: 1, opacity: 0.6, fillOpacity: 0.04, interactive: false }}
+                />
+            ))}
+        </>
+    );
+};
+
+const CoverageOverlay: React.FC<{ routes: Route[], settings: FlightSettings, language: Language }> = ({ routes, settings, language }) => {
+    const coverage = useMemo(() => {
+        const footprints = routes.flatMap(route => routeFootprints(route, settings));
+        const grid = computeCoverage(footprints);
+        return grid ? { grid, url: renderCoverage(grid), photos: footprints.length } : null;
+    }, [routes, settings]);
+
+    if (!coverage) return null;
+
+    return (
+        <>
+            <ImageOverlay url={coverage.url} bounds={coverage.grid.bounds} opacity={0.75} />
+            <div className="absolute bottom-20 right-3 z-[1000] bg-white/95 rounded shadow-md border border-slate-200 p-2 text-[10px] text-slate-700 space-y-1">
+                <div className="font-bold uppercase text-slate-500">{t("coverage_legend", language)}</div>
+                {COVERAGE_LEVELS.map(level => (
+                    <div key={level.min} className="flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: `rgb(${level.color.join(',')})` }}/>
+                        {level.label}
+                    </div>
+                ))}
+                <div className="text-slate-500">{coverage.photos} {t("coverage_photos", language)} &middot; {coverage.grid.cellSize.toFixed(1)} m</div>
+            </div>
+        </>
+    );
+};
+
+const AirspaceOverlay: React.FC<{ layer: AirspaceLayer, language: Language }> = ({ layer, language }) => {
+    const isBoundary = layer.kind === 'boundary';
+    const pathOptions = isBoundary
+        ? { color: '#16a34a', weight: 3, fillOpacity: 0, dashArray: '10, 6' }
+        : { color: '#b91c1c', weight: 2, fillColor: '#b91c1c', fillOpacity: 0.15 };
+
+    return (
+        <>
+            {layer.zones.map((zone, idx) => (
+                <Polygon 
+                    key={idx}
+                    positions={zone.rings.map(ring => ring.map(p => [p.lat, p.lng] as L.LatLngTuple))}
+                    pathOptions={pathOptions}
+                >
+                    <Popup>
+                        <div className="text-xs space-y-1">
+                            <strong className={`block ${isBoundary ? 'text-green-700' : 'text-red-700'}`}>{zone.name}</strong>
+                            <div>{layer.name} &middot; {t(isBoundary ? "airspace_boundary" : "airspace_restricted", language)}</div>
+                            <div>{layer.floor} m &ndash; {layer.ceiling} m</div>
+                        </div>
+                    </Popup>
+                </Polygon>
+            ))}
+        </>
+    );
+};
+
+const ConflictHighlights: React.FC<{ routes: Route[], conflicts: AirspaceConflict[] }> = ({ routes, conflicts }) => (
+    <>
+        {conflicts.map((c, idx) => {
+            if (c.leg) {
+                return (
+                    <Polyline 
+                        key={idx}
+                        positions={[[c.leg.from.lat, c.leg.from.lng], [c.leg.to.lat, c.leg.to.lng]]}
+                        pathOptions={{ color: '#ef4444', weight: 10, opacity: 0.45 }}
+                        interactive={false}
+                    />
+                );
+            }
+            const route = routes.find(r => r.id === c.routeId);
+            const wp = route?.waypoints.find(w => w.id === c.waypointId);
+            const pos = wp ? [wp.latitude, wp.longitude] : route && c.waypointId === undefined ? [route.homePoint.lat, route.homePoint.lng] : null;
+            if (!pos) return null;
+            return (
+                <CircleMarker 
+                    key={idx}
+                    center={pos as L.LatLngTuple}
+                    radius={16}
+                    pathOptions={{ color: '#ef4444', weight: 3, fillColor: '#ef4444', fillOpacity: 0.2 }}
+                    interactive={false}
+                />
+            );
+        })}
+    </>
+);
+
 const SegmentDistanceLabels: React.FC<{ route: Route }> = ({ route }) => {
     if (route.waypoints.length < 2) return null;
 
@@ -417,11 +653,15 @@ const RulerComponent: React.FC<{ active: boolean }> = ({ active }) => {
 }
 
 export const MapEditor: React.FC<MapProps> = ({ 
-    routes, measureMode, headingMode, flightMode, currentSettings,
-    onRouteCreated, onWaypointUpdate, onHomePointUpdate, onRotationUpdate,
+    routes, measureMode, exclusionMode, headingMode, flightMode, currentSettings,
+    onRouteCreated, onWaypointUpdate, onHomePointUpdate, onRotationUpdate, onOrbitCreated, onCorridorCreated, onFacadeCreated,
+    onExclusionZoneCreated, onExclusionZoneUpdate, onExclusionZoneDelete,
+    airspaceLayers, conflicts, mapLayers, localLayers, onOpenMbtiles, onOpenTileFolder, onLoadImageOverlay, onRemoveLocalLayer, onNotify,
     speedUnit, language, stats
 }) => {
   const [ready, setReady] = useState(false);
+  const [showFootprints, setShowFootprints] = useState(false);
+  const [showCoverage, setShowCoverage] = useState(false);
 
   useEffect(() => {
     setReady(true);
@@ -429,9 +669,35 @@ export const MapEditor: React.FC<MapProps> = ({
 
   const _onCreated = (e: any) => {
     const { layerType, layer } = e;
+    if (layerType === 'circle') {
+      const center = layer.getLatLng();
+      if (layer.getRadius() > 1) onOrbitCreated({ lat: center.lat, lng: center.lng }, layer.getRadius());
+      layer.remove();
+      return;
+    }
     if (layerType === 'polyline' || layerType === 'polygon') {
       const latlngs = layer.getLatLngs();
       let flatLatLngs = Array.isArray(latlngs[0]) ? latlngs[0] : latlngs;
+      const ring: { lat: number, lng: number }[] = flatLatLngs.map((ll: any) => ({ lat: ll.lat, lng: ll.lng }));
+
+      if (exclusionMode) {
+          if (layerType === 'polygon' && ring.length > 2) onExclusionZoneCreated(ring);
+          layer.remove();
+          return;
+      }
+
+      // Facade: only the two ends of the drawn line define the wall
+      if (flightMode === 'facade' && layerType === 'polyline') {
+          if (ring.length > 1) onFacadeCreated(ring[0], ring[ring.length - 1]);
+          layer.remove();
+          return;
+      }
+
+      if (flightMode === 'corridor' && layerType === 'polyline') {
+          if (ring.length > 1) onCorridorCreated(ring);
+          layer.remove();
+          return;
+      }
       
       if (layerType === 'polygon' && flatLatLngs.length > 2) {
           flatLatLngs = [...flatLatLngs, flatLatLngs[0]];
@@ -444,15 +710,23 @@ export const MapEditor: React.FC<MapProps> = ({
 
       if (flightMode === 'mapping' && layerType === 'polygon') {
           simpleCoords = generateGridWaypoints(simpleCoords, currentSettings, 0);
+          onRouteCreated(simpleCoords, ring);
       } else {
         simpleCoords = simpleCoords.map(p => ({...p, isEffort: true}));
+        onRouteCreated(simpleCoords);
       }
 
-      onRouteCreated(simpleCoords);
       layer.remove();
     }
   };
 
+  // A newly loaded offline basemap replaces the default one
+  const localBasemaps = localLayers.filter(layer => layer.kind !== 'image');
+  const activeLocalBasemap = localBasemaps[localBasemaps.length - 1];
+  const customBasemaps = mapLayers.filter(layer => !layer.overlay);
+  const customOverlays = mapLayers.filter(layer => layer.overlay);
+  const activeCustomBasemap = activeLocalBasemap ? undefined : customBasemaps.find(layer => layer.active);
+
   if (!ready) return <div className="h-full w-full bg-slate-100 flex items-center justify-center">Loading Map...</div>;
 
   return (
@@ -464,19 +738,64 @@ export const MapEditor: React.FC<MapProps> = ({
             scrollWheelZoom={true}
         >
             <LayersControl position="topright">
-                <LayersControl.BaseLayer name={t("map_layer_street", language)}>
-                    <TileLayer
-                        attribution='&copy; <a href="https://carto.com/attributions">CARTO</a>'
-                        url="https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png"
-                    />
-                </LayersControl.BaseLayer>
-                <LayersControl.BaseLayer checked name={t("map_layer_sat", language)}>
-                    <TileLayer
-                        attribution='Tiles &copy; Esri'
-                        url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
-                    />
-                </LayersControl.BaseLayer>
+                {ONLINE_BASEMAPS.map(basemap => (
+                    <LayersControl.BaseLayer key={basemap.key} checked={!activeLocalBasemap && !activeCustomBasemap && basemap.key === DEFAULT_BASEMAP} name={t(basemap.labelKey, language)}>
+                        <TileLayer
+                            attribution={basemap.attribution}
+                            url={basemap.url}
+                            subdomains={basemap.subdomains || 'abc'}
+                            cacheKey={basemap.key}
+                        />
+                    </LayersControl.BaseLayer>
+                ))}
+                {customBasemaps.map(layer => (
+                    <LayersControl.BaseLayer key={`${layer.id}:${layer.type}:${layer.name}`} checked={layer.id === activeCustomBasemap?.id} name={escapeHtml(layer.name)}>
+                        <CustomTileLayer layer={layer} zIndex={1} />
+                    </LayersControl.BaseLayer>
+                ))}
+                {localBasemaps.map(layer => (
+                    <LayersControl.BaseLayer key={layer.id} checked={layer.id === activeLocalBasemap?.id} name={escapeHtml(layer.name)}>
+                        <TileLayer
+                            url={layer.url}
+                            minZoom={0}
+                            maxZoom={22}
+                            maxNativeZoom={layer.maxZoom}
+                            bounds={layer.bounds || undefined}
+                        />
+                    </LayersControl.BaseLayer>
+                ))}
+                {localLayers.filter(layer => layer.kind === 'image' && layer.bounds).map(layer => (
+                    <LayersControl.Overlay key={layer.id} checked name={escapeHtml(layer.name)}>
+                        <ImageOverlay url={layer.url} bounds={layer.bounds!} opacity={0.85} />
+                    </LayersControl.Overlay>
+                ))}
+                {customOverlays.map((layer, idx) => (
+                    <LayersControl.Overlay key={`${layer.id}:${layer.type}:${layer.name}`} checked={layer.active} name={escapeHtml(layer.name)}>
+                        <CustomTileLayer layer={layer} zIndex={10 + idx} />
+                    </LayersControl.Overlay>
+                ))}
+                {/* Computed only while switched on; the groups just report the layer control toggles */}
+                <LayersControl.Overlay name={t("photo_footprints", language)}>
+                    <LayerGroup eventHandlers={{ add: () => setShowFootprints(true), remove: () => setShowFootprints(false) }}>
+                        {showFootprints && <PhotoFootprints routes={routes} settings={currentSettings} />}
+                    </LayerGroup>
+                </LayersControl.Overlay>
+                <LayersControl.Overlay name={t("photo_coverage", language)}>
+                    <LayerGroup eventHandlers={{ add: () => setShowCoverage(true), remove: () => setShowCoverage(false) }}>
+                        {showCoverage && <CoverageOverlay routes={routes} settings={currentSettings} language={language} />}
+                    </LayerGroup>
+                </LayersControl.Overlay>
             </LayersControl>
+
+            <OfflineMapPanel
+                localLayers={localLayers}
+                onOpenMbtiles={onOpenMbtiles}
+                onOpenTileFolder={onOpenTileFolder}
+                onLoadImageOverlay={onLoadImageOverlay}
+                onRemoveLocalLayer={onRemoveLocalLayer}
+                onNotify={onNotify}
+                language={language}
+            />
             
             <FeatureGroup>
                 <EditControl
@@ -484,7 +803,7 @@ export const MapEditor: React.FC<MapProps> = ({
                     onCreated={_onCreated}
                     draw={{
                         rectangle: false,
-                        circle: false,
+                        circle: flightMode === 'orbit',
                         circlemarker: false,
                         marker: false,
                         polyline: true,
@@ -494,6 +813,12 @@ export const MapEditor: React.FC<MapProps> = ({
                 />
             </FeatureGroup>
 
+            {airspaceLayers.filter(layer => layer.active).map(layer => (
+                <AirspaceOverlay key={layer.id} layer={layer} language={language} />
+            ))}
+
+            <ConflictHighlights routes={routes} conflicts={conflicts} />
+
             {routes.map(route => (
                 <DraggableHomeMarker 
                     key={`home-${route.id}`}
@@ -508,6 +833,42 @@ export const MapEditor: React.FC<MapProps> = ({
                     <ColoredPath route={route} />
                     
                     <SegmentDistanceLabels route={route} />
+
+                    {route.corridor && (
+                        <Polygon 
+                            positions={buildCorridorBuffer(route.corridor.path, route.corridor.width).map(p => [p.lat, p.lng] as L.LatLngTuple)}
+                            pathOptions={{ color: route.color, weight: 1, fillOpacity: 0.08, dashArray: '6, 6' }}
+                            interactive={false}
+                        />
+                    )}
+
+                    {route.facade && (
+                        <Polyline 
+                            positions={[[route.facade.start.lat, route.facade.start.lng], [route.facade.end.lat, route.facade.end.lng]]}
+                            pathOptions={{ color: '#0f172a', weight: 6, opacity: 0.7 }}
+                            interactive={false}
+                        />
+                    )}
+
+                    {route.orbit && (
+                        <Marker position={[route.orbit.lat, route.orbit.lng]} icon={PoiIcon}>
+                            <Popup>
+                                <strong>{t("orbit_poi", language)}</strong><br/>
+                                <span className="text-xs">{route.name} &middot; r = {route.orbit.radius.toFixed(0)} m</span>
+                            </Popup>
+                        </Marker>
+                    )}
+
+                    {route.exclusionZones?.map((zone, zoneIdx) => (
+                        <ExclusionZoneEditor 
+                            key={`zone-${route.id}-${zoneIdx}`}
+                            zone={zone}
+                            isLocked={route.locked}
+                            language={language}
+                            onChange={(ring) => onExclusionZoneUpdate(route.id, zoneIdx, ring)}
+                            onRemove={() => onExclusionZoneDelete(route.id, zoneIdx)}
+                        />
+                    ))}
                     
                     {flightMode === 'mapping' && route.gridRotation !== undefined && (
                         <GridRotationHandle route={route} onRotate={onRotationUpdate} />
@@ -515,7 +876,7 @@ export const MapEditor: React.FC<MapProps> = ({
 
                     {route.waypoints.map((wp, idx) => {
                         let displayHeading = Number(wp.heading);
-                        if (headingMode === 'auto_path') {
+                        if (headingMode === 'auto_path' && !route.orbit && !route.facade) {
                             if (idx < route.waypoints.length - 1) {
                                 const nextWp = route.waypoints[idx + 1];
                                 displayHeading = calculateBearing(wp.latitude, wp.longitude, nextWp.latitude, nextWp.longitude);
@@ -540,7 +901,7 @@ export const MapEditor: React.FC<MapProps> = ({
                                     speed={wp.speed}
                                     gimbalPitch={wp.gimbalPitch}
                                     actionType={wp.actionType1}
-                                    headingMode={headingMode}
+                                    headingMode={route.orbit || route.facade ? 'poi' : headingMode}
                                     speedUnit={speedUnit}
                                 />
                             </React.Fragment>
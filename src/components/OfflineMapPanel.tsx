@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { LocalMapLayer } from '../types';
+import { HardDriveDownload, Database, FolderTree, ImagePlus, XCircle, X, Trash2 } from 'lucide-react';
+import { t, Language } from '../translations';
+import { ONLINE_BASEMAPS, MAX_PREFETCH_TILES, LatLngBox, countTilesInBox, tilesInBox, prefetchTiles, countCachedTiles, clearTileCache } from '../services/tileService';
+import { isDesktop, openFilesDialog, FileFilter } from '../services/platformService';
+
+const IMAGE_OVERLAY_FILTERS: FileFilter[] = [{ name: 'Georeferenced image', extensions: ['tif', 'tiff', 'png', 'jpg', 'jpeg', 'wld', 'pgw', 'pngw', 'jgw', 'jpgw', 'tfw'] }];
+
+interface OfflineMapPanelProps {
+    localLayers: LocalMapLayer[];
+    onOpenMbtiles: () => void;
+    onOpenTileFolder: () => void;
+    onLoadImageOverlay: (files: File[]) => void;
+    onRemoveLocalLayer: (id: string) => void;
+    onNotify: (message: string, type: 'success' | 'error' | 'info') => void;
+    language: Language;
+}
+
+const boxOf = (map: L.Map): LatLngBox => {
+    const b = map.getBounds();
+    return { south: b.getSouth(), west: b.getWest(), north: b.getNorth(), east: b.getEast() };
+};
+
+/** Floating map panel: local basemaps and overlays, and the tile prefetch for offline use. */
+export const OfflineMapPanel: React.FC<OfflineMapPanelProps> = ({
+    localLayers,
+    onOpenMbtiles,
+    onOpenTileFolder,
+    onLoadImageOverlay,
+    onRemoveLocalLayer,
+    onNotify,
+    language
+}) => {
+    const map = useMap();
+    const panelRef = useRef<HTMLDivElement>(null);
+    const imageInputRef = useRef<HTMLInputElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const [open, setOpen] = useState(false);
+    const [box, setBox] = useState<LatLngBox>(() => boxOf(map));
+    const [basemapKey, setBasemapKey] = useState(ONLINE_BASEMAPS[ONLINE_BASEMAPS.length - 1].key);
+    const [minZoom, setMinZoom] = useState(() => Math.round(map.getZoom()));
+    const [maxZoom, setMaxZoom] = useState(() => Math.min(19, Math.round(map.getZoom()) + 3));
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [cachedCount, setCachedCount] = useState<number | null>(null);
+
+    useMapEvents({
+        moveend: () => setBox(boxOf(map))
+    });
+
+    // Keep map gestures from firing through the panel
+    useEffect(() => {
+        if (!panelRef.current) return;
+        L.DomEvent.disableClickPropagation(panelRef.current);
+        L.DomEvent.disableScrollPropagation(panelRef.current);
+    }, [open]);
+
+    const refreshCachedCount = () => {
+        countCachedTiles(basemapKey).then(setCachedCount).catch(() => setCachedCount(null));
+    };
+
+    useEffect(() => {
+        if (open) refreshCachedCount();
+    }, [open, basemapKey]);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const tileCount = minZoom <= maxZoom ? countTilesInBox(box, minZoom, maxZoom) : 0;
+
+    const handlePrefetch = async () => {
+        const basemap = ONLINE_BASEMAPS.find(b => b.key === basemapKey);
+        if (!basemap || tileCount === 0) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setProgress({ done: 0, total: tileCount });
+        try {
+            const { saved, failed } = await prefetchTiles(basemap, tilesInBox(box, minZoom, maxZoom), (done, total) => setProgress({ done, total }), controller.signal);
+            if (controller.signal.aborted) onNotify(`Prefetch cancelled after ${saved} tiles.`, 'info');
+            else onNotify(`Cached ${saved} new tiles.${failed > 0 ? ` ${failed} failed.` : ''}`, failed > 0 ? 'info' : 'success');
+        } catch (e: any) {
+            onNotify(`Prefetch failed: ${e?.message || e}`, 'error');
+        } finally {
+            abortRef.current = null;
+            setProgress(null);
+            refreshCachedCount();
+        }
+    };
+
+    const handleClearCache = async () => {
+        if (!confirm(t("offline_clear_confirm", language))) return;
+        await clearTileCache(basemapKey);
+        refreshCachedCount();
+    };
+
+    const handlePickImage = async () => {
+        if (!isDesktop) {
+            imageInputRef.current?.click();
+            return;
+        }
+        const files = await openFilesDialog(IMAGE_OVERLAY_FILTERS, true);
+        if (files.length > 0) onLoadImageOverlay(files);
+    };
+
+    const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files.length > 0) onLoadImageOverlay(Array.from(e.target.files));
+        if (imageInputRef.current) imageInputRef.current.value = '';
+    };
+
+    const inputClass = "w-full bg-white text-gray-900 border border-slate-300 rounded text-xs p-1 focus:ring-2 focus:ring-blue-500 outline-none";
+    const btnClass = "flex-1 flex items-center justify-center gap-1 px-2 py-1.5 text-xs font-bold rounded border border-slate-300 bg-white hover:bg-slate-100 text-slate-700";
+
+    return (
+        <div ref={panelRef} className="absolute bottom-6 left-3 z-[1000] text-slate-900">
+            {!open ? (
+                <button
+                    onClick={() => setOpen(true)}
+                    className="bg-white/95 rounded shadow-md border border-slate-300 px-3 py-2 text-xs font-bold flex items-center gap-2 hover:bg-slate-50"
+                >
+                    <HardDriveDownload size={16}/> {t("offline_maps", language)}
+                </button>
+            ) : (
+                <div className="bg-white/95 rounded shadow-md border border-slate-200 w-72 p-3 space-y-3 text-xs backdrop-blur-sm">
+                    <div className="flex justify-between items-center pb-1 border-b border-slate-100">
+                        <h3 className="font-bold text-slate-700 flex items-center gap-1"><HardDriveDownload size={14}/> {t("offline_maps", language)}</h3>
+                        <button onClick={() => setOpen(false)} className="text-slate-400 hover:text-red-500"><X size={16}/></button>
+                    </div>
+
+                    <div className="flex gap-1">
+                        {isDesktop && (
+                            <>
+                                <button onClick={onOpenMbtiles} className={btnClass} title={t("offline_mbtiles_hint", language)}><Database size={14}/> MBTiles</button>
+                                <button onClick={onOpenTileFolder} className={btnClass} title={t("offline_folder_hint", language)}><FolderTree size={14}/> {t("offline_folder", language)}</button>
+                            </>
+                        )}
+                        <button onClick={handlePickImage} className={btnClass} title={t("offline_image_hint", language)}><ImagePlus size={14}/> {t("offline_image", language)}</button>
+                        <input
+                            type="file"
+                            ref={imageInputRef}
+                            className="hidden"
+                            accept=".tif,.tiff,.png,.jpg,.jpeg,.wld,.pgw,.pngw,.jgw,.jpgw,.tfw"
+                            multiple
+                            onChange={handleImageChange}
+                        />
+                    </div>
+                    {!isDesktop && <p className="text-[10px] text-slate-500">{t("offline_desktop_only", language)}</p>}
+
+                    {localLayers.length > 0 && (
+                        <ul className="space-y-1">
+                            {localLayers.map(layer => (
+                                <li key={layer.id} className="flex items-center gap-2 bg-slate-50 rounded px-2 py-1">
+                                    {layer.kind === 'image' ? <ImagePlus size={12} className="text-slate-400"/> : layer.kind === 'mbtiles' ? <Database size={12} className="text-slate-400"/> : <FolderTree size={12} className="text-slate-400"/>}
+                                    <span className="truncate flex-1" title={layer.name}>{layer.name}</span>
+                                    {layer.maxZoom !== undefined && <span className="text-slate-400">z{layer.minZoom}-{layer.maxZoom}</span>}
+                                    <button onClick={() => onRemoveLocalLayer(layer.id)} className="text-red-500 hover:text-red-700" title={t("remove_layer", language)}><XCircle size={14}/></button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <div className="border-t border-slate-100 pt-2 space-y-2">
+                        <h4 className="text-[10px] font-bold text-slate-500 uppercase">{t("offline_prefetch", language)}</h4>
+                        <select value={basemapKey} onChange={(e) => setBasemapKey(e.target.value)} className={inputClass} disabled={!!progress}>
+                            {ONLINE_BASEMAPS.map(b => <option key={b.key} value={b.key}>{t(b.labelKey, language)}</option>)}
+                        </select>
+                        <div className="grid grid-cols-2 gap-2">
+                            <label>
+                                <span className="block text-[10px] font-bold text-slate-500">{t("offline_min_zoom", language)}</span>
+                                <input type="number" min={0} max={19} value={minZoom} onChange={(e) => setMinZoom(Math.max(0, Math.min(19, Number(e.target.value))))} className={inputClass} disabled={!!progress}/>
+                            </label>
+                            <label>
+                                <span className="block text-[10px] font-bold text-slate-500">{t("offline_max_zoom", language)}</span>
+                                <input type="number" min={0} max={19} value={maxZoom} onChange={(e) => setMaxZoom(Math.max(0, Math.min(19, Number(e.target.value))))} className={inputClass} disabled={!!progress}/>
+                            </label>
+                        </div>
+                        <p className={`text-[10px] ${tileCount > MAX_PREFETCH_TILES ? 'text-red-600 font-bold' : 'text-slate-500'}`}>
+                            {tileCount} {t("offline_tiles_in_view", language)} (max {MAX_PREFETCH_TILES})
+                        </p>
+
+                        {progress ? (
+                            <div className="space-y-1">
+                                <div className="h-2 bg-slate-200 rounded overflow-hidden">
+                                    <div className="h-full bg-blue-600 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }}/>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-slate-500">{progress.done} / {progress.total}</span>
+                                    <button onClick={() => abortRef.current?.abort()} className="text-red-600 font-bold hover:underline">{t("cancel", language)}</button>
+                                </div>
+                            </div>
+                        ) : (
+                            <button
+                                onClick={handlePrefetch}
+                                disabled={tileCount === 0 || tileCount > MAX_PREFETCH_TILES}
+                                className="w-full flex items-center justify-center gap-1 px-2 py-1.5 text-xs font-bold rounded text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                            >
+                                <HardDriveDownload size={14}/> {t("offline_prefetch_view", language)}
+                            </button>
+                        )}
+
+                        <div className="flex justify-between items-center text-[10px] text-slate-500">
+                            <span>{cachedCount ?? '-'} {t("offline_cached", language)}</span>
+                            <button onClick={handleClearCache} disabled={!!progress || !cachedCount} className="flex items-center gap-1 text-red-500 hover:text-red-700 disabled:opacity-40">
+                                <Trash2 size={12}/> {t("offline_clear", language)}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
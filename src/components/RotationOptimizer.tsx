@@ -0,0 +1,93 @@
+import React from 'react';
+import { GridRotationCandidate } from '../types';
+import { X, Battery, Clock, Check } from 'lucide-react';
+import { t, Language } from '../translations';
+
+interface RotationOptimizerProps {
+    routeName: string;
+    currentAngle: number;
+    candidates: GridRotationCandidate[]; // Ranked, best first
+    onApply: (angle: number) => void;
+    onClose: () => void;
+    language: Language;
+}
+
+export const RotationOptimizer: React.FC<RotationOptimizerProps> = ({
+    routeName,
+    currentAngle,
+    candidates,
+    onApply,
+    onClose,
+    language
+}) => {
+    const best = candidates[0];
+
+    const formatDist = (m: number) => m > 1000 ? `${(m / 1000).toFixed(2)} km` : `${m.toFixed(0)} m`;
+
+    return (
+        <div className="fixed inset-0 z-[2000] bg-black/50 flex items-center justify-center p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden text-slate-900">
+                <div className="p-4 border-b bg-slate-50 flex justify-between items-center">
+                    <div>
+                        <h3 className="font-bold text-slate-800">{t("optimize_rotation", language)}</h3>
+                        <p className="text-xs text-slate-500">{routeName} &middot; {t("current_angle", language)}: {currentAngle.toFixed(0)}°</p>
+                    </div>
+                    <button onClick={onClose}><X size={20} className="text-slate-400 hover:text-slate-700"/></button>
+                </div>
+
+                {best ? (
+                    <>
+                        <div className="p-4 bg-violet-50 border-b border-violet-100 flex items-center justify-between gap-4">
+                            <div className="text-sm">
+                                <span className="block text-[10px] font-bold uppercase text-violet-600">{t("best_angle", language)}</span>
+                                <span className="text-2xl font-black text-violet-800">{best.angle}°</span>
+                                <span className="ml-3 text-xs text-slate-600 inline-flex items-center gap-1">
+                                    <Battery size={12}/> {best.batteryCount} &middot; <Clock size={12}/> {best.totalTimeMinutes.toFixed(1)} min
+                                </span>
+                            </div>
+                            <button
+                                onClick={() => onApply(best.angle)}
+                                className="px-4 py-2 text-sm font-bold text-white bg-violet-600 hover:bg-violet-700 rounded flex items-center gap-2"
+                            >
+                                <Check size={16}/> {t("apply_best", language)}
+                            </button>
+                        </div>
+
+                        <div className="flex-1 overflow-y-auto">
+                            <table className="w-full text-sm text-left">
+                                <thead className="text-xs text-slate-700 uppercase bg-slate-50 border-b sticky top-0">
+                                    <tr>
+                                        <th className="px-4 py-2">#</th>
+                                        <th className="px-4 py-2">{t("col_angle", language)}</th>
+                                        <th className="px-4 py-2">{t("col_path", language)}</th>
+                                        <th className="px-4 py-2">{t("col_turns", language)}</th>
+                                        <th className="px-4 py-2">{t("est_time", language)}</th>
+                                        <th className="px-4 py-2">{t("est_batteries", language)}</th>
+                                        <th className="px-4 py-2"></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {candidates.map((c, idx) => (
+                                        <tr key={c.angle} className={`border-b hover:bg-violet-50 ${Math.round(currentAngle) === c.angle ? 'bg-slate-100' : ''}`}>
+                                            <td className="px-4 py-2 text-slate-500 font-mono">{idx + 1}</td>
+                                            <td className="px-4 py-2 font-bold">{c.angle}°</td>
+                                            <td className="px-4 py-2">{formatDist(c.pathLength)}</td>
+                                            <td className="px-4 py-2">{c.turns}</td>
+                                            <td className="px-4 py-2">{c.totalTimeMinutes.toFixed(1)} min</td>
+                                            <td className="px-4 py-2">{c.batteryCount}</td>
+                                            <td className="px-4 py-2 text-right">
+                                                <button onClick={() => onApply(c.angle)} className="text-violet-600 hover:underline text-xs font-bold">{t("apply", language)}</button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                ) : (
+                    <div className="p-6 text-sm text-slate-500 text-center">{t("optimize_unavailable", language)}</div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,17 +1,24 @@
 
 import React, { useState, useEffect } from 'react';
-import { Route, Waypoint, SpeedUnit, RouteStats } from '../types';
-import { ArrowUp, ArrowDown, Trash2, Edit, ChevronDown, ChevronUp, X, Edit2, Battery } from 'lucide-react';
+import { Route, Waypoint, WaypointAction, SpeedUnit, RouteStats, WAYPOINT_ACTION_TYPES, ExportTarget, ValidationIssue } from '../types';
+import { ArrowUp, ArrowDown, Trash2, Edit, ChevronDown, ChevronUp, X, Edit2, Battery, Plus, AlertCircle, AlertTriangle, ShieldCheck } from 'lucide-react';
+import { getWaypointActions, toActionSlots, MAX_WAYPOINT_ACTIONS } from '../services/actionService';
+import { formatIssue, PLATFORM_LIMITS } from '../services/validationService';
 import { t, Language } from '../translations';
 
 interface RouteManagerProps {
     routes: Route[];
     stats: RouteStats; // Pass stats to detect swap waypoints
     onUpdateWaypoint: (routeId: string, wpId: number, field: string, value: any) => void;
+    onUpdateWaypointActions: (routeId: string, wpId: number, actions: WaypointAction[]) => void;
     onDeleteWaypoint: (routeId: string, wpId: number) => void;
     onReorderWaypoint: (routeId: string, wpId: number, direction: 'up' | 'down') => void;
     onRenameRoute: (id: string, newName: string) => void;
     onPromptRename: (id: string, currentName: string) => void;
+    // Pre-flight validation
+    issues: ValidationIssue[];
+    validationTarget: ExportTarget;
+    onValidationTargetChange: (target: ExportTarget) => void;
     speedUnit: SpeedUnit;
     language: Language;
 }
@@ -72,10 +79,14 @@ export const RouteManager: React.FC<RouteManagerProps> = ({
     routes, 
     stats,
     onUpdateWaypoint, 
+    onUpdateWaypointActions,
     onDeleteWaypoint, 
     onReorderWaypoint,
     onRenameRoute,
     onPromptRename,
+    issues,
+    validationTarget,
+    onValidationTargetChange,
     speedUnit,
     language
 }) => {
@@ -104,6 +115,19 @@ export const RouteManager: React.FC<RouteManagerProps> = ({
             setEditingWp({ routeId, wp: { ...wp, [field]: val } });
         };
 
+        const actions = getWaypointActions(wp);
+
+        const handleActionsChange = (next: WaypointAction[]) => {
+            onUpdateWaypointActions(routeId, wp.id, next);
+            setEditingWp({ routeId, wp: { ...wp, ...toActionSlots(next) } });
+        };
+
+        const moveAction = (idx: number, delta: number) => {
+            const next = [...actions];
+            [next[idx], next[idx + delta]] = [next[idx + delta], next[idx]];
+            handleActionsChange(next);
+        };
+
         const handleSpeedChange = (val: number) => {
             const ms = fromDisplaySpeed(val);
             onUpdateWaypoint(routeId, wp.id, 'speed', ms);
@@ -132,18 +156,35 @@ export const RouteManager: React.FC<RouteManagerProps> = ({
                         <div><label className="text-xs font-bold">{t("gimbal_pitch", language)}</label><input type="number" className={inputClass} value={wp.gimbalPitch} onChange={e => handleChange('gimbalPitch', Number(e.target.value))} /></div>
                         
                         <div className="col-span-2 font-bold text-slate-500 border-b pb-1 mb-2 mt-4">{t("route_actions", language)}</div>
-                        <div>
-                            <label className="text-xs font-bold">Action Type 1</label>
-                            <select className={inputClass} value={wp.actionType1} onChange={e => handleChange('actionType1', Number(e.target.value))}>
-                                <option value="-1">{t("act_none", language)}</option>
-                                <option value="0">{t("act_stay", language)}</option>
-                                <option value="1">{t("act_photo", language)}</option>
-                                <option value="2">{t("act_start_rec", language)}</option>
-                                <option value="3">{t("act_stop_rec", language)}</option>
-                                <option value="5">{t("act_rotate", language)}</option>
-                            </select>
+                        <div className="col-span-2 space-y-2">
+                            {actions.length === 0 && <p className="text-xs text-slate-400">{t("no_actions", language)}</p>}
+                            {actions.map((action, idx) => {
+                                const def = WAYPOINT_ACTION_TYPES.find(d => d.type === action.type);
+                                return (
+                                    <div key={idx} className="flex items-center gap-2">
+                                        <span className="text-xs font-mono text-slate-400 w-5">{idx + 1}</span>
+                                        <select className={inputClass} value={action.type} onChange={e => handleActionsChange(actions.map((a, i) => i === idx ? { type: Number(e.target.value), param: 0 } : a))}>
+                                            {WAYPOINT_ACTION_TYPES.map(d => (
+                                                <option key={d.type} value={d.type}>{t(d.labelKey, language)}{d.litchi ? '' : ' (WPML)'}</option>
+                                            ))}
+                                        </select>
+                                        {def?.paramKey ? (
+                                            <input type="number" className={`${inputClass} w-28`} title={t(def.paramKey, language)} placeholder={t(def.paramKey, language)} value={action.param} onChange={e => handleActionsChange(actions.map((a, i) => i === idx ? { ...a, param: Number(e.target.value) } : a))} />
+                                        ) : <span className="w-28 shrink-0"></span>}
+                                        <button onClick={() => moveAction(idx, -1)} disabled={idx === 0} className="p-1 text-slate-500 hover:text-slate-800 disabled:opacity-30"><ArrowUp size={14}/></button>
+                                        <button onClick={() => moveAction(idx, 1)} disabled={idx === actions.length - 1} className="p-1 text-slate-500 hover:text-slate-800 disabled:opacity-30"><ArrowDown size={14}/></button>
+                                        <button onClick={() => handleActionsChange(actions.filter((_, i) => i !== idx))} className="p-1 text-slate-500 hover:text-red-600"><Trash2 size={14}/></button>
+                                    </div>
+                                );
+                            })}
+                            <button 
+                                onClick={() => handleActionsChange([...actions, { type: 1, param: 0 }])}
+                                disabled={actions.length >= MAX_WAYPOINT_ACTIONS}
+                                className="text-xs font-bold text-blue-600 hover:underline flex items-center gap-1 disabled:opacity-30"
+                            >
+                                <Plus size={12}/> {t("add_action", language)} ({actions.length}/{MAX_WAYPOINT_ACTIONS})
+                            </button>
                         </div>
-                        <div><label className="text-xs font-bold">Action Param 1</label><input type="number" className={inputClass} value={wp.actionParam1} onChange={e => handleChange('actionParam1', Number(e.target.value))} /></div>
                         
                         <div className="col-span-2 font-bold text-slate-500 border-b pb-1 mb-2 mt-4">{t("advanced", language)}</div>
                         <div><label className="text-xs font-bold">{t("curve_size", language)}</label><input type="number" className={inputClass} value={wp.curveSize} onChange={e => handleChange('curveSize', Number(e.target.value))} /></div>
@@ -170,10 +211,48 @@ export const RouteManager: React.FC<RouteManagerProps> = ({
         );
     }
 
+    const errorCount = issues.filter(i => i.severity === 'error').length;
+    const warningCount = issues.length - errorCount;
+
+    const IssueIcon: React.FC<{ list: ValidationIssue[] }> = ({ list }) => {
+        if (list.length === 0) return null;
+        const hasError = list.some(i => i.severity === 'error');
+        const title = list.map(i => formatIssue(i, language)).join('\n');
+        return hasError
+            ? <span title={title}><AlertCircle size={14} className="text-red-600"/></span>
+            : <span title={title}><AlertTriangle size={14} className="text-amber-500"/></span>;
+    };
+
     return (
         <div className="h-full flex flex-col bg-slate-50">
             <div className="flex-1 overflow-y-auto p-6 pb-32">
-                {routes.map(route => (
+                <div className="mb-6 bg-white rounded shadow border border-slate-200 p-3 flex flex-wrap items-center gap-3 text-sm text-slate-900">
+                    <ShieldCheck size={18} className="text-slate-500"/>
+                    <label className="text-xs font-bold uppercase text-slate-500">{t("validate_for", language)}</label>
+                    <select
+                        value={validationTarget}
+                        onChange={(e) => onValidationTargetChange(e.target.value as ExportTarget)}
+                        className={`${inputClass} w-44`}
+                    >
+                        {(Object.keys(PLATFORM_LIMITS) as ExportTarget[]).map(target => (
+                            <option key={target} value={target}>{t(`target_${target}`, language)}</option>
+                        ))}
+                    </select>
+                    {issues.length === 0 ? (
+                        <span className="text-xs font-bold text-emerald-600">{t("val_ok", language)}</span>
+                    ) : (
+                        <span className="text-xs font-bold flex items-center gap-3">
+                            <span className="text-red-600 flex items-center gap-1"><AlertCircle size={14}/> {errorCount} {t("val_errors", language)}</span>
+                            <span className="text-amber-600 flex items-center gap-1"><AlertTriangle size={14}/> {warningCount} {t("val_warnings", language)}</span>
+                        </span>
+                    )}
+                </div>
+
+                {routes.map(route => {
+                    const routeIssues = issues.filter(i => i.routeId === route.id);
+                    const generalIssues = routeIssues.filter(i => i.waypointId === undefined);
+
+                    return (
                     <div key={route.id} className="mb-8 bg-white rounded shadow border border-slate-200 overflow-hidden text-slate-900">
                         <div className="p-4 bg-slate-100 border-b border-slate-200 flex justify-between items-center sticky top-0 z-10">
                             <div className="flex items-center gap-3">
@@ -194,6 +273,17 @@ export const RouteManager: React.FC<RouteManagerProps> = ({
                             </div>
                             {route.locked && <span className="bg-amber-100 text-amber-700 text-xs px-2 py-1 rounded font-bold border border-amber-200">LOCKED</span>}
                         </div>
+
+                        {generalIssues.length > 0 && (
+                            <ul className="px-4 py-2 border-b border-slate-200 space-y-1 text-xs">
+                                {generalIssues.map((issue, i) => (
+                                    <li key={i} className={`flex items-center gap-2 ${issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}>
+                                        {issue.severity === 'error' ? <AlertCircle size={14}/> : <AlertTriangle size={14}/>}
+                                        {formatIssue(issue, language)}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
                         
                         <div className="overflow-x-auto">
                             <table className="w-full text-sm text-left">
@@ -213,14 +303,18 @@ export const RouteManager: React.FC<RouteManagerProps> = ({
                                     {route.waypoints.map((wp, idx) => {
                                         // Detect if this waypoint is a battery swap point
                                         const isSwapPoint = stats.swapPoints.some(pt => pt.wpId === wp.id);
+                                        const wpIssues = routeIssues.filter(i => i.waypointId === wp.id);
+                                        const rowTint = wpIssues.some(i => i.severity === 'error') ? 'bg-red-50'
+                                            : isSwapPoint ? 'bg-orange-50'
+                                            : wpIssues.length > 0 ? 'bg-yellow-50' : '';
 
                                         return (
-                                            <tr key={wp.id} className={`border-b hover:bg-blue-50 transition-colors ${isSwapPoint ? 'bg-orange-50' : ''}`}>
+                                            <tr key={wp.id} className={`border-b hover:bg-blue-50 transition-colors ${rowTint}`}>
                                                 <td className="px-4 py-2 text-slate-500 font-mono">
                                                     {idx + 1}
                                                 </td>
                                                 <td className="px-4 py-2 font-bold text-slate-800">
-                                                    {wp.id}
+                                                    <span className="flex items-center gap-1">{wp.id} <IssueIcon list={wpIssues}/></span>
                                                 </td>
                                                 <td className="px-4 py-2 text-slate-500 text-xs">
                                                     {wp.latitude.toFixed(5)}<br/>{wp.longitude.toFixed(5)}
@@ -253,19 +347,24 @@ export const RouteManager: React.FC<RouteManagerProps> = ({
                                                             {t("rth_battery", language)}
                                                         </div>
                                                     ) : (
-                                                        <select 
-                                                            value={wp.actionType1} 
-                                                            disabled={route.locked}
-                                                            onChange={(e) => onUpdateWaypoint(route.id, wp.id, 'actionType1', Number(e.target.value))}
-                                                            className={`${inputClass} w-24`}
-                                                        >
-                                                            <option value="-1">{t("act_none", language)}</option>
-                                                            <option value="0">{t("act_stay", language)}</option>
-                                                            <option value="1">{t("act_photo", language)}</option>
-                                                            <option value="2">{t("act_start_rec", language)}</option>
-                                                            <option value="3">{t("act_stop_rec", language)}</option>
-                                                            <option value="5">{t("act_rotate", language)}</option>
-                                                        </select>
+                                                        <div className="flex items-center gap-1">
+                                                            <select 
+                                                                value={wp.actionType1} 
+                                                                disabled={route.locked}
+                                                                onChange={(e) => onUpdateWaypoint(route.id, wp.id, 'actionType1', Number(e.target.value))}
+                                                                className={`${inputClass} w-24`}
+                                                            >
+                                                                <option value="-1">{t("act_none", language)}</option>
+                                                                {WAYPOINT_ACTION_TYPES.map(d => (
+                                                                    <option key={d.type} value={d.type}>{t(d.labelKey, language)}</option>
+                                                                ))}
+                                                            </select>
+                                                            {getWaypointActions(wp).length > 1 && (
+                                                                <button onClick={() => setEditingWp({routeId: route.id, wp})} className="text-[10px] font-bold text-blue-600 bg-blue-50 border border-blue-200 rounded px-1" title={t("action_sequence", language)}>
+                                                                    +{getWaypointActions(wp).length - 1}
+                                                                </button>
+                                                            )}
+                                                        </div>
                                                     )}
                                                 </td>
                                                 <td className="px-4 py-2 text-right">
@@ -287,7 +386,8 @@ export const RouteManager: React.FC<RouteManagerProps> = ({
                             </table>
                         </div>
                     </div>
-                ))}
+                    );
+                })}
             </div>
 
             {renderModal()}
@@ -1,11 +1,19 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { FlightSettings, Route, RouteStats, DRONE_PRESETS, SpeedUnit } from '../types';
-import { Upload, Download, Settings, Trash2, Undo2, XCircle, Plane, FolderOpen, Save, Trash, Lock, Unlock, Clock, Ruler, Edit2, Camera, Video, Image, Battery } from 'lucide-react';
+import { FlightSettings, Route, RouteStats, RouteHistory, ProjectMetadata, ProjectSummary, DRONE_PRESETS, SpeedUnit, AirspaceLayer, AirspaceConflict } from '../types';
+import { Upload, Download, Settings, Trash2, Undo2, Redo2, XCircle, Plane, FolderOpen, Save, Trash, Lock, Unlock, Clock, Ruler, Edit2, Camera, Video, Image, Battery, Ban, Compass, Mountain, FileUp, FileDown, Send, ShieldAlert, Eye, EyeOff, Layers } from 'lucide-react';
 import { t, Language } from '../translations';
-import { calculatePhotoInterval } from '../services/geometryService';
+import { calculatePhotoInterval, getCorridorLineCount, getCorridorLineSpacing, calculateMappingFootprint } from '../services/geometryService';
+import { HistoryList } from './HistoryList';
+import { PROJECT_FILE_EXTENSION, PROJECT_FILE_FILTER } from '../services/projectService';
+import { defaultBandFor } from '../services/airspaceService';
+import { isDesktop, openFilesDialog, fileNameOf, FileFilter } from '../services/platformService';
 import icon from '../../assets/icon.png';
 
+const IMPORT_FILTERS: FileFilter[] = [{ name: 'Flight plans', extensions: ['csv', 'kml', 'kmz', 'gpx', 'geojson', 'json'] }];
+const DEM_FILTERS: FileFilter[] = [{ name: 'Elevation model', extensions: ['tif', 'tiff', 'asc'] }];
+const AIRSPACE_FILTERS: FileFilter[] = [{ name: 'Zones', extensions: ['geojson', 'json', 'kml', 'kmz'] }];
+
 interface SidebarProps {
   settings: FlightSettings;
   setSettings: React.Dispatch<React.SetStateAction<FlightSettings>>;
@@ -13,24 +21,54 @@ interface SidebarProps {
   stats: RouteStats;
   selectedStatsRouteId: string | 'all';
   setSelectedStatsRouteId: (id: string | 'all') => void;
-  onImport: (files: FileList) => void;
+  onImport: (files: FileList | File[]) => void;
   onExportLitchi: () => void;
   onExportKML: () => void;
+  onExportGPX: () => void;
+  onExportGeoJSON: () => void;
+  onExportQGC: () => void;
   onExportWPML: () => void;
+  onSendToController: () => void;
   onClearRoutes: () => void;
   onApplySettings: () => void;
+  // Terrain
+  elevationGridName: string | null;
+  onLoadDem: (file: File) => void;
+  onClearDem: () => void;
+  // Airspace
+  airspaceLayers: AirspaceLayer[];
+  airspaceConflicts: AirspaceConflict[];
+  onLoadAirspace: (files: File[]) => void;
+  onUpdateAirspaceLayer: (id: string, patch: Partial<AirspaceLayer>) => void;
+  onRemoveAirspaceLayer: (id: string) => void;
   onPromptRename: (id: string, currentName: string) => void;
   onDeleteRoute: (id: string) => void;
   onToggleLock: (id: string) => void;
+  onOptimizeRotation: (id: string) => void;
+  // History
+  history: RouteHistory;
   onUndo: () => void;
+  onRedo: () => void;
+  onJumpHistory: (stack: 'past' | 'future', index: number) => void;
   // Persistence Props
-  savedProjects: string[];
+  savedProjects: ProjectSummary[];
   onSaveProject: (name: string) => void;
   onLoadProject: (name: string) => void;
   onDeleteProject: (name: string) => void;
+  projectMeta: ProjectMetadata;
+  setProjectMeta: React.Dispatch<React.SetStateAction<ProjectMetadata>>;
+  onOpenProjectFile: (file: File) => void;
+  onSaveProjectFile: (name: string, saveAsNew?: boolean) => void;
+  // Desktop
+  projectPath: string | null;
+  recentFiles: string[];
+  onOpenRecent: (filePath: string) => void;
   // Visual Tools
   measureMode: boolean;
   setMeasureMode: (v: boolean) => void;
+  exclusionMode: boolean;
+  setExclusionMode: (v: boolean) => void;
+  onOpenLayerManager: () => void;
   // Units
   speedUnit: SpeedUnit;
   setSpeedUnit: (u: SpeedUnit) => void;
@@ -110,31 +148,63 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onImport,
   onExportLitchi,
   onExportKML,
+  onExportGPX,
+  onExportGeoJSON,
+  onExportQGC,
   onExportWPML,
+  onSendToController,
   onClearRoutes,
   onApplySettings,
+  elevationGridName,
+  onLoadDem,
+  onClearDem,
+  airspaceLayers,
+  airspaceConflicts,
+  onLoadAirspace,
+  onUpdateAirspaceLayer,
+  onRemoveAirspaceLayer,
   onPromptRename,
   onDeleteRoute,
   onToggleLock,
+  onOptimizeRotation,
+  history,
   onUndo,
+  onRedo,
+  onJumpHistory,
   savedProjects,
   onSaveProject,
   onLoadProject,
   onDeleteProject,
+  projectMeta,
+  setProjectMeta,
+  onOpenProjectFile,
+  onSaveProjectFile,
+  projectPath,
+  recentFiles,
+  onOpenRecent,
   measureMode,
   setMeasureMode,
+  exclusionMode,
+  setExclusionMode,
+  onOpenLayerManager,
   speedUnit,
   setSpeedUnit,
   language,
   setLanguage
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const demInputRef = useRef<HTMLInputElement>(null);
+  const airspaceInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
   const [projectName, setProjectName] = useState('');
   const [settingsTab, setSettingsTab] = useState<'general' | 'waypoints'>('general');
 
+  const corridorLineSpacing = getCorridorLineSpacing(settings);
+  const maxLaneSpacing = calculateMappingFootprint(settings).laneSpacing;
+
   // Auto Calculate Photo Interval if Mapping Mode is active
   useEffect(() => {
-    if (settings.flightMode === 'mapping') {
+    if (settings.flightMode === 'mapping' || settings.flightMode === 'corridor') {
         const interval = calculatePhotoInterval(
             settings.altitude,
             settings.speedKmh,
@@ -154,6 +224,37 @@ export const Sidebar: React.FC<SidebarProps> = ({
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const handleDemChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onLoadDem(e.target.files[0]);
+    }
+    if (demInputRef.current) demInputRef.current.value = '';
+  };
+
+  const handleAirspaceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onLoadAirspace(Array.from(e.target.files));
+    }
+    if (airspaceInputRef.current) airspaceInputRef.current.value = '';
+  };
+
+  const handleProjectFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onOpenProjectFile(e.target.files[0]);
+    }
+    if (projectInputRef.current) projectInputRef.current.value = '';
+  };
+
+  // The desktop shell uses native dialogs, the browser the hidden file inputs
+  const pickFiles = async (input: HTMLInputElement | null, filters: FileFilter[], multiple: boolean, onPicked: (files: File[]) => void) => {
+    if (!isDesktop) {
+      input?.click();
+      return;
+    }
+    const files = await openFilesDialog(filters, multiple);
+    if (files.length > 0) onPicked(files);
+  };
+
   const handleSaveClick = () => {
     if (projectName.trim()) {
       onSaveProject(projectName.trim());
@@ -161,6 +262,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  const formatBytes = (bytes: number) => bytes >= 1048576 ? `${(bytes / 1048576).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
   const inputClass = "w-full bg-white text-gray-900 border border-slate-300 rounded text-sm p-2 focus:ring-2 focus:ring-blue-500 outline-none placeholder-gray-400";
   const btnBase = "transform transition active:scale-95 shadow-sm hover:shadow-md rounded font-medium text-sm flex items-center justify-center gap-2 px-3 py-2";
 
@@ -195,6 +298,20 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 <Ruler size={20} className="mb-1"/>
                 {measureMode ? t("ruler_on", language) : t("ruler_tool", language)}
             </button>
+            <button 
+                onClick={() => setExclusionMode(!exclusionMode)}
+                className={`flex-1 flex flex-col items-center justify-center p-2 rounded text-xs font-bold transition transform active:scale-95 ${exclusionMode ? 'bg-red-100 text-red-700 border border-red-300' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'}`}
+            >
+                <Ban size={20} className="mb-1"/>
+                {exclusionMode ? t("exclusion_on", language) : t("exclusion_tool", language)}
+            </button>
+            <button 
+                onClick={onOpenLayerManager}
+                className="flex-1 flex flex-col items-center justify-center p-2 rounded text-xs font-bold transition transform active:scale-95 bg-slate-50 text-slate-600 hover:bg-slate-100"
+            >
+                <Layers size={20} className="mb-1"/>
+                {t("layer_manager", language)}
+            </button>
         </section>
 
         {/* Section: Workspace / Folders */}
@@ -222,13 +339,98 @@ export const Sidebar: React.FC<SidebarProps> = ({
             </button>
           </div>
 
+          <div className="grid grid-cols-2 gap-2">
+            <button 
+              onClick={() => pickFiles(projectInputRef.current, [PROJECT_FILE_FILTER], false, files => onOpenProjectFile(files[0]))}
+              className={`${btnBase} bg-white border border-slate-300 text-slate-700 hover:bg-slate-100`}
+            >
+              <FileUp size={16} /> {t("open_project_file", language)}
+            </button>
+            <input 
+              type="file" 
+              ref={projectInputRef} 
+              className="hidden" 
+              accept={`${PROJECT_FILE_EXTENSION},.json`} 
+              onChange={handleProjectFileChange} 
+            />
+            <button 
+              onClick={() => onSaveProjectFile(projectName.trim())}
+              title={projectPath || undefined}
+              className={`${btnBase} bg-white border border-slate-300 text-slate-700 hover:bg-slate-100`}
+            >
+              <FileDown size={16} /> {t("save_project_file", language)}
+            </button>
+          </div>
+
+          {projectPath && (
+            <div className="flex justify-between items-center text-[10px] text-slate-500 gap-2">
+              <span className="truncate" title={projectPath}>{projectPath}</span>
+              <button onClick={() => onSaveProjectFile(projectName.trim(), true)} className="text-blue-600 hover:underline shrink-0">{t("save_as", language)}</button>
+            </div>
+          )}
+
+          {recentFiles.length > 0 && (
+            <details className="text-xs">
+              <summary className="cursor-pointer text-slate-500 font-semibold select-none">{t("recent_files", language)}</summary>
+              <div className="mt-1 max-h-32 overflow-y-auto space-y-0.5">
+                {recentFiles.map(filePath => (
+                  <button
+                    key={filePath}
+                    onClick={() => onOpenRecent(filePath)}
+                    title={filePath}
+                    className="w-full text-left px-2 py-1 rounded hover:bg-blue-50 text-slate-700 truncate"
+                  >
+                    {fileNameOf(filePath)}
+                  </button>
+                ))}
+              </div>
+            </details>
+          )}
+
+          <details className="text-xs">
+            <summary className="cursor-pointer text-slate-500 font-semibold select-none">
+              {t("project_details", language)}{projectMeta.name && <span className="text-slate-400 font-normal"> &middot; {projectMeta.name}</span>}
+            </summary>
+            <div className="mt-2 space-y-2">
+              <input 
+                type="text" 
+                placeholder={t("project_author", language)}
+                value={projectMeta.author}
+                onChange={(e) => setProjectMeta(prev => ({ ...prev, author: e.target.value }))}
+                className={inputClass}
+              />
+              <input 
+                type="text" 
+                placeholder={t("project_site", language)}
+                value={projectMeta.siteName}
+                onChange={(e) => setProjectMeta(prev => ({ ...prev, siteName: e.target.value }))}
+                className={inputClass}
+              />
+              <textarea 
+                placeholder={t("project_notes", language)}
+                value={projectMeta.notes}
+                onChange={(e) => setProjectMeta(prev => ({ ...prev, notes: e.target.value }))}
+                rows={3}
+                className={inputClass}
+              />
+              <p className="text-[10px] text-slate-400">
+                {t("project_created", language)}: {new Date(projectMeta.createdAt).toLocaleString()} &middot; {t("project_updated", language)}: {new Date(projectMeta.updatedAt).toLocaleString()}
+              </p>
+            </div>
+          </details>
+
           {savedProjects.length > 0 && (
             <div className="space-y-1 max-h-32 overflow-y-auto mt-2">
               <p className="text-xs text-slate-500 font-semibold mb-1">{t("saved_projects", language)}</p>
-              {savedProjects.map(name => (
+              {[...savedProjects].sort((a, b) => b.updatedAt - a.updatedAt).map(({ name, size, updatedAt }) => (
                 <div key={name} className="flex justify-between items-center bg-slate-50 p-2 rounded border border-slate-100 text-xs">
-                  <span className="font-medium text-slate-700 truncate max-w-[150px]">{name}</span>
-                  <div className="flex gap-1">
+                  <div className="min-w-0">
+                    <span className="block font-medium text-slate-700 truncate max-w-[150px]" title={name}>{name}</span>
+                    <span className="block text-[10px] text-slate-400">
+                      {formatBytes(size)}{updatedAt > 0 && <> &middot; {new Date(updatedAt).toLocaleString()}</>}
+                    </span>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
                     <button onClick={() => onLoadProject(name)} className="text-blue-600 hover:underline px-1">{t("load", language)}</button>
                     <button onClick={() => onDeleteProject(name)} className="text-red-500 hover:text-red-700 px-1"><Trash size={14}/></button>
                   </div>
@@ -314,7 +516,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
           <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">{t("route_actions", language)}</h2>
           <div className="grid grid-cols-2 gap-2">
             <button 
-              onClick={() => fileInputRef.current?.click()}
+              onClick={() => pickFiles(fileInputRef.current, IMPORT_FILTERS, true, onImport)}
               className={`${btnBase} bg-white border border-slate-300 text-slate-700 hover:bg-slate-100`}
             >
               <Upload size={16} /> {t("import", language)}
@@ -324,17 +526,30 @@ export const Sidebar: React.FC<SidebarProps> = ({
               ref={fileInputRef} 
               className="hidden" 
               multiple 
-              accept=".csv,.kml" 
+              accept=".csv,.kml,.kmz,.gpx,.geojson,.json" 
               onChange={handleFileChange} 
             />
-             <button 
-               onClick={onUndo}
-               disabled={routes.length === 0}
-               className={`${btnBase} bg-white border border-slate-300 disabled:opacity-50 text-slate-700 hover:bg-slate-100`}
-            >
-              <Undo2 size={16} /> {t("undo_last", language)}
-            </button>
+            <div className="grid grid-cols-2 gap-1">
+              <button 
+                onClick={onUndo}
+                disabled={history.past.length === 0}
+                title={`${t("undo", language)} (Ctrl+Z)`}
+                className={`${btnBase} bg-white border border-slate-300 disabled:opacity-50 text-slate-700 hover:bg-slate-100`}
+              >
+                <Undo2 size={16} /> {t("undo", language)}
+              </button>
+              <button 
+                onClick={onRedo}
+                disabled={history.future.length === 0}
+                title={`${t("redo", language)} (Ctrl+Shift+Z)`}
+                className={`${btnBase} bg-white border border-slate-300 disabled:opacity-50 text-slate-700 hover:bg-slate-100`}
+              >
+                <Redo2 size={16} /> {t("redo", language)}
+              </button>
+            </div>
           </div>
+
+          <HistoryList history={history} onJump={onJumpHistory} language={language} />
           
            <button 
                onClick={onClearRoutes}
@@ -357,6 +572,15 @@ export const Sidebar: React.FC<SidebarProps> = ({
                     {route.locked && <Lock size={12} className="text-amber-500" />}
                   </div>
                   <div className="flex gap-2">
+                     {route.originalPolygon && !route.locked && (
+                        <button
+                           onClick={() => onOptimizeRotation(route.id)}
+                           className="text-slate-400 hover:text-violet-600 active:scale-95 transition-transform"
+                           title={t("optimize_rotation", language)}
+                        >
+                           <Compass size={16} />
+                        </button>
+                     )}
                      <button
                         onClick={() => onPromptRename(route.id, route.name)}
                         className="text-slate-400 hover:text-blue-600 active:scale-95 transition-transform"
@@ -385,6 +609,79 @@ export const Sidebar: React.FC<SidebarProps> = ({
           </section>
         )}
 
+        {/* No-fly zones and boundaries */}
+        <section className="bg-red-50 p-3 rounded-lg border border-red-100 shadow-sm space-y-2">
+            <h2 className="text-xs font-bold text-red-800 uppercase tracking-wider flex items-center gap-1">
+                <ShieldAlert size={14}/> {t("airspace", language)}
+                {airspaceConflicts.length > 0 && (
+                    <span className="ml-auto bg-red-600 text-white text-[10px] px-2 py-0.5 rounded-full normal-case">{airspaceConflicts.length} {t("airspace_conflicts", language)}</span>
+                )}
+            </h2>
+            <button 
+                onClick={() => pickFiles(airspaceInputRef.current, AIRSPACE_FILTERS, true, onLoadAirspace)}
+                className={`${btnBase} w-full bg-white border border-red-300 text-red-800 hover:bg-red-100 text-xs`}
+            >
+                <Upload size={14} /> {t("load_airspace", language)}
+            </button>
+            <input 
+                type="file" 
+                ref={airspaceInputRef} 
+                className="hidden" 
+                accept=".geojson,.json,.kml,.kmz" 
+                multiple
+                onChange={handleAirspaceChange} 
+            />
+            {airspaceLayers.length === 0 && <p className="text-[10px] text-red-700">{t("no_airspace", language)}</p>}
+            {airspaceLayers.map(layer => {
+                const layerConflicts = airspaceConflicts.filter(c => c.layerId === layer.id).length;
+                return (
+                    <div key={layer.id} className={`bg-white rounded border border-red-200 p-2 space-y-2 text-xs ${layer.active ? '' : 'opacity-60'}`}>
+                        <div className="flex items-center gap-2">
+                            <button 
+                                onClick={() => onUpdateAirspaceLayer(layer.id, { active: !layer.active })}
+                                className="text-slate-500 hover:text-slate-800"
+                                title={t("airspace_toggle", language)}
+                            >
+                                {layer.active ? <Eye size={14}/> : <EyeOff size={14}/>}
+                            </button>
+                            <span className="font-bold text-slate-800 truncate flex-1" title={layer.name}>{layer.name} ({layer.zones.length})</span>
+                            {layerConflicts > 0 && <span className="text-red-600 font-bold">{layerConflicts}</span>}
+                            <button onClick={() => onRemoveAirspaceLayer(layer.id)} className="text-red-500 hover:text-red-700" title={t("remove_layer", language)}><XCircle size={14}/></button>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                            <select 
+                                value={layer.kind}
+                                onChange={(e) => {
+                                    const kind = e.target.value as AirspaceLayer['kind'];
+                                    onUpdateAirspaceLayer(layer.id, { kind, ...defaultBandFor(kind) });
+                                }}
+                                className={`${inputClass} p-1 text-xs`}
+                            >
+                                <option value="restricted">{t("airspace_restricted", language)}</option>
+                                <option value="boundary">{t("airspace_boundary", language)}</option>
+                            </select>
+                            <label className="block">
+                                <span className="block text-[10px] font-bold text-slate-500">{t("airspace_floor", language)}</span>
+                                <SidebarNumberInput className={`${inputClass} p-1 text-xs`} value={layer.floor} onChange={v => onUpdateAirspaceLayer(layer.id, { floor: v })} />
+                            </label>
+                            <label className="block">
+                                <span className="block text-[10px] font-bold text-slate-500">{t("airspace_ceiling", language)}</span>
+                                <SidebarNumberInput className={`${inputClass} p-1 text-xs`} value={layer.ceiling} onChange={v => onUpdateAirspaceLayer(layer.id, { ceiling: v })} />
+                            </label>
+                        </div>
+                    </div>
+                );
+            })}
+            <label className="flex items-center gap-2 text-xs font-bold text-red-900">
+                <input 
+                    type="checkbox" 
+                    checked={settings.clipGridToBoundary} 
+                    onChange={(e) => setSettings(p => ({...p, clipGridToBoundary: e.target.checked}))}
+                />
+                {t("clip_to_boundary", language)}
+            </label>
+        </section>
+
         <hr className="border-slate-200" />
 
         {/* Section 2: Configuration */}
@@ -425,19 +722,37 @@ export const Sidebar: React.FC<SidebarProps> = ({
           {settingsTab === 'general' && (
             <div className="space-y-4 animate-in fade-in duration-300">
               {/* Mode Switcher */}
-              <div className="flex p-1 bg-slate-200 rounded text-xs font-bold shadow-inner">
+              <div className="flex flex-wrap gap-y-1 p-1 bg-slate-200 rounded text-xs font-bold shadow-inner">
                 <button 
-                    className={`flex-1 py-1 rounded transition-all ${settings.flightMode === 'standard' ? 'bg-white shadow text-blue-700' : 'text-slate-500 hover:text-slate-700'}`}
+                    className={`flex-1 min-w-[30%] py-1 rounded transition-all ${settings.flightMode === 'standard' ? 'bg-white shadow text-blue-700' : 'text-slate-500 hover:text-slate-700'}`}
                     onClick={() => setSettings(prev => ({...prev, flightMode: 'standard'}))}
                 >
                     {t("mode_standard", language)}
                 </button>
                 <button 
-                    className={`flex-1 py-1 rounded transition-all ${settings.flightMode === 'mapping' ? 'bg-white shadow text-orange-600' : 'text-slate-500 hover:text-slate-700'}`}
+                    className={`flex-1 min-w-[30%] py-1 rounded transition-all ${settings.flightMode === 'mapping' ? 'bg-white shadow text-orange-600' : 'text-slate-500 hover:text-slate-700'}`}
                     onClick={() => setSettings(prev => ({...prev, flightMode: 'mapping'}))}
                 >
                     {t("mode_mapping", language)}
                 </button>
+                <button 
+                    className={`flex-1 min-w-[30%] py-1 rounded transition-all ${settings.flightMode === 'orbit' ? 'bg-white shadow text-violet-600' : 'text-slate-500 hover:text-slate-700'}`}
+                    onClick={() => setSettings(prev => ({...prev, flightMode: 'orbit'}))}
+                >
+                    {t("mode_orbit", language)}
+                </button>
+                <button 
+                    className={`flex-1 min-w-[30%] py-1 rounded transition-all ${settings.flightMode === 'corridor' ? 'bg-white shadow text-sky-600' : 'text-slate-500 hover:text-slate-700'}`}
+                    onClick={() => setSettings(prev => ({...prev, flightMode: 'corridor'}))}
+                >
+                    {t("mode_corridor", language)}
+                </button>
+                <button 
+                    className={`flex-1 min-w-[30%] py-1 rounded transition-all ${settings.flightMode === 'facade' ? 'bg-white shadow text-teal-600' : 'text-slate-500 hover:text-slate-700'}`}
+                    onClick={() => setSettings(prev => ({...prev, flightMode: 'facade'}))}
+                >
+                    {t("mode_facade", language)}
+                </button>
               </div>
 
               <div className="space-y-2">
@@ -455,9 +770,31 @@ export const Sidebar: React.FC<SidebarProps> = ({
                  </div>
               </div>
 
-              {settings.flightMode === 'mapping' && (
+              {(settings.flightMode === 'mapping' || settings.flightMode === 'corridor') && (
                  <div className="bg-orange-50 p-2 rounded border border-orange-200 space-y-2">
+                     {settings.flightMode === 'corridor' && (
+                         <>
+                             <p className="text-[10px] text-sky-700">{t("corridor_hint", language)}</p>
+                             <div className="grid grid-cols-2 gap-2">
+                                 <div>
+                                    <label className="block text-[10px] font-bold text-orange-800 mb-1">{t("corridor_width", language)}</label>
+                                    <SidebarNumberInput className={inputClass} value={settings.corridorWidth} onChange={v => setSettings(p => ({...p, corridorWidth: v}))} min={1} max={2000} />
+                                 </div>
+                                 <div>
+                                    <label className="block text-[10px] font-bold text-orange-800 mb-1">{t("corridor_lines", language)} ({getCorridorLineCount(settings)})</label>
+                                    <SidebarNumberInput className={inputClass} value={settings.corridorLines} onChange={v => setSettings(p => ({...p, corridorLines: Math.round(v)}))} min={0} max={20} />
+                                 </div>
+                             </div>
+                             {corridorLineSpacing > maxLaneSpacing + 0.01 && (
+                                 <p className="text-[10px] font-bold text-red-600">
+                                     {t("corridor_spacing_warning", language).replace('{spacing}', corridorLineSpacing.toFixed(1)).replace('{max}', maxLaneSpacing.toFixed(1))}
+                                 </p>
+                             )}
+                         </>
+                     )}
+
                      {/* GRID PATTERN SELECTION */}
+                     {settings.flightMode === 'mapping' && (
                      <div>
                         <label className="block text-[10px] font-bold text-orange-800 mb-1">{t("grid_pattern", language)}</label>
                         <select 
@@ -469,6 +806,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                             <option value="crosshatch">{t("pattern_cross", language)}</option>
                         </select>
                      </div>
+                     )}
 
                      {/* ASPECT RATIO SELECTION */}
                      <div>
@@ -505,6 +843,86 @@ export const Sidebar: React.FC<SidebarProps> = ({
                  </div>
               )}
 
+              {settings.flightMode === 'facade' && (
+                 <div className="bg-teal-50 p-2 rounded border border-teal-200 space-y-2">
+                     <p className="text-[10px] text-teal-700">{t("facade_hint", language)}</p>
+                     <div className="grid grid-cols-2 gap-2">
+                         <div>
+                            <label className="block text-[10px] font-bold text-teal-800 mb-1">{t("facade_base_alt", language)}</label>
+                            <SidebarNumberInput className={inputClass} value={settings.facadeBaseAltitude} onChange={v => setSettings(p => ({...p, facadeBaseAltitude: v}))} min={1} max={500} />
+                         </div>
+                         <div>
+                            <label className="block text-[10px] font-bold text-teal-800 mb-1">{t("facade_top_alt", language)}</label>
+                            <SidebarNumberInput className={inputClass} value={settings.facadeTopAltitude} onChange={v => setSettings(p => ({...p, facadeTopAltitude: v}))} min={1} max={500} />
+                         </div>
+                         <div>
+                            <label className="block text-[10px] font-bold text-teal-800 mb-1">{t("facade_standoff", language)}</label>
+                            <SidebarNumberInput className={inputClass} value={settings.facadeStandoff} onChange={v => setSettings(p => ({...p, facadeStandoff: v}))} min={1} max={200} />
+                         </div>
+                         <div>
+                            <label className="block text-[10px] font-bold text-teal-800 mb-1">{t("facade_side", language)}</label>
+                            <select 
+                                value={settings.facadeSide}
+                                onChange={(e) => setSettings(prev => ({...prev, facadeSide: e.target.value as any}))}
+                                className={inputClass}
+                            >
+                                <option value="right">{t("facade_right", language)}</option>
+                                <option value="left">{t("facade_left", language)}</option>
+                            </select>
+                         </div>
+                         <div>
+                            <label className="block text-[10px] font-bold text-teal-800 mb-1">{t("overlap_v", language)}</label>
+                            <SidebarNumberInput className={inputClass} value={settings.mappingOverlap} onChange={v => setSettings(p => ({...p, mappingOverlap: v}))} min={0} max={99} />
+                         </div>
+                         <div>
+                            <label className="block text-[10px] font-bold text-teal-800 mb-1">{t("overlap_h", language)}</label>
+                            <SidebarNumberInput className={inputClass} value={settings.mappingOverlapH} onChange={v => setSettings(p => ({...p, mappingOverlapH: v}))} min={0} max={99} />
+                         </div>
+                         <div className="col-span-2 text-[10px] text-teal-700 font-mono">
+                            {(() => {
+                                const { laneSpacing, photoSpacing } = calculateMappingFootprint(settings, settings.facadeStandoff);
+                                return `${t("facade_spacing", language)}: ${laneSpacing.toFixed(1)} m × ${photoSpacing.toFixed(1)} m`;
+                            })()}
+                         </div>
+                     </div>
+                 </div>
+              )}
+
+              {settings.flightMode === 'orbit' && (
+                 <div className="bg-violet-50 p-2 rounded border border-violet-200 space-y-2">
+                     <p className="text-[10px] text-violet-700">{t("orbit_hint", language)}</p>
+                     <div className="grid grid-cols-2 gap-2">
+                         <div>
+                            <label className="block text-[10px] font-bold text-violet-800 mb-1">{t("orbit_points", language)}</label>
+                            <SidebarNumberInput className={inputClass} value={settings.orbitPoints} onChange={v => setSettings(p => ({...p, orbitPoints: Math.round(v)}))} min={3} max={90} />
+                         </div>
+                         <div>
+                            <label className="block text-[10px] font-bold text-violet-800 mb-1">{t("orbit_laps", language)}</label>
+                            <SidebarNumberInput className={inputClass} value={settings.orbitLaps} onChange={v => setSettings(p => ({...p, orbitLaps: Math.round(v)}))} min={1} max={20} />
+                         </div>
+                         <div>
+                            <label className="block text-[10px] font-bold text-violet-800 mb-1">{t("orbit_climb", language)}</label>
+                            <SidebarNumberInput className={inputClass} value={settings.orbitClimbPerLap} onChange={v => setSettings(p => ({...p, orbitClimbPerLap: v}))} min={-100} max={100} />
+                         </div>
+                         <div>
+                            <label className="block text-[10px] font-bold text-violet-800 mb-1">{t("orbit_poi_alt", language)}</label>
+                            <SidebarNumberInput className={inputClass} value={settings.orbitPoiAltitude} onChange={v => setSettings(p => ({...p, orbitPoiAltitude: v}))} min={-100} max={500} />
+                         </div>
+                         <div className="col-span-2">
+                            <label className="block text-[10px] font-bold text-violet-800 mb-1">{t("orbit_direction", language)}</label>
+                            <select 
+                                value={settings.orbitClockwise ? 'cw' : 'ccw'}
+                                onChange={(e) => setSettings(prev => ({...prev, orbitClockwise: e.target.value === 'cw'}))}
+                                className={inputClass}
+                            >
+                                <option value="cw">{t("orbit_cw", language)}</option>
+                                <option value="ccw">{t("orbit_ccw", language)}</option>
+                            </select>
+                         </div>
+                     </div>
+                 </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-xs font-bold text-slate-700 mb-1">{language === 'pt' ? 'Velocidade Global' : 'Global Speed'} ({speedUnit === 'kmh' ? 'km/h' : 'm/s'})</label>
@@ -608,6 +1026,43 @@ export const Sidebar: React.FC<SidebarProps> = ({
                    </select>
               </div>
 
+              {/* Terrain Follow Group */}
+              <div className="bg-emerald-50 p-2 rounded border border-emerald-200 space-y-2">
+                  <h3 className="text-[10px] font-bold text-emerald-800 uppercase flex items-center gap-1"><Mountain size={12}/> {t("terrain_follow", language)}</h3>
+                  <div className="flex gap-2 items-center">
+                      <button 
+                          onClick={() => pickFiles(demInputRef.current, DEM_FILTERS, false, files => onLoadDem(files[0]))}
+                          className={`${btnBase} flex-1 bg-white border border-emerald-300 text-emerald-800 hover:bg-emerald-100 text-xs`}
+                      >
+                          <Upload size={14} /> {t("load_dem", language)}
+                      </button>
+                      <input 
+                          type="file" 
+                          ref={demInputRef} 
+                          className="hidden" 
+                          accept=".tif,.tiff,.asc" 
+                          onChange={handleDemChange} 
+                      />
+                      {elevationGridName && (
+                          <button onClick={onClearDem} className="text-red-500 hover:text-red-700" title={t("unload_dem", language)}><XCircle size={16}/></button>
+                      )}
+                  </div>
+                  <p className="text-[10px] text-emerald-700 truncate" title={elevationGridName || ''}>{elevationGridName || t("no_dem", language)}</p>
+                  <label className="flex items-center gap-2 text-xs font-bold text-emerald-900">
+                      <input 
+                          type="checkbox" 
+                          checked={settings.terrainFollow} 
+                          disabled={!elevationGridName}
+                          onChange={(e) => setSettings(p => ({...p, terrainFollow: e.target.checked}))}
+                      />
+                      {t("terrain_follow_enable", language)}
+                  </label>
+                  <div>
+                      <label className="block text-[10px] font-bold text-emerald-700 mb-1">{t("terrain_tolerance", language)}</label>
+                      <SidebarNumberInput className={inputClass} value={settings.terrainTolerance} onChange={v => setSettings(p => ({...p, terrainTolerance: v}))} min={0.5} max={50} />
+                  </div>
+              </div>
+
               <div>
                  <label className="block text-xs font-bold text-slate-700 mb-1">{t("heading_mode", language)}</label>
                  <select 
@@ -651,7 +1106,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
                      <option value="1">{t("act_photo", language)}</option>
                      <option value="2">{t("act_start_rec", language)}</option>
                      <option value="3">{t("act_stop_rec", language)}</option>
-                     <option value="5">{t("act_rotate", language)}</option>
+                     <option value="4">{t("act_rotate", language)}</option>
+                     <option value="5">{t("act_tilt", language)}</option>
                    </select>
                 </div>
 
@@ -685,6 +1141,27 @@ export const Sidebar: React.FC<SidebarProps> = ({
               className={`${btnBase} w-full bg-emerald-600 disabled:bg-slate-300 hover:bg-emerald-700 text-white py-3 shadow-lg hover:shadow-emerald-500/20 transition-all font-bold`}
             >
               <Download size={20} /> {t("export_kml", language)}
+            </button>
+             <button 
+              onClick={onExportGPX}
+               disabled={routes.length === 0}
+              className={`${btnBase} w-full bg-teal-600 disabled:bg-slate-300 hover:bg-teal-700 text-white py-3 shadow-lg hover:shadow-teal-500/20 transition-all font-bold`}
+            >
+              <Download size={20} /> {t("export_gpx", language)}
+            </button>
+             <button 
+              onClick={onExportGeoJSON}
+               disabled={routes.length === 0}
+              className={`${btnBase} w-full bg-cyan-700 disabled:bg-slate-300 hover:bg-cyan-800 text-white py-3 shadow-lg hover:shadow-cyan-500/20 transition-all font-bold`}
+            >
+              <Download size={20} /> {t("export_geojson", language)}
+            </button>
+             <button 
+              onClick={onExportQGC}
+               disabled={routes.length === 0}
+              className={`${btnBase} w-full bg-indigo-600 disabled:bg-slate-300 hover:bg-indigo-700 text-white py-3 shadow-lg hover:shadow-indigo-500/20 transition-all font-bold`}
+            >
+              <Download size={20} /> {t("export_qgc", language)}
             </button>
              <button 
               onClick={onExportWPML}
@@ -693,6 +1170,15 @@ export const Sidebar: React.FC<SidebarProps> = ({
             >
               <Plane size={20} /> {t("export_dji_fly", language)}
             </button>
+            {isDesktop && (
+              <button 
+                onClick={onSendToController}
+                disabled={routes.length === 0}
+                className={`${btnBase} w-full bg-white border border-orange-300 disabled:opacity-50 text-orange-600 hover:bg-orange-50 py-2 font-bold`}
+              >
+                <Send size={18} /> {t("send_to_controller", language)}
+              </button>
+            )}
             <button 
               onClick={onExportWPML}
                disabled={routes.length === 0}
@@ -0,0 +1,24 @@
+import { Waypoint, WaypointAction } from '../types';
+
+export const MAX_WAYPOINT_ACTIONS = 15; // Litchi action slots
+
+type ActionSlots = Pick<Waypoint, 'actionType1' | 'actionParam1' | 'actionType2' | 'actionParam2' | 'extraActions'>;
+
+/** Ordered action sequence of a waypoint, read from slots 1 and 2 followed by extraActions. */
+export const getWaypointActions = (wp: Waypoint): WaypointAction[] => [
+    { type: wp.actionType1, param: wp.actionParam1 },
+    { type: wp.actionType2, param: wp.actionParam2 },
+    ...(wp.extraActions || [])
+].filter(a => a.type !== -1);
+
+/** Packs an action sequence back into the waypoint slots. */
+export const toActionSlots = (actions: WaypointAction[]): ActionSlots => {
+    const list = actions.filter(a => a.type !== -1).slice(0, MAX_WAYPOINT_ACTIONS);
+    return {
+        actionType1: list[0]?.type ?? -1,
+        actionParam1: list[0]?.param ?? 0,
+        actionType2: list[1]?.type ?? -1,
+        actionParam2: list[1]?.param ?? 0,
+        extraActions: list.length > 2 ? list.slice(2) : undefined
+    };
+};
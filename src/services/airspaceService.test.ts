@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { AirspaceLayer, Route, Waypoint } from '../types';
+import { clipToBoundary, findAirspaceConflicts } from './airspaceService';
+
+const square = (west: number, south: number, east: number, north: number) =>
+    [{ lat: south, lng: west }, { lat: south, lng: east }, { lat: north, lng: east }, { lat: north, lng: west }];
+
+// Two boundary zones sharing the edge at lng -48.599
+const boundary: AirspaceLayer = {
+    id: 'fence',
+    name: 'Fence',
+    kind: 'boundary',
+    floor: 0,
+    ceiling: 120,
+    active: true,
+    zones: [
+        { name: 'West', rings: [square(-48.601, -26.301, -48.599, -26.299)] },
+        { name: 'East', rings: [square(-48.599, -26.301, -48.597, -26.299)] }
+    ]
+};
+
+const waypoint = (id: number, lat: number, lng: number): Waypoint => ({
+    id, latitude: lat, longitude: lng, altitude: 50, heading: 0, curveSize: 0, rotationDir: 0, gimbalMode: 0, gimbalPitch: -90,
+    actionType1: -1, actionParam1: 0, actionType2: -1, actionParam2: 0, altitudeMode: 0, speed: 5,
+    poiLat: 0, poiLon: 0, poiAlt: 0, poiAltMode: 0, photoTimeInterval: -1, photoDistInterval: -1
+});
+
+const route = (points: [number, number][]): Route => ({
+    id: 'route',
+    name: 'Route',
+    color: '#ff5722',
+    locked: false,
+    homePoint: { lat: points[0][0], lng: points[0][1] },
+    waypoints: points.map(([lat, lng], idx) => waypoint(idx + 1, lat, lng))
+});
+
+describe('findAirspaceConflicts', () => {
+    it('lets a leg cross between adjacent zones of one boundary layer', () => {
+        const crossing = route([[-26.300, -48.6005], [-26.300, -48.5975]]);
+        expect(findAirspaceConflicts([crossing], [boundary])).toEqual([]);
+    });
+
+    it('reports a leg that leaves the boundary between two inside waypoints', () => {
+        const notched: AirspaceLayer = { ...boundary, zones: [{ name: 'U', rings: [[
+            { lat: -26.301, lng: -48.601 }, { lat: -26.301, lng: -48.597 }, { lat: -26.299, lng: -48.597 },
+            { lat: -26.299, lng: -48.598 }, { lat: -26.3005, lng: -48.598 }, { lat: -26.3005, lng: -48.600 },
+            { lat: -26.299, lng: -48.600 }, { lat: -26.299, lng: -48.601 }
+        ]] }] };
+        const across = route([[-26.2995, -48.6005], [-26.2995, -48.5975]]);
+        const conflicts = findAirspaceConflicts([across], [notched]);
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0].leg?.fromWaypointId).toBe(1);
+    });
+});
+
+describe('clipToBoundary', () => {
+    it('clips to the union of the boundary zones', () => {
+        const area = square(-48.602, -26.300, -48.596, -26.298);
+        const clipped = clipToBoundary(area, [boundary]);
+        expect(clipped).not.toBeNull();
+        const lngs = clipped!.map(p => p.lng);
+        expect(Math.min(...lngs)).toBeCloseTo(-48.601, 6);
+        expect(Math.max(...lngs)).toBeCloseTo(-48.597, 6);
+    });
+});
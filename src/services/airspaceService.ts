@@ -0,0 +1,208 @@
+import JSZip from 'jszip';
+import * as turf from '@turf/turf';
+import type { Feature, Polygon, MultiPolygon } from 'geojson';
+import { Route, AirspaceLayer, AirspaceZone, AirspaceConflict, ValidationIssue } from '../types';
+import { generateId } from './fileService';
+
+type LatLng = { lat: number; lng: number };
+
+// Default altitude band per kind: restricted zones from the ground up, boundaries as a plain fence
+const DEFAULT_BANDS: Record<AirspaceLayer['kind'], { floor: number; ceiling: number }> = {
+  restricted: { floor: 0, ceiling: 500 },
+  boundary: { floor: 0, ceiling: 120 }
+};
+
+const toRing = (coords: number[][]): LatLng[] => coords.map(([lng, lat]) => ({ lat, lng }));
+
+const closeRing = (ring: LatLng[]) => {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first.lat === last.lat && first.lng === last.lng ? ring : [...ring, first];
+};
+
+const zoneToPolygon = (zone: AirspaceZone) =>
+  turf.polygon(zone.rings.map(ring => closeRing(ring).map(p => [p.lng, p.lat])));
+
+// Zones of one kind as a single area, so shared edges between neighbouring zones disappear
+const unionOf = (zones: AirspaceZone[]): Feature<Polygon | MultiPolygon> | null =>
+  zones.length === 1
+    ? zoneToPolygon(zones[0])
+    : turf.union(turf.featureCollection(zones.map(zoneToPolygon)));
+
+const parseGeoJSONZones = (text: string, fileName: string): AirspaceZone[] => {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error(`${fileName} is not valid JSON.`);
+  }
+
+  const features: any[] = json.type === 'FeatureCollection' ? json.features
+    : json.type === 'Feature' ? [json]
+    : [{ type: 'Feature', properties: {}, geometry: json }];
+
+  const zones: AirspaceZone[] = [];
+  features.forEach((feature, idx) => {
+    const geometry = feature?.geometry;
+    if (!geometry) return;
+    const name = String(feature.properties?.name ?? feature.properties?.NAME ?? `Zone ${idx + 1}`);
+    const polygons: number[][][][] = geometry.type === 'Polygon' ? [geometry.coordinates]
+      : geometry.type === 'MultiPolygon' ? geometry.coordinates
+      : [];
+    polygons.forEach(rings => zones.push({ name, rings: rings.map(toRing) }));
+  });
+  return zones;
+};
+
+const parseKmlCoordinates = (el: Element | undefined): LatLng[] => {
+  const text = el?.getElementsByTagName('coordinates')[0]?.textContent || '';
+  return text.trim().split(/\s+/).filter(Boolean)
+    .map(part => part.split(',').map(Number))
+    .filter(([lng, lat]) => !isNaN(lng) && !isNaN(lat))
+    .map(([lng, lat]) => ({ lat, lng }));
+};
+
+const parseKmlZones = (text: string, fileName: string): AirspaceZone[] => {
+  const kml = new DOMParser().parseFromString(text, 'text/xml');
+  if (kml.getElementsByTagName('parsererror').length > 0) throw new Error(`${fileName} is not a valid KML document.`);
+
+  const zones: AirspaceZone[] = [];
+  Array.from(kml.getElementsByTagName('Placemark')).forEach((placemark, idx) => {
+    const nameEl = Array.from(placemark.children).find(el => el.localName === 'name');
+    const name = nameEl?.textContent?.trim() || `Zone ${idx + 1}`;
+    Array.from(placemark.getElementsByTagName('Polygon')).forEach(polygon => {
+      const outer = parseKmlCoordinates(polygon.getElementsByTagName('outerBoundaryIs')[0]);
+      const holes = Array.from(polygon.getElementsByTagName('innerBoundaryIs')).map(parseKmlCoordinates);
+      zones.push({ name, rings: [outer, ...holes] });
+    });
+  });
+  return zones;
+};
+
+/** Reads a GeoJSON, KML or KMZ file into a restricted layer; the user can turn it into a boundary. */
+export const parseAirspaceFile = async (file: File): Promise<AirspaceLayer> => {
+  const lower = file.name.toLowerCase();
+  let zones: AirspaceZone[];
+  if (lower.endsWith('.kmz')) {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const kmlEntry = Object.values(zip.files).find(f => !f.dir && f.name.toLowerCase().endsWith('.kml'));
+    if (!kmlEntry) throw new Error(`${file.name} contains no KML document.`);
+    zones = parseKmlZones(await kmlEntry.async('text'), file.name);
+  } else if (lower.endsWith('.kml')) {
+    zones = parseKmlZones(await file.text(), file.name);
+  } else {
+    zones = parseGeoJSONZones(await file.text(), file.name);
+  }
+
+  zones = zones.filter(zone => zone.rings[0] && zone.rings[0].length >= 3);
+  if (zones.length === 0) throw new Error(`${file.name} contains no polygons.`);
+
+  return {
+    id: generateId(),
+    name: file.name.replace(/\.(geojson|json|kml|kmz)$/i, ''),
+    kind: 'restricted',
+    ...DEFAULT_BANDS.restricted,
+    active: true,
+    zones
+  };
+};
+
+export const defaultBandFor = (kind: AirspaceLayer['kind']) => DEFAULT_BANDS[kind];
+
+/**
+ * Finds waypoints inside restricted zones or outside boundaries, and legs (home point
+ * included) that cut into a restricted zone or out of a boundary between two valid
+ * waypoints. The zones of a boundary layer count as one area. A leg is checked against the altitude range it spans, not the height at
+ * the crossing, so climbing legs err on the side of a conflict.
+ */
+export const findAirspaceConflicts = (routes: Route[], layers: AirspaceLayer[]): AirspaceConflict[] => {
+  const conflicts: AirspaceConflict[] = [];
+
+  layers.filter(layer => layer.active).forEach(layer => {
+    const polygons = layer.zones.map(zone => ({ zone, polygon: zoneToPolygon(zone) }));
+    const boundaryArea = layer.kind === 'boundary' ? unionOf(layer.zones) : null;
+    const inBand = (low: number, high: number) => high >= layer.floor && low <= layer.ceiling;
+
+    routes.forEach(route => {
+      if (route.waypoints.length === 0) return;
+      const add = (zoneName: string, extra: Partial<AirspaceConflict>) =>
+        conflicts.push({ routeId: route.id, layerId: layer.id, zoneName, kind: layer.kind, ...extra });
+
+      // The home point flies at ground level
+      const path = [
+        { lat: route.homePoint.lat, lng: route.homePoint.lng, alt: 0, id: undefined as number | undefined },
+        ...route.waypoints.map(wp => ({ lat: wp.latitude, lng: wp.longitude, alt: wp.altitude, id: wp.id as number | undefined }))
+      ];
+      const containing = path.map(p => polygons.filter(({ polygon }) => turf.booleanPointInPolygon([p.lng, p.lat], polygon)));
+
+      const badPoint = path.map((p, i) => layer.kind === 'restricted'
+        ? containing[i].length > 0 && inBand(p.alt, p.alt)
+        : containing[i].length === 0 || !inBand(p.alt, p.alt));
+
+      path.forEach((p, i) => {
+        if (badPoint[i]) add(containing[i][0]?.zone.name || layer.name, { waypointId: p.id });
+      });
+
+      for (let i = 0; i < path.length - 1; i++) {
+        if (badPoint[i] || badPoint[i + 1]) continue;
+        const from = path[i];
+        const to = path[i + 1];
+        if (from.lat === to.lat && from.lng === to.lng) continue;
+        const line = turf.lineString([[from.lng, from.lat], [to.lng, to.lat]]);
+        const low = Math.min(from.alt, to.alt);
+        const high = Math.max(from.alt, to.alt);
+
+        const hit = layer.kind === 'restricted'
+          ? polygons.find(({ polygon }) => inBand(low, high) && turf.booleanIntersects(line, polygon))
+          : (boundaryArea && turf.booleanWithin(line, boundaryArea) ? undefined : containing[i][0]);
+
+        if (hit) add(hit.zone.name, { leg: { from: { lat: from.lat, lng: from.lng }, to: { lat: to.lat, lng: to.lng }, fromWaypointId: from.id } });
+      }
+    });
+  });
+
+  return conflicts;
+};
+
+/**
+ * Airspace conflicts as validation errors, so the manager and the export checks list them.
+ * Leg conflicts sit on the waypoint the leg starts from; home point ones on the route.
+ */
+export const airspaceIssues = (conflicts: AirspaceConflict[]): ValidationIssue[] =>
+  conflicts.map(c => {
+    const waypointId = c.leg ? c.leg.fromWaypointId : c.waypointId;
+    const base = c.leg
+      ? (c.kind === 'restricted' ? 'val_airspace_leg_enters' : 'val_airspace_leg_leaves')
+      : (c.kind === 'restricted' ? 'val_airspace_inside' : 'val_airspace_outside');
+    return {
+      severity: 'error',
+      routeId: c.routeId,
+      waypointId,
+      messageKey: waypointId === undefined ? `${base}_home` : base,
+      values: { zone: c.zoneName }
+    };
+  });
+
+/**
+ * Cuts a mapping polygon to the active boundary layers. Returns the largest remaining
+ * piece, the polygon itself when there is no boundary, or null when nothing is left.
+ */
+export const clipToBoundary = (ring: LatLng[], layers: AirspaceLayer[]): LatLng[] | null => {
+  const boundaries = layers.filter(layer => layer.active && layer.kind === 'boundary').flatMap(layer => layer.zones);
+  if (boundaries.length === 0 || ring.length < 3) return ring;
+
+  const area = turf.polygon([closeRing(ring).map(p => [p.lng, p.lat])]);
+  const allowed = unionOf(boundaries);
+  if (!allowed) return null;
+
+  const clipped = turf.intersect(turf.featureCollection<Polygon | MultiPolygon>([area, allowed]));
+  if (!clipped) return null;
+
+  const pieces: number[][][][] = clipped.geometry.type === 'Polygon' ? [clipped.geometry.coordinates] : clipped.geometry.coordinates;
+  const largest = pieces
+    .map(coords => ({ coords, area: turf.area(turf.polygon(coords)) }))
+    .sort((a, b) => b.area - a.area)[0];
+
+  // Holes left by the boundary are dropped; exclusion zones cover keep-out areas inside a grid
+  return toRing(largest.coords[0]).slice(0, -1);
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { DEFAULT_SETTINGS, FlightSettings, Route, Waypoint } from '../types';
+import { buildDJIWPMLKmz, parseGeoJSON } from './fileService';
+import { calculateDistance, generateGridWaypoints, rankGridRotations } from './geometryService';
+import { PLATFORM_LIMITS } from './validationService';
+
+const settings: FlightSettings = { ...DEFAULT_SETTINGS, altitudeMode: 1, altitude: 80 };
+
+const waypoint = (id: number, lat: number, lng: number, altitude: number): Waypoint => ({
+    id, latitude: lat, longitude: lng, altitude, heading: 0, curveSize: 0, rotationDir: 0, gimbalMode: 0, gimbalPitch: -90,
+    actionType1: -1, actionParam1: 0, actionType2: -1, actionParam2: 0, altitudeMode: 1, speed: 5,
+    poiLat: 0, poiLon: 0, poiAlt: 0, poiAltMode: 0, photoTimeInterval: -1, photoDistInterval: -1
+});
+
+const route: Route = {
+    id: 'route',
+    name: 'Route',
+    color: '#ff5722',
+    locked: false,
+    homePoint: { lat: -26.3, lng: -48.6 },
+    waypoints: [waypoint(1, -26.3, -48.6, 612.5), waypoint(2, -26.301, -48.6, 640), waypoint(3, -26.301, -48.599, 655.25)]
+};
+
+const readKmz = async (kmz: Blob) => {
+    const zip = await JSZip.loadAsync(await kmz.arrayBuffer());
+    return {
+        template: await zip.file('wpmz/template.kml')!.async('string'),
+        waylines: await zip.file('wpmz/waylines.wpml')!.async('string')
+    };
+};
+
+const values = (xml: string, tag: string) => [...xml.matchAll(new RegExp(`<wpml:${tag}>([^<]*)</wpml:${tag}>`, 'g'))].map(m => m[1]);
+
+describe('buildDJIWPMLKmz', () => {
+    it('writes absolute heights against the same vertical reference in template and waylines', async () => {
+        const { template, waylines } = await readKmz(await buildDJIWPMLKmz(route, settings));
+
+        expect(values(template, 'heightMode')).toEqual(['WGS84']);
+        expect(values(waylines, 'executeHeightMode')).toEqual(['WGS84']);
+
+        const heights = route.waypoints.map(wp => String(wp.altitude));
+        expect(values(template, 'ellipsoidHeight')).toEqual(heights);
+        expect(values(template, 'height')).toEqual(heights);
+        expect(values(waylines, 'executeHeight')).toEqual(heights);
+    });
+
+    it('keeps relative missions relative to the takeoff point', async () => {
+        const { template, waylines } = await readKmz(await buildDJIWPMLKmz(route, { ...settings, altitudeMode: 0 }));
+        expect(values(template, 'heightMode')).toEqual(['relativeToStartPoint']);
+        expect(values(waylines, 'executeHeightMode')).toEqual(['relativeToStartPoint']);
+    });
+
+    it('uses the WPML finish action names', async () => {
+        const { template, waylines } = await readKmz(await buildDJIWPMLKmz(route, { ...settings, finishAction: 3 }));
+        expect(values(template, 'finishAction')).toEqual(['gotoFirstWaypoint']);
+        expect(values(waylines, 'finishAction')).toEqual(['gotoFirstWaypoint']);
+    });
+
+    it('writes no grid leg shorter than the minimum waypoint spacing', async () => {
+        const polygon = [{ lat: -26.300, lng: -48.600 }, { lat: -26.300, lng: -48.597 }, { lat: -26.302, lng: -48.597 }, { lat: -26.302, lng: -48.600 }];
+        const grid = generateGridWaypoints(polygon, { ...settings, altitudeMode: 0, altitude: 60 }, 0);
+        const gridRoute = { ...route, waypoints: grid.map((c, idx) => ({ ...waypoint(idx + 1, c.lat, c.lng, 60), isEffort: c.isEffort })) };
+        const { template, waylines } = await readKmz(await buildDJIWPMLKmz(gridRoute, settings));
+
+        const points = [...waylines.matchAll(/<coordinates>([^<]*)<\/coordinates>/g)].map(m => m[1].split(',').map(Number));
+        expect(points.length).toBeLessThan(grid.length);
+        expect(values(template, 'index')).toHaveLength(points.length);
+        points.slice(1).forEach(([lng, lat], idx) => {
+            expect(calculateDistance(points[idx][1], points[idx][0], lat, lng)).toBeGreaterThanOrEqual(PLATFORM_LIMITS.dji_wpml.minSpacing);
+        });
+    });
+});
+
+describe('parseGeoJSON', () => {
+    // Long thin strip running north-east, so the best lanes are far from the default rotation
+    const strip = [[-48.600, -26.300], [-48.590, -26.290], [-48.5895, -26.2905], [-48.5995, -26.3005], [-48.600, -26.300]];
+    const geojson = (properties: object) => new File([JSON.stringify({
+        type: 'FeatureCollection',
+        features: [{ type: 'Feature', properties, geometry: { type: 'Polygon', coordinates: [strip] } }]
+    })], 'area.geojson');
+
+    it('flies imported areas at the rotation the optimizer ranks first', async () => {
+        const [route] = await parseGeoJSON(geojson({}), settings);
+        const best = rankGridRotations(route, settings)[0];
+        expect(best.angle).not.toBe(0);
+        expect(route.gridRotation).toBe(best.angle);
+    });
+
+    it('keeps a rotation stated in the file', async () => {
+        const [route] = await parseGeoJSON(geojson({ gridRotation: 30 }), settings);
+        expect(route.gridRotation).toBe(30);
+    });
+});
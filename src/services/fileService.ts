@@ -1,12 +1,15 @@
 
 import Papa from 'papaparse';
 import JSZip from 'jszip';
-import FileSaver from 'file-saver';
-import { Route, Waypoint, FlightSettings } from '../types';
+import { Route, Waypoint, WaypointAction, FlightSettings, WAYPOINT_ACTION_TYPES, DRONE_PRESETS } from '../types';
+import { getWaypointActions, toActionSlots } from './actionService';
+import { saveFile, saveFiles, ExportFile } from './platformService';
+import { generateGridWaypoints, calculateMappingFootprint, calculateGSD, dropCoincidentWaypoints, rankGridRotations } from './geometryService';
 import * as turf from '@turf/turf';
 
-// Handle FileSaver import for both ESM and UMD environments
-const saveAs = (FileSaver as any).saveAs || FileSaver;
+// Grid lanes run along the rotated local x axis, i.e. at compass bearing 90 - gridRotation.
+// The mapping is its own inverse, so it also turns a WPML/QGC bearing back into a gridRotation.
+const gridRotationToBearing = (rotation: number) => (((90 - rotation) % 360) + 360) % 360;
 
 // Helper for unique ID
 export const generateId = () => {
@@ -16,11 +19,13 @@ export const generateId = () => {
     return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 };
 
-// Litchi CSV Columns Header
+// Litchi CSV Columns Header (Mission Hub emits 15 action type/param pairs)
+const LITCHI_ACTION_SLOTS = 15;
 const LITCHI_HEADER = [
   "latitude", "longitude", "altitude(m)", "heading(deg)", "curvesize(m)",
-  "rotationdir", "gimbalmode", "gimbalpitchangle", "actiontype1", "actionparam1",
-  "actiontype2", "actionparam2", "altitudemode", "speed(m/s)", "poi_latitude",
+  "rotationdir", "gimbalmode", "gimbalpitchangle",
+  ...Array.from({ length: LITCHI_ACTION_SLOTS }, (_, i) => [`actiontype${i + 1}`, `actionparam${i + 1}`]).flat(),
+  "altitudemode", "speed(m/s)", "poi_latitude",
   "poi_longitude", "poi_altitude(m)", "poi_altitudemode",
   "photo_timeinterval", "photo_distinterval"
 ];
@@ -34,6 +39,11 @@ const findColumn = (row: any, candidates: string[]) => {
     return null;
 };
 
+const toNumber = (value: any, fallback: number): number => {
+    const n = parseFloat(value);
+    return isNaN(n) ? fallback : n;
+};
+
 export const parseCSV = (file: File): Promise<Waypoint[]> => {
   return new Promise((resolve, reject) => {
     Papa.parse(file, {
@@ -41,7 +51,7 @@ export const parseCSV = (file: File): Promise<Waypoint[]> => {
       skipEmptyLines: true,
       complete: (results: any) => {
         const waypoints: Waypoint[] = [];
-        results.data.forEach((row: any, index: number) => {
+        results.data.forEach((row: any) => {
           // Robust Column Matching
           const lat = findColumn(row, ['latitude', 'lat']);
           const lon = findColumn(row, ['longitude', 'lon', 'lng']);
@@ -49,32 +59,33 @@ export const parseCSV = (file: File): Promise<Waypoint[]> => {
           const gimbal = findColumn(row, ['gimbalpitchangle', 'gimbalpitch', 'gimbal']);
           const speed = findColumn(row, ['speed(m/s)', 'speed']);
           const heading = findColumn(row, ['heading(deg)', 'heading']);
-          const action1 = findColumn(row, ['actiontype1', 'action1']);
           const interval = findColumn(row, ['photo_timeinterval', 'interval']);
 
+          const actions = Array.from({ length: LITCHI_ACTION_SLOTS }, (_, i) => ({
+            type: toNumber(findColumn(row, [`actiontype${i + 1}`, ...(i === 0 ? ['action1'] : [])]), -1),
+            param: toNumber(findColumn(row, [`actionparam${i + 1}`]), 0)
+          }));
+
           if (lat && lon) {
             waypoints.push({
-              id: index + 1,
+              id: waypoints.length + 1,
               latitude: parseFloat(lat),
               longitude: parseFloat(lon),
-              altitude: alt ? parseFloat(alt) : 30,
-              heading: heading ? parseFloat(heading) : 0,
-              curveSize: 0,
-              rotationDir: 0,
-              gimbalMode: 0,
-              gimbalPitch: gimbal ? parseFloat(gimbal) : 0,
-              actionType1: action1 ? parseInt(action1) : -1,
-              actionParam1: 0,
-              actionType2: -1,
-              actionParam2: 0,
-              altitudeMode: 1,
-              speed: speed ? parseFloat(speed) : 0,
-              poiLat: 0,
-              poiLon: 0,
-              poiAlt: 0,
-              poiAltMode: 0,
-              photoTimeInterval: interval ? parseFloat(interval) : -1,
-              photoDistInterval: -1
+              altitude: toNumber(alt, 30),
+              heading: toNumber(heading, 0),
+              curveSize: toNumber(findColumn(row, ['curvesize(m)', 'curvesize']), 0),
+              rotationDir: toNumber(findColumn(row, ['rotationdir']), 0),
+              gimbalMode: toNumber(findColumn(row, ['gimbalmode']), 0),
+              gimbalPitch: toNumber(gimbal, 0),
+              ...toActionSlots(actions),
+              altitudeMode: toNumber(findColumn(row, ['altitudemode']), 1),
+              speed: toNumber(speed, 0),
+              poiLat: toNumber(findColumn(row, ['poi_latitude', 'poilatitude']), 0),
+              poiLon: toNumber(findColumn(row, ['poi_longitude', 'poilongitude']), 0),
+              poiAlt: toNumber(findColumn(row, ['poi_altitude(m)', 'poi_altitude']), 0),
+              poiAltMode: toNumber(findColumn(row, ['poi_altitudemode']), 0),
+              photoTimeInterval: toNumber(interval, -1),
+              photoDistInterval: toNumber(findColumn(row, ['photo_distinterval']), -1)
             });
           }
         });
@@ -85,124 +96,604 @@ export const parseCSV = (file: File): Promise<Waypoint[]> => {
   });
 };
 
-export const parseKML = async (file: File): Promise<Route[]> => {
-  try {
-      const text = await file.text();
-      const parser = new DOMParser();
-      const kml = parser.parseFromString(text, 'text/xml');
-      const routes: Route[] = [];
+// KML altitudeMode -> Waypoint.altitudeMode; clampToGround (the KML default) ignores the coordinate altitude
+const readKmlAltitudeMode = (geometry: Element): { mode: number; useAltitude: boolean } => {
+  const el = Array.from(geometry.getElementsByTagName('altitudeMode'))[0] || Array.from(geometry.getElementsByTagName('gx:altitudeMode'))[0];
+  const value = el?.textContent?.trim() || 'clampToGround';
+  if (value === 'absolute') return { mode: 1, useAltitude: true };
+  if (value === 'clampToGround' || value === 'clampToSeaFloor') return { mode: 0, useAltitude: false };
+  return { mode: 0, useAltitude: true }; // relativeToGround, relativeToSeaFloor
+};
 
-      const placemarks = kml.getElementsByTagName('Placemark');
-      const pointWaypoints: Waypoint[] = [];
+const parseKmlCoordinates = (el: Element | undefined, useAltitude: boolean): number[][] =>
+  (el?.getElementsByTagName('coordinates')[0]?.textContent?.trim() || '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(part => {
+      const [lng, lat, alt] = part.split(',').map(Number);
+      return useAltitude && alt !== undefined && !isNaN(alt) ? [lng, lat, alt] : [lng, lat];
+    })
+    .filter(c => !isNaN(c[0]) && !isNaN(c[1]));
 
-      for (let i = 0; i < placemarks.length; i++) {
-        const pm = placemarks[i];
-        const name = pm.getElementsByTagName('name')[0]?.textContent || `Route ${i}`;
-        
-        // Check for Point
-        const point = pm.getElementsByTagName('Point')[0];
-        if (point) {
-          const coords = point.getElementsByTagName('coordinates')[0]?.textContent?.trim();
-          if (coords) {
-            const [lon, lat] = coords.split(',').map(Number);
-            if(!isNaN(lon) && !isNaN(lat)) {
-                pointWaypoints.push({
-                  id: pointWaypoints.length + 1,
-                  latitude: lat,
-                  longitude: lon,
-                  altitude: 30,
-                  heading: 0,
-                  curveSize: 0,
-                  rotationDir: 0,
-                  gimbalMode: 0,
-                  gimbalPitch: 0,
-                  actionType1: -1,
-                  actionParam1: 0,
-                  actionType2: -1,
-                  actionParam2: 0,
-                  altitudeMode: 1,
-                  speed: 0,
-                  poiLat: 0,
-                  poiLon: 0,
-                  poiAlt: 0,
-                  poiAltMode: 0,
-                  photoTimeInterval: -1,
-                  photoDistInterval: -1
-                });
-            }
-          }
-        }
+// Point, LineString and Polygon geometries of a placemark, flattening (nested) MultiGeometry
+const collectKmlGeometries = (parent: Element): Element[] =>
+  Array.from(parent.children).flatMap(el => {
+    if (el.localName === 'MultiGeometry') return collectKmlGeometries(el);
+    return ['Point', 'LineString', 'LinearRing', 'Polygon'].includes(el.localName) ? [el] : [];
+  });
 
-        // Check for LineString
-        const lineString = pm.getElementsByTagName('LineString')[0];
-        if (lineString) {
-          const coordStr = lineString.getElementsByTagName('coordinates')[0]?.textContent?.trim();
-          if (coordStr) {
-            const parts = coordStr.split(/\s+/);
-            const lineWps: Waypoint[] = parts.map((part, idx) => {
-              const [lon, lat] = part.split(',').map(Number);
-              return {
-                 id: idx + 1,
-                 latitude: lat,
-                 longitude: lon,
-                 altitude: 30,
-                 heading: 0,
-                 curveSize: 0,
-                 rotationDir: 0,
-                 gimbalMode: 0,
-                 gimbalPitch: 0,
-                 actionType1: -1,
-                 actionParam1: 0,
-                 actionType2: -1,
-                 actionParam2: 0,
-                 altitudeMode: 1,
-                 speed: 0,
-                 poiLat: 0,
-                 poiLon: 0,
-                 poiAlt: 0,
-                 poiAltMode: 0,
-                 photoTimeInterval: -1,
-                 photoDistInterval: -1
-              };
-            }).filter(w => !isNaN(w.latitude) && !isNaN(w.longitude));
-
-            if(lineWps.length > 0) {
-                routes.push({
-                    id: generateId(),
-                    name: name,
-                    waypoints: lineWps,
-                    color: '#3388ff',
-                    locked: false,
-                    homePoint: { lat: lineWps[0].latitude, lng: lineWps[0].longitude }
-                });
-            }
-          }
+const parseKMLText = (text: string, fileName: string, settings: FlightSettings): Route[] => {
+  const kml = new DOMParser().parseFromString(text, 'text/xml');
+  if (kml.getElementsByTagName('parsererror').length > 0 || !kml.documentElement || kml.documentElement.localName !== 'kml') {
+    throw new Error(`${fileName} is not a valid KML document.`);
+  }
+
+  const routes: Route[] = [];
+  const baseName = fileName.replace(/\.km[lz]$/i, '');
+
+  // Walks Document/Folder nesting so names keep their folder path; Points are grouped per container
+  const walk = (container: Element, path: string[]) => {
+    const points: { coords: number[]; mode: number }[] = [];
+
+    Array.from(container.children).forEach(child => {
+      if (child.localName === 'Folder' || child.localName === 'Document') {
+        const folderName = childText(child, 'name');
+        walk(child, folderName ? [...path, folderName] : path);
+        return;
+      }
+      if (child.localName !== 'Placemark') return;
+
+      const name = [...path, childText(child, 'name') || `Route ${routes.length + 1}`].join(' / ');
+      const geometries = collectKmlGeometries(child);
+      geometries.forEach((geometry, g) => {
+        const partName = geometries.length > 1 ? `${name} (${g + 1})` : name;
+        const { mode, useAltitude } = readKmlAltitudeMode(geometry);
+
+        if (geometry.localName === 'Point') {
+          const [coords] = parseKmlCoordinates(geometry, useAltitude);
+          if (coords) points.push({ coords, mode });
+        } else if (geometry.localName === 'Polygon') {
+          const outer = geometry.getElementsByTagName('outerBoundaryIs')[0];
+          const inner = Array.from(geometry.getElementsByTagName('innerBoundaryIs'));
+          const rings = [outer, ...inner].map(b => parseKmlCoordinates(b, false)).filter(r => r.length > 2);
+          const route = rings.length > 0 && outer ? buildSurveyRoute(partName, rings, 0, settings) : null;
+          if (route) routes.push(route);
+        } else {
+          const route = buildLineRoute(partName, parseKmlCoordinates(geometry, useAltitude), '#3388ff', mode);
+          if (route) routes.push(route);
         }
+      });
+    });
+
+    if (points.length > 0) {
+      const route = buildLineRoute(path.length > 0 ? path.join(' / ') : baseName, points.map(p => p.coords), '#ff3388', 1, points.map(p => ({ altitudeMode: p.mode })));
+      if (route) routes.push(route);
+    }
+  };
+
+  walk(kml.documentElement, []);
+  return routes;
+};
+
+export const parseKML = async (file: File, settings: FlightSettings): Promise<Route[]> =>
+  parseKMLText(await file.text(), file.name, settings);
+
+// --- GPX ---
+
+const GPX_EXT_NS = 'urn:dji-fly-planner:gpx:1';
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const childText = (parent: Element, tag: string): string | undefined =>
+  Array.from(parent.children).find(el => el.localName === tag)?.textContent?.trim() || undefined;
+
+const gpxExtension = (pt: Element, tag: string): number | undefined => {
+  const value = parseFloat(pt.getElementsByTagNameNS(GPX_EXT_NS, tag)[0]?.textContent ?? '');
+  return isNaN(value) ? undefined : value;
+};
+
+// GPX elevations are above sea level, so points import in absolute altitude mode
+const gpxPointToWaypoint = (pt: Element, id: number): Waypoint => {
+  const ele = parseFloat(childText(pt, 'ele') ?? '');
+  return {
+    id,
+    latitude: parseFloat(pt.getAttribute('lat') ?? ''),
+    longitude: parseFloat(pt.getAttribute('lon') ?? ''),
+    altitude: isNaN(ele) ? 30 : ele,
+    heading: gpxExtension(pt, 'heading') ?? 0,
+    curveSize: 0,
+    rotationDir: 0,
+    gimbalMode: 0,
+    gimbalPitch: gpxExtension(pt, 'gimbalPitch') ?? 0,
+    actionType1: -1,
+    actionParam1: 0,
+    actionType2: -1,
+    actionParam2: 0,
+    altitudeMode: gpxExtension(pt, 'altitudeMode') ?? 1,
+    speed: gpxExtension(pt, 'speed') ?? 0,
+    poiLat: 0,
+    poiLon: 0,
+    poiAlt: 0,
+    poiAltMode: 0,
+    photoTimeInterval: -1,
+    photoDistInterval: -1
+  };
+};
+
+const gpxRoute = (name: string, points: Element[], color: string): Route | null => {
+  const waypoints = points
+    .map((pt, idx) => gpxPointToWaypoint(pt, idx + 1))
+    .filter(wp => !isNaN(wp.latitude) && !isNaN(wp.longitude));
+  if (waypoints.length === 0) return null;
+
+  return {
+    id: generateId(),
+    name,
+    waypoints,
+    color,
+    locked: false,
+    homePoint: { lat: waypoints[0].latitude - 0.0001, lng: waypoints[0].longitude }
+  };
+};
+
+/** Tracks (all segments joined) and routes become routes; standalone wpt become one point route. */
+export const parseGPX = async (file: File): Promise<Route[]> => {
+  const gpx = new DOMParser().parseFromString(await file.text(), 'text/xml');
+  if (gpx.getElementsByTagName('parsererror').length > 0) throw new Error(`${file.name} is not valid XML.`);
+
+  const baseName = file.name.replace(/\.gpx$/i, '');
+  const routes: (Route | null)[] = [];
+
+  Array.from(gpx.getElementsByTagName('trk')).forEach((trk, i) => {
+    routes.push(gpxRoute(childText(trk, 'name') || `${baseName} Track ${i + 1}`, Array.from(trk.getElementsByTagName('trkpt')), '#3388ff'));
+  });
+  Array.from(gpx.getElementsByTagName('rte')).forEach((rte, i) => {
+    routes.push(gpxRoute(childText(rte, 'name') || `${baseName} Route ${i + 1}`, Array.from(rte.getElementsByTagName('rtept')), '#3388ff'));
+  });
+  routes.push(gpxRoute(`${baseName} Waypoints`, Array.from(gpx.getElementsByTagName('wpt')), '#ff3388'));
+
+  return routes.filter((r): r is Route => r !== null);
+};
+
+// --- GeoJSON ---
+
+type LatLng = { lat: number; lng: number };
+
+const toLatLngRing = (ring: number[][]): LatLng[] => ring.map(c => ({ lat: c[1], lng: c[0] }));
+
+const toClosedRing = (ring: LatLng[]): number[][] => {
+  const coords = ring.map(p => [p.lng, p.lat]);
+  const first = coords[0];
+  const last = coords[coords.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) coords.push([...first]);
+  return coords;
+};
+
+/**
+ * Mapping area from a [lng, lat] polygon: the outer ring becomes originalPolygon, inner rings keep-out
+ * zones, and the lanes are generated with the current settings at the given rotation. Without one, the
+ * rotation the optimizer ranks first is used.
+ */
+const buildSurveyRoute = (name: string, rings: number[][][], rotation: number | undefined, settings: FlightSettings): Route | null => {
+  const originalPolygon = toLatLngRing(rings[0]);
+  const exclusionZones = rings.slice(1).map(toLatLngRing);
+  const grid = generateGridWaypoints(originalPolygon, settings, rotation ?? 0, exclusionZones);
+  if (grid.length === 0) return null;
+
+  const waypoints: Waypoint[] = grid.map((c, idx) => ({
+    id: idx + 1,
+    latitude: c.lat,
+    longitude: c.lng,
+    altitude: settings.altitude,
+    heading: 0,
+    curveSize: settings.curveSize,
+    rotationDir: 0,
+    gimbalMode: settings.gimbalMode,
+    gimbalPitch: -90,
+    actionType1: 1,
+    actionParam1: 0,
+    actionType2: -1,
+    actionParam2: 0,
+    altitudeMode: settings.altitudeMode,
+    speed: parseFloat((settings.speedKmh / 3.6).toFixed(2)),
+    poiLat: 0,
+    poiLon: 0,
+    poiAlt: 0,
+    poiAltMode: 0,
+    photoTimeInterval: -1,
+    photoDistInterval: -1,
+    isEffort: c.isEffort
+  }));
+
+  const route: Route = {
+    id: generateId(),
+    name,
+    waypoints,
+    color: '#ff5722',
+    locked: false,
+    homePoint: { lat: waypoints[0].latitude - 0.0001, lng: waypoints[0].longitude },
+    gridRotation: rotation ?? 0,
+    originalPolygon,
+    exclusionZones: exclusionZones.length > 0 ? exclusionZones : undefined
+  };
+  if (rotation !== undefined) return route;
+
+  const best = rankGridRotations(route, settings)[0];
+  return best && best.angle !== 0 ? buildSurveyRoute(name, rings, best.angle, settings) : route;
+};
+
+// Route from [lng, lat, alt?] positions; a missing altitude falls back to 30 m
+const buildLineRoute = (name: string, coords: number[][], color: string, altitudeMode = 1, waypointProps: any[] = []): Route | null => {
+  const waypoints: Waypoint[] = coords.map((c, idx) => ({
+    id: idx + 1,
+    latitude: c[1],
+    longitude: c[0],
+    altitude: c[2] === undefined || isNaN(c[2]) ? 30 : c[2],
+    heading: 0,
+    curveSize: 0,
+    rotationDir: 0,
+    gimbalMode: 0,
+    gimbalPitch: 0,
+    actionType1: -1,
+    actionParam1: 0,
+    actionType2: -1,
+    actionParam2: 0,
+    altitudeMode,
+    speed: 0,
+    poiLat: 0,
+    poiLon: 0,
+    poiAlt: 0,
+    poiAltMode: 0,
+    photoTimeInterval: -1,
+    photoDistInterval: -1,
+    // Per-waypoint overrides, e.g. the full model carried by exportGeoJSON Points
+    ...(waypointProps[idx] || {}),
+  })).filter(wp => !isNaN(wp.latitude) && !isNaN(wp.longitude));
+  if (waypoints.length === 0) return null;
+
+  return {
+    id: generateId(),
+    name,
+    waypoints,
+    color,
+    locked: false,
+    homePoint: { lat: waypoints[0].latitude - 0.0001, lng: waypoints[0].longitude }
+  };
+};
+
+const WAYPOINT_META_PROPS = ['role', 'routeId', 'routeName'];
+
+/**
+ * LineStrings (and Points with role "route") become routes, Polygons/MultiPolygons mapping areas
+ * (rotation from the feature's gridRotation property, else the optimizer's best) and loose Points a point route. Features written by
+ * exportGeoJSON are matched by routeId so waypoints, home point and survey area round-trip.
+ */
+export const parseGeoJSON = async (file: File, settings: FlightSettings): Promise<Route[]> => {
+  const data = JSON.parse(await file.text());
+  const features: any[] = data.type === 'FeatureCollection' ? data.features : data.type === 'Feature' ? [data] : [{ type: 'Feature', properties: {}, geometry: data }];
+  const baseName = file.name.replace(/\.(geo)?json$/i, '');
+  const routes: Route[] = [];
+
+  const byRole = (role: string) => features.filter(f => f.properties?.role === role);
+  const exportedWaypoints = (routeId: string) => byRole('waypoint')
+    .filter(f => f.properties.routeId === routeId)
+    .sort((a, b) => a.properties.id - b.properties.id)
+    .map(f => Object.fromEntries(Object.entries(f.properties).filter(([k]) => !WAYPOINT_META_PROPS.includes(k))));
+
+  const loosePoints: number[][] = [];
+
+  features.forEach((feature, i) => {
+    const geometry = feature?.geometry;
+    if (!geometry) return;
+    const props = feature.properties || {};
+    const name = props.name || props.routeName || `${baseName} ${i + 1}`;
+    const gridRotation = typeof props.gridRotation === 'number' ? props.gridRotation : undefined;
+
+    const addPathRoute = (coords: number[][]) => {
+      const route = buildLineRoute(name, coords, props.color || '#3388ff', 1, props.routeId ? exportedWaypoints(props.routeId) : []);
+      if (!route) return;
+      const home = byRole('home').find(f => props.routeId && f.properties.routeId === props.routeId);
+      const area = byRole('survey_area').find(f => props.routeId && f.properties.routeId === props.routeId);
+      if (home) route.homePoint = { lat: home.geometry.coordinates[1], lng: home.geometry.coordinates[0] };
+      if (area) {
+        route.originalPolygon = toLatLngRing(area.geometry.coordinates[0]);
+        route.gridRotation = area.properties.gridRotation ?? 0;
+        const holes = area.geometry.coordinates.slice(1).map(toLatLngRing);
+        if (holes.length > 0) route.exclusionZones = holes;
       }
+      routes.push(route);
+    };
 
-      if (pointWaypoints.length > 0) {
-        routes.push({
-          id: generateId(),
-          name: file.name.replace('.kml', ''),
-          waypoints: pointWaypoints,
-          color: '#ff3388',
-          locked: false,
-          homePoint: { lat: pointWaypoints[0].latitude, lng: pointWaypoints[0].longitude }
+    switch (geometry.type) {
+      case 'LineString':
+        addPathRoute(geometry.coordinates);
+        break;
+      case 'MultiLineString':
+        geometry.coordinates.forEach((line: number[][], j: number) => {
+          const route = buildLineRoute(`${name} (${j + 1})`, line, '#3388ff');
+          if (route) routes.push(route);
         });
+        break;
+      case 'Polygon':
+        // Survey areas of exported routes are restored together with their LineString
+        if (props.role === 'survey_area') break;
+        {
+          const route = buildSurveyRoute(name, geometry.coordinates, gridRotation, settings);
+          if (route) routes.push(route);
+        }
+        break;
+      case 'MultiPolygon':
+        geometry.coordinates.forEach((rings: number[][][], j: number) => {
+          const route = buildSurveyRoute(`${name} (${j + 1})`, rings, gridRotation, settings);
+          if (route) routes.push(route);
+        });
+        break;
+      case 'Point':
+        // Single-waypoint routes are exported as a Point path
+        if (props.role === 'route') addPathRoute([geometry.coordinates]);
+        else if (!props.role) loosePoints.push(geometry.coordinates);
+        break;
+    }
+  });
+
+  if (loosePoints.length > 0) {
+    const route = buildLineRoute(`${baseName} Points`, loosePoints, '#ff3388');
+    if (route) routes.push(route);
+  }
+
+  return routes;
+};
+
+/** FeatureCollection with, per route, the path (a Point for a single waypoint), every waypoint as a Point, the home point and the survey area. */
+export const exportGeoJSON = (routes: Route[]) => {
+  const features: any[] = [];
+
+  routes.forEach(route => {
+    const meta = { routeId: route.id, routeName: route.name };
+    const pathProps = { ...meta, role: 'route', name: route.name, color: route.color };
+    const path = route.waypoints.map(wp => [wp.longitude, wp.latitude, wp.altitude]);
+    if (path.length > 1) features.push(turf.lineString(path, pathProps));
+    else if (path.length === 1) features.push(turf.point(path[0], pathProps));
+    route.waypoints.forEach(wp => {
+      features.push(turf.point([wp.longitude, wp.latitude, wp.altitude], { ...meta, role: 'waypoint', ...wp }));
+    });
+    features.push(turf.point([route.homePoint.lng, route.homePoint.lat], { ...meta, role: 'home' }));
+    if (route.originalPolygon && route.originalPolygon.length > 2) {
+      features.push(turf.polygon(
+        [route.originalPolygon, ...(route.exclusionZones || [])].map(toClosedRing),
+        { ...meta, role: 'survey_area', gridRotation: route.gridRotation ?? 0 }
+      ));
+    }
+  });
+
+  const content = JSON.stringify(turf.featureCollection(features), null, 2);
+  return saveFile(new Blob([content], { type: 'application/geo+json' }), 'flight_plans.geojson', [{ name: 'GeoJSON', extensions: ['geojson'] }]);
+};
+
+// --- DJI WPML (KMZ) import ---
+
+const wpmlChildren = (parent: Element, tag: string): Element[] =>
+  Array.from(parent.getElementsByTagName(`wpml:${tag}`));
+
+const wpmlText = (parent: Element, tag: string): string | undefined =>
+  wpmlChildren(parent, tag)[0]?.textContent?.trim() || undefined;
+
+const wpmlNumber = (parent: Element, tag: string): number | undefined => {
+  const value = parseFloat(wpmlText(parent, tag) ?? '');
+  return isNaN(value) ? undefined : value;
+};
+
+const parseFinishAction = (action?: string): number => {
+  switch (action) {
+    case 'goHome': return 1;
+    case 'autoLand': return 2;
+    case 'gotoFirstWaypoint':
+    case 'goFirstWaypoint': return 3;
+    default: return 0;
+  }
+};
+
+const parseMissionConfig = (doc: Document): Route['missionConfig'] => {
+  const config = doc.getElementsByTagName('wpml:missionConfig')[0];
+  if (!config) return undefined;
+
+  const exitOnRCLost = wpmlText(config, 'exitOnRCLost');
+  const lostAction = wpmlText(config, 'executeRCLostAction');
+  return {
+    finishAction: parseFinishAction(wpmlText(config, 'finishAction')),
+    signalLostAction: exitOnRCLost === 'goContinue' ? 'continue' : (lostAction === 'hover' ? 'hover' : 'rth')
+  };
+};
+
+/**
+ * Appends a WPML action group to the action list of the waypoints it covers.
+ * gimbalEvenlyRotate sets the pitch, interval triggers become photo time/distance intervals.
+ */
+const applyActionGroup = (group: Element, waypoints: Waypoint[], fallbackIndex: number) => {
+  const start = wpmlNumber(group, 'actionGroupStartIndex') ?? fallbackIndex;
+  const end = wpmlNumber(group, 'actionGroupEndIndex') ?? start;
+  const triggerType = wpmlText(group, 'actionTriggerType');
+  const triggerParam = wpmlNumber(group, 'actionTriggerParam') ?? -1;
+
+  for (let i = start; i <= end && i < waypoints.length; i++) {
+    const wp = waypoints[i];
+    if (!wp) continue;
+    const slots: WaypointAction[] = [...getWaypointActions(wp)];
+
+    wpmlChildren(group, 'action').forEach(action => {
+      const func = wpmlText(action, 'actionActuatorFunc');
+      if (func === 'gimbalEvenlyRotate') {
+        const pitch = wpmlNumber(action, 'gimbalPitchRotateAngle');
+        if (pitch !== undefined) wp.gimbalPitch = pitch;
+      } else if (func === 'gimbalRotate') {
+        slots.push({ type: 5, param: wpmlNumber(action, 'gimbalPitchRotateAngle') ?? 0 });
+      } else if (func === 'takePhoto' && triggerType === 'multipleTiming') {
+        wp.photoTimeInterval = triggerParam;
+      } else if (func === 'takePhoto' && triggerType === 'multipleDistance') {
+        wp.photoDistInterval = triggerParam;
+      } else if (func === 'takePhoto') {
+        slots.push({ type: 1, param: 0 });
+      } else if (func === 'startRecord') {
+        slots.push({ type: 2, param: 0 });
+      } else if (func === 'stopRecord') {
+        slots.push({ type: 3, param: 0 });
+      } else if (func === 'hover') {
+        slots.push({ type: 0, param: Math.round((wpmlNumber(action, 'hoverTime') ?? 0) * 1000) });
+      } else if (func === 'rotateYaw') {
+        const yaw = wpmlNumber(action, 'aircraftHeading') ?? 0;
+        slots.push({ type: 4, param: (yaw + 360) % 360 });
+      } else if (func === 'zoom') {
+        slots.push({ type: 6, param: wpmlNumber(action, 'focalLength') ?? 24 });
+      } else if (func === 'focus') {
+        slots.push({ type: 7, param: 0 });
       }
+    });
+
+    Object.assign(wp, toActionSlots(slots));
+  }
+};
+
+const parseWpmlPlacemarks = (folder: Element, altitudeMode: number): Waypoint[] => {
+  const autoSpeed = wpmlNumber(folder, 'autoFlightSpeed') ?? 5;
+  const placemarks = Array.from(folder.getElementsByTagName('Placemark'))
+    .filter(pm => pm.getElementsByTagName('Point').length > 0);
+
+  const waypoints: Waypoint[] = placemarks.map((pm, idx) => {
+    const [lon, lat] = (pm.getElementsByTagName('coordinates')[0]?.textContent?.trim() || '').split(',').map(Number);
+    const headingMode = wpmlText(pm, 'waypointHeadingMode');
+    const headingAngle = wpmlNumber(pm, 'waypointHeadingAngle') ?? 0;
+    const [poiLat, poiLon, poiAlt] = headingMode === 'towardPOI'
+      ? (wpmlText(pm, 'waypointPoiPoint') || '0,0,0').split(',').map(Number)
+      : [0, 0, 0];
+
+    return {
+      id: idx + 1,
+      latitude: lat,
+      longitude: lon,
+      altitude: wpmlNumber(pm, 'executeHeight') ?? wpmlNumber(pm, 'height') ?? wpmlNumber(pm, 'ellipsoidHeight') ?? 30,
+      heading: headingMode === 'smoothTransition' || headingMode === 'fixed' || headingMode === 'manually'
+        ? (headingAngle + 360) % 360
+        : 0,
+      curveSize: wpmlNumber(pm, 'waypointTurnDampingDist') ?? 0,
+      rotationDir: 0,
+      gimbalMode: poiLat || poiLon ? 1 : 0,
+      gimbalPitch: wpmlNumber(pm, 'gimbalPitchAngle') ?? 0,
+      actionType1: -1,
+      actionParam1: 0,
+      actionType2: -1,
+      actionParam2: 0,
+      altitudeMode,
+      speed: wpmlNumber(pm, 'waypointSpeed') ?? autoSpeed,
+      poiLat: poiLat || 0,
+      poiLon: poiLon || 0,
+      poiAlt: poiAlt || 0,
+      poiAltMode: altitudeMode,
+      photoTimeInterval: -1,
+      photoDistInterval: -1,
+      isEffort: true
+    };
+  });
+
+  // Action groups may sit inside a placemark or directly in the folder (range triggers)
+  placemarks.forEach((pm, idx) => {
+    wpmlChildren(pm, 'actionGroup').forEach(group => applyActionGroup(group, waypoints, idx));
+  });
+  Array.from(folder.children)
+    .filter(el => el.tagName === 'wpml:actionGroup')
+    .forEach(group => applyActionGroup(group, waypoints, 0));
 
-      return routes;
-  } catch (e) {
-      console.error("KML Parse Error", e);
-      return [];
+  return waypoints.filter(wp => !isNaN(wp.latitude) && !isNaN(wp.longitude));
+};
+
+const parseTemplatePolygon = (folder: Element): { lat: number; lng: number }[] | undefined => {
+  const polygon = folder.getElementsByTagName('Polygon')[0];
+  const coordStr = polygon?.getElementsByTagName('coordinates')[0]?.textContent?.trim();
+  if (!coordStr) return undefined;
+
+  const ring = coordStr.split(/\s+/).map(part => {
+    const [lng, lat] = part.split(',').map(Number);
+    return { lat, lng };
+  }).filter(p => !isNaN(p.lat) && !isNaN(p.lng));
+  return ring.length > 2 ? ring : undefined;
+};
+
+/**
+ * Reads a DJI WPML mission (wpmz/template.kml and wpmz/waylines.wpml), as written by
+ * exportDJIWPML, DJI Pilot 2 or DJI Fly. The flown path comes from waylines.wpml, falling
+ * back to the template placemarks; mapping templates also restore originalPolygon.
+ */
+const parseWPMZ = async (zip: JSZip, fileName: string): Promise<Route[]> => {
+  const findEntry = (suffix: string) => Object.values(zip.files).find(f => !f.dir && f.name.toLowerCase().endsWith(suffix));
+  const templateEntry = findEntry('template.kml');
+  const waylinesEntry = findEntry('waylines.wpml');
+
+  const parser = new DOMParser();
+  const template = templateEntry ? parser.parseFromString(await templateEntry.async('text'), 'text/xml') : null;
+  const waylines = waylinesEntry ? parser.parseFromString(await waylinesEntry.async('text'), 'text/xml') : null;
+
+  const templateFolder = template?.getElementsByTagName('Folder')[0];
+  const templateType = templateFolder ? wpmlText(templateFolder, 'templateType') : undefined;
+  const heightMode = (templateFolder && wpmlText(templateFolder, 'heightMode')) || 'relativeToStartPoint';
+
+  const originalPolygon = templateFolder && templateType?.startsWith('mapping') ? parseTemplatePolygon(templateFolder) : undefined;
+  const direction = templateFolder ? wpmlNumber(templateFolder, 'direction') : undefined;
+  const missionConfig = parseMissionConfig(template ?? waylines!);
+
+  let folders: { folder: Element; altitudeMode: number }[] = Array.from(waylines?.getElementsByTagName('Folder') ?? []).map(folder => ({
+    folder,
+    altitudeMode: wpmlText(folder, 'executeHeightMode') === 'relativeToStartPoint' ? 0 : 1
+  }));
+  if (!folders.some(f => f.folder.getElementsByTagName('Placemark').length > 0) && templateFolder) {
+    folders = [{ folder: templateFolder, altitudeMode: heightMode === 'EGM96' || heightMode === 'WGS84' ? 1 : 0 }];
   }
+
+  const baseName = fileName.replace(/\.kmz$/i, '');
+  const routes: Route[] = [];
+  folders.forEach(({ folder, altitudeMode }) => {
+    const waypoints = parseWpmlPlacemarks(folder, altitudeMode);
+    if (waypoints.length === 0) return;
+
+    routes.push({
+      id: generateId(),
+      name: folders.length > 1 ? `${baseName} (${routes.length + 1})` : baseName,
+      waypoints,
+      color: '#3388ff',
+      locked: false,
+      homePoint: { lat: waypoints[0].latitude - 0.0001, lng: waypoints[0].longitude },
+      originalPolygon,
+      gridRotation: originalPolygon ? gridRotationToBearing(direction ?? 0) : undefined,
+      missionConfig
+    });
+  });
+
+  return routes;
+};
+
+/** A .kmz is either a DJI WPML mission or a zipped KML (doc.kml, or the first .kml at any depth). */
+export const parseKMZ = async (file: File, settings: FlightSettings): Promise<Route[]> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const entries = Object.values(zip.files).filter(f => !f.dir);
+  if (entries.some(f => /(^|\/)(template\.kml|waylines\.wpml)$/i.test(f.name))) return parseWPMZ(zip, file.name);
+
+  const kmlEntry = entries.find(f => /(^|\/)doc\.kml$/i.test(f.name)) || entries.find(f => f.name.toLowerCase().endsWith('.kml'));
+  if (!kmlEntry) throw new Error(`${file.name} contains no KML document.`);
+  return parseKMLText(await kmlEntry.async('text'), file.name, settings);
+};
+
+const litchiActionColumns = (wp: Waypoint) => {
+  const actions = getWaypointActions(wp).filter(a => WAYPOINT_ACTION_TYPES.find(d => d.type === a.type)?.litchi);
+  return Object.fromEntries(Array.from({ length: LITCHI_ACTION_SLOTS }, (_, i) => [
+    [`actiontype${i + 1}`, actions[i] ? actions[i].type : -1],
+    [`actionparam${i + 1}`, actions[i] ? actions[i].param : 0]
+  ]).flat());
 };
 
 export const exportLitchiZip = (routes: Route[]) => {
-  const zip = new JSZip();
+  const files: ExportFile[] = [];
 
   routes.forEach(route => {
-    const csvData = route.waypoints.map(wp => ({
+    const csvData = dropCoincidentWaypoints(route.waypoints).map(wp => ({
       "latitude": wp.latitude,
       "longitude": wp.longitude,
       "altitude(m)": wp.altitude,
@@ -211,10 +702,7 @@ export const exportLitchiZip = (routes: Route[]) => {
       "rotationdir": wp.rotationDir,
       "gimbalmode": wp.gimbalMode,
       "gimbalpitchangle": wp.gimbalPitch,
-      "actiontype1": wp.actionType1,
-      "actionparam1": wp.actionParam1,
-      "actiontype2": wp.actionType2,
-      "actionparam2": wp.actionParam2,
+      ...litchiActionColumns(wp),
       "altitudemode": wp.altitudeMode,
       "speed(m/s)": wp.speed,
       "poi_latitude": wp.poiLat,
@@ -230,17 +718,15 @@ export const exportLitchiZip = (routes: Route[]) => {
       data: csvData
     });
 
-    zip.file(`${route.name}_litchi.csv`, csvString);
+    files.push({ name: `${route.name}_litchi.csv`, data: csvString });
   });
 
-  zip.generateAsync({ type: "blob" }).then(content => {
-    saveAs(content, "litchi_flight_plans.zip");
-  });
+  return saveFiles(files, "litchi_flight_plans.zip");
 };
 
 
 export const exportDJIKMLZip = (routes: Route[]) => {
-  const zip = new JSZip();
+  const files: ExportFile[] = [];
 
   routes.forEach(route => {
     let kmlContent = `<?xml version="1.0" encoding="UTF-8"?>
@@ -282,19 +768,48 @@ export const exportDJIKMLZip = (routes: Route[]) => {
     kmlContent += `  </Document>
 </kml>`;
 
-    zip.file(`${route.name}_dji.kml`, kmlContent);
+    files.push({ name: `${route.name}_dji.kml`, data: kmlContent });
   });
 
-  zip.generateAsync({ type: "blob" }).then(content => {
-    saveAs(content, "dji_flight_plans_kml.zip");
-  });
+  return saveFiles(files, "dji_flight_plans_kml.zip");
+};
+
+/** All routes in one GPX file, each as an rte; heading, gimbal and speed go in extensions. */
+export const exportGPX = (routes: Route[]) => {
+  const rtes = routes.map(route => {
+    const points = route.waypoints.map((wp, idx) => `
+    <rtept lat="${wp.latitude}" lon="${wp.longitude}">
+      <ele>${wp.altitude}</ele>
+      <name>${idx + 1}</name>
+      <extensions>
+        <dfp:heading>${wp.heading}</dfp:heading>
+        <dfp:gimbalPitch>${wp.gimbalPitch}</dfp:gimbalPitch>
+        <dfp:speed>${wp.speed}</dfp:speed>
+        <dfp:altitudeMode>${wp.altitudeMode}</dfp:altitudeMode>
+      </extensions>
+    </rtept>`).join('');
+
+    return `
+  <rte>
+    <name>${escapeXml(route.name)}</name>${points}
+  </rte>`;
+  }).join('');
+
+  const gpx = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="DJI Fly Planner PRO" xmlns="http://www.topografix.com/GPX/1/1" xmlns:dfp="${GPX_EXT_NS}">
+  <metadata>
+    <time>${new Date().toISOString()}</time>
+  </metadata>${rtes}
+</gpx>`;
+
+  return saveFile(new Blob([gpx], { type: 'application/gpx+xml' }), 'flight_plans.gpx', [{ name: 'GPX', extensions: ['gpx'] }]);
 };
 
 const mapFinishAction = (action: number): string => {
   switch(action) {
     case 1: return 'goHome';
     case 2: return 'autoLand';
-    case 3: return 'goFirstWaypoint';
+    case 3: return 'gotoFirstWaypoint';
     default: return 'noAction';
   }
 };
@@ -314,22 +829,21 @@ const getDroneEnumValue = (model: string): number => {
     return 68; // Default to M3E
 };
 
-const generateTemplateKml = (routeName: string, waypoints: Waypoint[], settings: FlightSettings) => {
-  const firstWp = waypoints[0];
+// Absolute heights are written unchanged to both files, so both must declare the WGS84 ellipsoid;
+// an EGM96 template would shift every altitude by the geoid offset when Pilot 2 regenerates the wayline
+const getHeightMode = (settings: FlightSettings) => settings.altitudeMode === 1 ? 'WGS84' : 'relativeToStartPoint';
+
+const buildMissionConfig = (settings: FlightSettings) => {
   const finishAction = mapFinishAction(settings.finishAction);
   const globalSpeed = settings.globalSpeedKmh ? parseFloat((settings.globalSpeedKmh / 3.6).toFixed(2)) : 5;
-  const rcLostAction = settings.signalLostAction === 'hover' ? 'hover' : (settings.signalLostAction === 'continue' ? 'continue' : 'goHome');
+  // 'continue' keeps flying the wayline; otherwise the RC-lost action runs (goBack | hover | landing)
+  const rcLostAction = settings.signalLostAction === 'hover' ? 'hover' : 'goBack';
   const droneEnum = getDroneEnumValue(settings.selectedDroneModel);
 
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:wpml="http://www.dji.com/wpmz/1.0.2">
-  <Document>
-    <wpml:createTime>${Date.now()}</wpml:createTime>
-    <wpml:updateTime>${Date.now()}</wpml:updateTime>
-    <wpml:missionConfig>
+  return `<wpml:missionConfig>
       <wpml:flyToWaylineMode>safely</wpml:flyToWaylineMode>
       <wpml:finishAction>${finishAction}</wpml:finishAction>
-      <wpml:exitOnRCLost>${rcLostAction}</wpml:exitOnRCLost>
+      <wpml:exitOnRCLost>${settings.signalLostAction === 'continue' ? 'goContinue' : 'executeLostAction'}</wpml:exitOnRCLost>
       <wpml:executeRCLostAction>${rcLostAction}</wpml:executeRCLostAction>
       <wpml:takeOffSecurityHeight>20</wpml:takeOffSecurityHeight>
       <wpml:globalTransitionalSpeed>${globalSpeed}</wpml:globalTransitionalSpeed>
@@ -337,54 +851,59 @@ const generateTemplateKml = (routeName: string, waypoints: Waypoint[], settings:
         <wpml:droneEnumValue>${droneEnum}</wpml:droneEnumValue>
         <wpml:droneSubEnumValue>0</wpml:droneSubEnumValue>
       </wpml:droneInfo>
-    </wpml:missionConfig>
-    <Folder>
-      <wpml:templateType>waypoint</wpml:templateType>
-      <wpml:templateId>0</wpml:templateId>
-      <wpml:waylineId>0</wpml:waylineId>
-      <wpml:distanceLimitMode>noLimit</wpml:distanceLimitMode>
-      <wpml:autoFlightSpeed>${globalSpeed}</wpml:autoFlightSpeed>
-      <wpml:executeHeightMode>WGS84</wpml:executeHeightMode>
-    </Folder>
-  </Document>
-</kml>`;
+    </wpml:missionConfig>`;
 };
 
-const generateWaylinesWpml = (routeName: string, waypoints: Waypoint[], settings: FlightSettings) => {
-  const finishAction = mapFinishAction(settings.finishAction);
-  const globalSpeed = settings.globalSpeedKmh ? parseFloat((settings.globalSpeedKmh / 3.6).toFixed(2)) : 5;
-  const rcLostAction = settings.signalLostAction === 'hover' ? 'hover' : (settings.signalLostAction === 'continue' ? 'continue' : 'goHome');
-  const droneEnum = getDroneEnumValue(settings.selectedDroneModel);
+const buildHeadingParam = (wp: Waypoint) => {
+  let headingMode = 'followWayline';
+  let headingParam = 0;
+  let poiPoint = '0.000000,0.000000,0.000000';
 
-  let placemarks = '';
-  
-  waypoints.forEach((wp, index) => {
-    let headingMode = 'followWayline';
-    let headingParam = 0;
+  if (wp.poiLat !== 0 || wp.poiLon !== 0) {
+      headingMode = 'towardPOI';
+      poiPoint = `${wp.poiLat},${wp.poiLon},${wp.poiAlt}`;
+  } else if (wp.heading !== 0) {
+      headingMode = 'smoothTransition'; 
+      headingParam = wp.heading > 180 ? wp.heading - 360 : wp.heading; // WPML expects [-180, 180]
+  }
 
-    if (wp.heading !== 0) {
-        headingMode = 'smoothTransition'; 
-        headingParam = wp.heading;
-    }
+  return `<wpml:waypointHeadingParam>
+          <wpml:waypointHeadingMode>${headingMode}</wpml:waypointHeadingMode>
+          <wpml:waypointHeadingAngle>${headingParam}</wpml:waypointHeadingAngle>
+          <wpml:waypointPoiPoint>${poiPoint}</wpml:waypointPoiPoint>
+          <wpml:waypointHeadingPathMode>followBadArc</wpml:waypointHeadingPathMode>
+        </wpml:waypointHeadingParam>`;
+};
 
-    let actionGroup = '';
-    // Generate Actions for WPML
-    if (wp.actionType1 === 2 || wp.actionType1 === 3 || wp.actionType1 === 1) { 
-        let func = '';
-        let param = '';
-        
-        if (wp.actionType1 === 2) { // Start Rec
-            func = 'startRecord';
-            param = '<wpml:fileSuffix>video</wpml:fileSuffix><wpml:payloadPositionIndex>0</wpml:payloadPositionIndex>';
-        } else if (wp.actionType1 === 3) { // Stop Rec
-            func = 'stopRecord';
-            param = '<wpml:payloadPositionIndex>0</wpml:payloadPositionIndex>';
-        } else if (wp.actionType1 === 1) { // Take Photo
-            func = 'takePhoto';
-            param = '<wpml:payloadPositionIndex>0</wpml:payloadPositionIndex>';
-        }
+const buildWpmlAction = (action: WaypointAction): { func: string; param: string } | null => {
+  const payload = '<wpml:payloadPositionIndex>0</wpml:payloadPositionIndex>';
+  switch (action.type) {
+    case 0: return { func: 'hover', param: `<wpml:hoverTime>${action.param / 1000}</wpml:hoverTime>` };
+    case 1: return { func: 'takePhoto', param: payload };
+    case 2: return { func: 'startRecord', param: `<wpml:fileSuffix>video</wpml:fileSuffix>${payload}` };
+    case 3: return { func: 'stopRecord', param: payload };
+    case 4: return {
+      func: 'rotateYaw',
+      param: `<wpml:aircraftHeading>${action.param > 180 ? action.param - 360 : action.param}</wpml:aircraftHeading><wpml:aircraftPathMode>${action.param > 180 ? 'counterClockwise' : 'clockwise'}</wpml:aircraftPathMode>`
+    };
+    case 5: return {
+      func: 'gimbalRotate',
+      param: `<wpml:gimbalHeadingYawBase>north</wpml:gimbalHeadingYawBase><wpml:gimbalRotateMode>absoluteAngle</wpml:gimbalRotateMode><wpml:gimbalPitchRotateEnable>1</wpml:gimbalPitchRotateEnable><wpml:gimbalPitchRotateAngle>${action.param}</wpml:gimbalPitchRotateAngle><wpml:gimbalRollRotateEnable>0</wpml:gimbalRollRotateEnable><wpml:gimbalRollRotateAngle>0</wpml:gimbalRollRotateAngle><wpml:gimbalYawRotateEnable>0</wpml:gimbalYawRotateEnable><wpml:gimbalYawRotateAngle>0</wpml:gimbalYawRotateAngle><wpml:gimbalRotateTimeEnable>0</wpml:gimbalRotateTimeEnable><wpml:gimbalRotateTime>0</wpml:gimbalRotateTime>${payload}`
+    };
+    case 6: return { func: 'zoom', param: `<wpml:focalLength>${action.param}</wpml:focalLength>${payload}` };
+    case 7: return { func: 'focus', param: `<wpml:isPointFocus>0</wpml:isPointFocus><wpml:focusX>0.5</wpml:focusX><wpml:focusY>0.5</wpml:focusY><wpml:isInfiniteFocus>0</wpml:isInfiniteFocus>${payload}` };
+    default: return null;
+  }
+};
+
+// One sequential action group per waypoint, holding its whole action list in order
+const buildActionGroup = (wp: Waypoint, index: number) => {
+  const actions = getWaypointActions(wp)
+    .map(buildWpmlAction)
+    .filter((a): a is { func: string; param: string } => a !== null);
+  if (actions.length === 0) return '';
 
-        actionGroup = `
+  return `
         <wpml:actionGroup>
             <wpml:actionGroupId>${index}</wpml:actionGroupId>
             <wpml:actionGroupStartIndex>${index}</wpml:actionGroupStartIndex>
@@ -392,86 +911,439 @@ const generateWaylinesWpml = (routeName: string, waypoints: Waypoint[], settings
             <wpml:actionGroupMode>sequence</wpml:actionGroupMode>
             <wpml:actionTrigger>
                 <wpml:actionTriggerType>reachPoint</wpml:actionTriggerType>
-            </wpml:actionTrigger>
+            </wpml:actionTrigger>${actions.map((action, actionId) => `
             <wpml:action>
-                <wpml:actionId>0</wpml:actionId>
-                <wpml:actionActuatorFunc>${func}</wpml:actionActuatorFunc>
+                <wpml:actionId>${actionId}</wpml:actionId>
+                <wpml:actionActuatorFunc>${action.func}</wpml:actionActuatorFunc>
                 <wpml:actionActuatorFuncParam>
-                   ${param}
+                   ${action.param}
                 </wpml:actionActuatorFuncParam>
-            </wpml:action>
+            </wpml:action>`).join('')}
         </wpml:actionGroup>`;
-    }
+};
 
-    placemarks += `
+const WAYPOINT_TURN_MODE = 'toPointAndStopWithDiscontinuity';
+
+// Editable description of a waypoint route: one placemark per waypoint, mirroring waylines.wpml
+const buildWaypointTemplate = (waypoints: Waypoint[], settings: FlightSettings, globalSpeed: number) => {
+  const placemarks = waypoints.map((wp, index) => `
       <Placemark>
         <Point>
           <coordinates>${wp.longitude},${wp.latitude}</coordinates>
         </Point>
         <wpml:index>${index}</wpml:index>
-        <wpml:executeHeight>${wp.altitude}</wpml:executeHeight>
-        <wpml:waypointSpeed>${wp.speed}</wpml:waypointSpeed>
-        <wpml:waypointHeadingParam>${headingParam}</wpml:waypointHeadingParam>
-        <wpml:waypointHeadingMode>${headingMode}</wpml:waypointHeadingMode>
-        <wpml:waypointTurnMode>toPointAndStopWithDiscontinuity</wpml:waypointTurnMode>
+        <wpml:ellipsoidHeight>${wp.altitude}</wpml:ellipsoidHeight>
+        <wpml:height>${wp.altitude}</wpml:height>
         <wpml:useGlobalHeight>0</wpml:useGlobalHeight>
         <wpml:useGlobalSpeed>0</wpml:useGlobalSpeed>
-        <wpml:useGlobalTurnParam>0</wpml:useGlobalTurnParam>
+        <wpml:waypointSpeed>${wp.speed}</wpml:waypointSpeed>
         <wpml:useGlobalHeadingParam>0</wpml:useGlobalHeadingParam>
+        ${buildHeadingParam(wp)}
+        <wpml:useGlobalTurnParam>0</wpml:useGlobalTurnParam>
+        <wpml:waypointTurnParam>
+          <wpml:waypointTurnMode>${WAYPOINT_TURN_MODE}</wpml:waypointTurnMode>
+          <wpml:waypointTurnDampingDist>0</wpml:waypointTurnDampingDist>
+        </wpml:waypointTurnParam>
+        <wpml:useStraightLine>1</wpml:useStraightLine>
         <wpml:gimbalPitchAngle>${wp.gimbalPitch}</wpml:gimbalPitchAngle>
-        ${actionGroup}
+        <wpml:isRisky>0</wpml:isRisky>
+        ${buildActionGroup(wp, index)}
+      </Placemark>`).join('');
+
+  return `<wpml:templateType>waypoint</wpml:templateType>
+      <wpml:templateId>0</wpml:templateId>
+      <wpml:waylineCoordinateSysParam>
+        <wpml:coordinateMode>WGS84</wpml:coordinateMode>
+        <wpml:heightMode>${getHeightMode(settings)}</wpml:heightMode>
+      </wpml:waylineCoordinateSysParam>
+      <wpml:autoFlightSpeed>${globalSpeed}</wpml:autoFlightSpeed>
+      <wpml:globalHeight>${settings.altitude}</wpml:globalHeight>
+      <wpml:caliFlightEnable>0</wpml:caliFlightEnable>
+      <wpml:gimbalPitchMode>usePointSetting</wpml:gimbalPitchMode>
+      <wpml:globalWaypointHeadingParam>
+        <wpml:waypointHeadingMode>followWayline</wpml:waypointHeadingMode>
+        <wpml:waypointHeadingAngle>0</wpml:waypointHeadingAngle>
+        <wpml:waypointPoiPoint>0.000000,0.000000,0.000000</wpml:waypointPoiPoint>
+        <wpml:waypointHeadingPathMode>followBadArc</wpml:waypointHeadingPathMode>
+      </wpml:globalWaypointHeadingParam>
+      <wpml:globalWaypointTurnMode>${WAYPOINT_TURN_MODE}</wpml:globalWaypointTurnMode>
+      <wpml:globalUseStraightLine>1</wpml:globalUseStraightLine>${placemarks}`;
+};
+
+// Area survey: DJI Pilot 2 regenerates the lanes from the polygon, overlap and direction
+const buildMappingTemplate = (route: Route, settings: FlightSettings, globalSpeed: number) => {
+  const ring = route.originalPolygon!.map(p => `${p.lng},${p.lat},0`);
+  const first = route.originalPolygon![0];
+  const last = route.originalPolygon![route.originalPolygon!.length - 1];
+  if (first.lat !== last.lat || first.lng !== last.lng) ring.push(`${first.lng},${first.lat},0`);
+
+  const direction = Math.round(gridRotationToBearing(route.gridRotation ?? 0));
+
+  return `<wpml:templateType>mapping2d</wpml:templateType>
+      <wpml:templateId>0</wpml:templateId>
+      <wpml:waylineCoordinateSysParam>
+        <wpml:coordinateMode>WGS84</wpml:coordinateMode>
+        <wpml:heightMode>${getHeightMode(settings)}</wpml:heightMode>
+        <wpml:globalShootHeight>${settings.altitude}</wpml:globalShootHeight>
+        <wpml:surfaceFollowModeEnable>0</wpml:surfaceFollowModeEnable>
+      </wpml:waylineCoordinateSysParam>
+      <wpml:autoFlightSpeed>${globalSpeed}</wpml:autoFlightSpeed>
+      <Placemark>
+        <wpml:caliFlightEnable>0</wpml:caliFlightEnable>
+        <wpml:elevationOptimizeEnable>0</wpml:elevationOptimizeEnable>
+        <wpml:smartObliqueEnable>0</wpml:smartObliqueEnable>
+        <wpml:quickOrthoMappingEnable>0</wpml:quickOrthoMappingEnable>
+        <wpml:facadeWaylineEnable>0</wpml:facadeWaylineEnable>
+        <wpml:isLookAtSceneSet>0</wpml:isLookAtSceneSet>
+        <wpml:shootType>time</wpml:shootType>
+        <wpml:direction>${direction}</wpml:direction>
+        <wpml:margin>0</wpml:margin>
+        <wpml:overlap>
+          <wpml:orthoCameraOverlapH>${settings.mappingOverlap}</wpml:orthoCameraOverlapH>
+          <wpml:orthoCameraOverlapW>${settings.mappingOverlapH}</wpml:orthoCameraOverlapW>
+        </wpml:overlap>
+        <Polygon>
+          <outerBoundaryIs>
+            <LinearRing>
+              <coordinates>
+                ${ring.join('\n                ')}
+              </coordinates>
+            </LinearRing>
+          </outerBoundaryIs>
+        </Polygon>
+        <wpml:ellipsoidHeight>${settings.altitude}</wpml:ellipsoidHeight>
+        <wpml:height>${settings.altitude}</wpml:height>
+        <wpml:mappingHeadingParam>
+          <wpml:mappingHeadingMode>followWayline</wpml:mappingHeadingMode>
+        </wpml:mappingHeadingParam>
+        <wpml:gimbalPitchMode>fixed</wpml:gimbalPitchMode>
+        <wpml:gimbalPitchAngle>-90</wpml:gimbalPitchAngle>
+      </Placemark>`;
+};
+
+const generateTemplateKml = (route: Route, settings: FlightSettings) => {
+  const globalSpeed = settings.globalSpeedKmh ? parseFloat((settings.globalSpeedKmh / 3.6).toFixed(2)) : 5;
+  // mapping2d has no keep-out rings, so Pilot 2 would re-plan lanes through them; ship the planned lanes instead
+  const isMapping = !!route.originalPolygon && route.originalPolygon.length > 2 && !(route.exclusionZones && route.exclusionZones.length > 0);
+  const now = Date.now();
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:wpml="http://www.dji.com/wpmz/1.0.2">
+  <Document>
+    <wpml:author>DJI Fly Planner PRO</wpml:author>
+    <wpml:createTime>${now}</wpml:createTime>
+    <wpml:updateTime>${now}</wpml:updateTime>
+    ${buildMissionConfig(settings)}
+    <Folder>
+      ${isMapping ? buildMappingTemplate(route, settings, globalSpeed) : buildWaypointTemplate(route.waypoints, settings, globalSpeed)}
+      <wpml:payloadParam>
+        <wpml:payloadPositionIndex>0</wpml:payloadPositionIndex>
+        <wpml:imageFormat>wide</wpml:imageFormat>
+      </wpml:payloadParam>
+    </Folder>
+  </Document>
+</kml>`;
+};
+
+const generateWaylinesWpml = (routeName: string, waypoints: Waypoint[], settings: FlightSettings) => {
+  const globalSpeed = settings.globalSpeedKmh ? parseFloat((settings.globalSpeedKmh / 3.6).toFixed(2)) : 5;
+
+  let placemarks = '';
+  
+  waypoints.forEach((wp, index) => {
+    placemarks += `
+      <Placemark>
+        <Point>
+          <coordinates>${wp.longitude},${wp.latitude}</coordinates>
+        </Point>
+        <wpml:index>${index}</wpml:index>
+        <wpml:executeHeight>${wp.altitude}</wpml:executeHeight>
+        <wpml:waypointSpeed>${wp.speed}</wpml:waypointSpeed>
+        ${buildHeadingParam(wp)}
+        <wpml:waypointTurnParam>
+          <wpml:waypointTurnMode>${WAYPOINT_TURN_MODE}</wpml:waypointTurnMode>
+          <wpml:waypointTurnDampingDist>0</wpml:waypointTurnDampingDist>
+        </wpml:waypointTurnParam>
+        <wpml:useStraightLine>1</wpml:useStraightLine>
+        <wpml:gimbalPitchAngle>${wp.gimbalPitch}</wpml:gimbalPitchAngle>
+        ${buildActionGroup(wp, index)}
       </Placemark>`;
   });
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <kml xmlns="http://www.opengis.net/kml/2.2" xmlns:wpml="http://www.dji.com/wpmz/1.0.2">
   <Document>
-    <wpml:missionConfig>
-      <wpml:flyToWaylineMode>safely</wpml:flyToWaylineMode>
-      <wpml:finishAction>${finishAction}</wpml:finishAction>
-      <wpml:exitOnRCLost>${rcLostAction}</wpml:exitOnRCLost>
-      <wpml:executeRCLostAction>${rcLostAction}</wpml:executeRCLostAction>
-      <wpml:takeOffSecurityHeight>20</wpml:takeOffSecurityHeight>
-      <wpml:globalTransitionalSpeed>${globalSpeed}</wpml:globalTransitionalSpeed>
-      <wpml:droneInfo>
-        <wpml:droneEnumValue>${droneEnum}</wpml:droneEnumValue>
-        <wpml:droneSubEnumValue>0</wpml:droneSubEnumValue>
-      </wpml:droneInfo>
-    </wpml:missionConfig>
+    ${buildMissionConfig(settings)}
     <Folder>
-      <wpml:templateType>waypoint</wpml:templateType>
       <wpml:templateId>0</wpml:templateId>
+      <wpml:executeHeightMode>${getHeightMode(settings)}</wpml:executeHeightMode>
       <wpml:waylineId>0</wpml:waylineId>
       <wpml:autoFlightSpeed>${globalSpeed}</wpml:autoFlightSpeed>
-      <wpml:executeHeightMode>WGS84</wpml:executeHeightMode>
       ${placemarks}
     </Folder>
   </Document>
 </kml>`;
 };
 
-export const exportDJIWPML = async (routes: Route[], settings: FlightSettings) => {
-    const masterZip = new JSZip();
+// --- QGroundControl / MAVLink ---
+
+const MAV_FRAME_GLOBAL = 0;
+const MAV_FRAME_MISSION = 2;
+const MAV_FRAME_GLOBAL_RELATIVE_ALT = 3;
+
+const MAV_CMD = {
+  NAV_WAYPOINT: 16,
+  NAV_RETURN_TO_LAUNCH: 20,
+  NAV_LAND: 21,
+  NAV_TAKEOFF: 22,
+  CONDITION_YAW: 115,
+  DO_CHANGE_SPEED: 178,
+  DO_SET_ROI: 201,
+  DO_DIGICAM_CONTROL: 203,
+  DO_MOUNT_CONTROL: 205,
+  DO_SET_CAM_TRIGG_DIST: 206,
+  SET_CAMERA_ZOOM: 531,
+  SET_CAMERA_FOCUS: 532,
+  IMAGE_START_CAPTURE: 2000,
+  IMAGE_STOP_CAPTURE: 2001,
+  VIDEO_START_CAPTURE: 2500,
+  VIDEO_STOP_CAPTURE: 2501
+};
+
+// params: param1-4, latitude, longitude, altitude; null = NaN (unset)
+type MissionItem = { command: number; frame: number; params: (number | null)[] };
+
+const doItem = (command: number, params: (number | null)[]): MissionItem =>
+  ({ command, frame: MAV_FRAME_MISSION, params: [...params, 0, 0, 0, 0, 0, 0, 0].slice(0, 7) });
+
+/**
+ * MAVLink items for a waypoint route. Single photos use IMAGE_START_CAPTURE for QGC plans
+ * (PX4) and DO_DIGICAM_CONTROL for WPL files (ArduPilot); stay actions become the hold time.
+ */
+const buildMissionItems = (route: Route, settings: FlightSettings, dialect: 'plan' | 'wpl', includePath = true): MissionItem[] => {
+  const wps = route.waypoints;
+  if (wps.length === 0) return [];
+  const frameOf = (wp: Waypoint) => wp.altitudeMode === 1 ? MAV_FRAME_GLOBAL : MAV_FRAME_GLOBAL_RELATIVE_ALT;
+  const items: MissionItem[] = [
+    { command: MAV_CMD.NAV_TAKEOFF, frame: frameOf(wps[0]), params: [0, 0, 0, null, wps[0].latitude, wps[0].longitude, wps[0].altitude] }
+  ];
+
+  let speed = -1;
+  let pitch: number | null = null;
+  let roi = '';
+  let timeInterval = -1;
+  let distInterval = -1;
+
+  if (includePath) wps.forEach(wp => {
+    if (wp.speed > 0 && wp.speed !== speed) {
+      items.push(doItem(MAV_CMD.DO_CHANGE_SPEED, [1, wp.speed, -1, 0]));
+      speed = wp.speed;
+    }
+    const poi = wp.poiLat !== 0 || wp.poiLon !== 0 ? `${wp.poiLat},${wp.poiLon},${wp.poiAlt}` : '';
+    if (poi && poi !== roi) {
+      items.push({ command: MAV_CMD.DO_SET_ROI, frame: frameOf(wp), params: [3, 0, 0, 0, wp.poiLat, wp.poiLon, wp.poiAlt] }); // MAV_ROI_LOCATION
+    }
+    roi = poi;
+    if (wp.gimbalPitch !== pitch) {
+      items.push(doItem(MAV_CMD.DO_MOUNT_CONTROL, [wp.gimbalPitch, 0, 0, 0, 0, 0, 2])); // MAV_MOUNT_MODE_MAVLINK_TARGETING
+      pitch = wp.gimbalPitch;
+    }
+
+    const actions = getWaypointActions(wp);
+    const holdSeconds = actions.filter(a => a.type === 0).reduce((sum, a) => sum + a.param / 1000, 0);
+    const yaw = wp.heading !== 0 && !poi ? wp.heading : null;
+    items.push({ command: MAV_CMD.NAV_WAYPOINT, frame: frameOf(wp), params: [holdSeconds, 0, 0, yaw, wp.latitude, wp.longitude, wp.altitude] });
+
+    actions.forEach(action => {
+      switch (action.type) {
+        case 1:
+          items.push(dialect === 'plan'
+            ? doItem(MAV_CMD.IMAGE_START_CAPTURE, [0, 0, 1, 0])
+            : doItem(MAV_CMD.DO_DIGICAM_CONTROL, [0, 0, 0, 0, 1, 0, 0]));
+          break;
+        case 2: items.push(doItem(MAV_CMD.VIDEO_START_CAPTURE, [0, 0])); break;
+        case 3: items.push(doItem(MAV_CMD.VIDEO_STOP_CAPTURE, [0])); break;
+        case 4: items.push(doItem(MAV_CMD.CONDITION_YAW, [action.param, 0, 0, 0])); break;
+        case 5:
+          items.push(doItem(MAV_CMD.DO_MOUNT_CONTROL, [action.param, 0, 0, 0, 0, 0, 2]));
+          pitch = action.param;
+          break;
+        case 6: items.push(doItem(MAV_CMD.SET_CAMERA_ZOOM, [3, action.param])); break; // ZOOM_TYPE_FOCAL_LENGTH
+        case 7: items.push(doItem(MAV_CMD.SET_CAMERA_FOCUS, [5, 0])); break; // FOCUS_TYPE_AUTO_SINGLE
+      }
+    });
+
+    // Interval shooting starts at the first waypoint that has it and stops where it ends
+    if (wp.photoTimeInterval !== timeInterval) {
+      if (timeInterval > 0) items.push(doItem(MAV_CMD.IMAGE_STOP_CAPTURE, [0]));
+      if (wp.photoTimeInterval > 0) items.push(doItem(MAV_CMD.IMAGE_START_CAPTURE, [0, wp.photoTimeInterval, 0, 0]));
+      timeInterval = wp.photoTimeInterval;
+    }
+    if (wp.photoDistInterval !== distInterval) {
+      items.push(doItem(MAV_CMD.DO_SET_CAM_TRIGG_DIST, wp.photoDistInterval > 0 ? [wp.photoDistInterval, 0, 1] : [0, 0, 0]));
+      distInterval = wp.photoDistInterval;
+    }
+  });
+
+  if (timeInterval > 0) items.push(doItem(MAV_CMD.IMAGE_STOP_CAPTURE, [0]));
+  if (distInterval > 0) items.push(doItem(MAV_CMD.DO_SET_CAM_TRIGG_DIST, [0, 0, 0]));
+
+  const first = wps[0];
+  const last = wps[wps.length - 1];
+  switch (settings.finishAction) {
+    case 1: items.push({ command: MAV_CMD.NAV_RETURN_TO_LAUNCH, frame: MAV_FRAME_MISSION, params: [0, 0, 0, 0, 0, 0, 0] }); break;
+    case 2: items.push({ command: MAV_CMD.NAV_LAND, frame: frameOf(last), params: [0, 0, 0, null, last.latitude, last.longitude, 0] }); break;
+    case 3: items.push({ command: MAV_CMD.NAV_WAYPOINT, frame: frameOf(first), params: [0, 0, 0, null, first.latitude, first.longitude, first.altitude] }); break;
+  }
+  return items;
+};
+
+const stripClosingCoordinate = (ring: { lat: number; lng: number }[]) => {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first.lat === last.lat && first.lng === last.lng ? ring.slice(0, -1) : ring;
+};
+
+// QGC Survey complex item; QGC regenerates the transects from the polygon and camera
+const buildQgcSurvey = (route: Route, settings: FlightSettings) => {
+  const drone = DRONE_PRESETS.find(d => d.model === settings.selectedDroneModel) || DRONE_PRESETS[0];
+  const { footprintWidth, footprintHeight } = calculateMappingFootprint(settings);
+  const polygon = stripClosingCoordinate(route.originalPolygon!);
+
+  return {
+    type: 'ComplexItem',
+    complexItemType: 'survey',
+    version: 5,
+    angle: gridRotationToBearing(route.gridRotation ?? 0),
+    entryLocation: 0,
+    flyAlternateTransects: false,
+    splitConcavePolygons: true,
+    polygon: polygon.map(p => [p.lat, p.lng]),
+    TransectStyleComplexItem: {
+      version: 2,
+      CameraCalc: {
+        version: 1,
+        CameraName: 'Custom Camera',
+        SensorWidth: drone.sensorWidthMm,
+        SensorHeight: drone.sensorHeightMm,
+        ImageWidth: drone.imageWidthPx,
+        ImageHeight: drone.imageHeightPx,
+        FocalLength: drone.realFocalLengthMm,
+        Landscape: true,
+        FixedOrientation: false,
+        MinTriggerInterval: 0,
+        ValueSetIsDistance: true,
+        DistanceToSurface: settings.altitude,
+        DistanceToSurfaceRelative: settings.altitudeMode !== 1,
+        GroundResolution: calculateGSD(settings.altitude, drone.sensorWidthMm, drone.imageWidthPx, drone.realFocalLengthMm),
+        FrontalOverlap: settings.mappingOverlap,
+        SideOverlap: settings.mappingOverlapH,
+        AdjustedFootprintFrontal: footprintHeight * (1 - settings.mappingOverlap / 100),
+        AdjustedFootprintSide: footprintWidth * (1 - settings.mappingOverlapH / 100)
+      },
+      CameraTriggerInTurnAround: true,
+      HoverAndCapture: false,
+      Refly90Degrees: settings.mappingPattern === 'crosshatch',
+      TurnAroundDistance: 10,
+      Items: [],
+      VisualTransectPoints: route.waypoints.map(wp => [wp.latitude, wp.longitude]),
+      TerrainAdjustMaxClimbRate: 0,
+      TerrainAdjustMaxDescentRate: 0,
+      TerrainAdjustTolerance: 10,
+      TerrainFlightSpeed: 0,
+      FollowTerrain: false
+    }
+  };
+};
+
+const generateQgcPlan = (route: Route, settings: FlightSettings) => {
+  const isSurvey = !!route.originalPolygon && route.originalPolygon.length > 2;
+  const frameItems = buildMissionItems(route, settings, 'plan', !isSurvey);
+
+  // The survey sits between the takeoff and the finish action
+  const items: any[] = frameItems.map(item => ({
+    type: 'SimpleItem',
+    autoContinue: true,
+    command: item.command,
+    frame: item.frame,
+    params: item.params,
+    ...(item.frame !== MAV_FRAME_MISSION ? {
+      Altitude: item.params[6],
+      AltitudeMode: item.frame === MAV_FRAME_GLOBAL ? 2 : 1,
+      AMSLAltAboveTerrain: null
+    } : {})
+  }));
+  if (isSurvey) items.splice(1, 0, buildQgcSurvey(route, settings));
+  items.forEach((item, idx) => { item.doJumpId = idx + 1; });
+
+  const speedMs = route.waypoints[0]?.speed || settings.speedKmh / 3.6;
+  return JSON.stringify({
+    fileType: 'Plan',
+    version: 1,
+    groundStation: 'QGroundControl',
+    geoFence: { circles: [], polygons: [], version: 2 },
+    rallyPoints: { points: [], version: 2 },
+    mission: {
+      version: 2,
+      firmwareType: 0, // MAV_AUTOPILOT_GENERIC, QGC adapts it to PX4 or ArduPilot
+      vehicleType: 2, // MAV_TYPE_QUADROTOR
+      cruiseSpeed: speedMs,
+      hoverSpeed: speedMs,
+      plannedHomePosition: [route.homePoint.lat, route.homePoint.lng, 0],
+      items
+    }
+  }, null, 2);
+};
+
+// QGC WPL 110: tab separated, line 0 is the home position
+const generateQgcWpl = (route: Route, settings: FlightSettings) => {
+  const lines = ['QGC WPL 110', ['0', '1', MAV_FRAME_GLOBAL, MAV_CMD.NAV_WAYPOINT, 0, 0, 0, 0, route.homePoint.lat, route.homePoint.lng, 0, 1].join('\t')];
+  buildMissionItems(route, settings, 'wpl').forEach((item, idx) => {
+    lines.push([idx + 1, 0, item.frame, item.command, ...item.params.map(p => p ?? 0), 1].join('\t'));
+  });
+  return lines.join('\n') + '\n';
+};
+
+/** One .plan (QGroundControl) and one .waypoints (QGC WPL 110) file per route. */
+export const exportQGCZip = (routes: Route[], settings: FlightSettings) => {
+  const files: ExportFile[] = [];
+
+  routes.forEach(route => {
+    if (route.waypoints.length === 0) return;
+    const mission = { ...route, waypoints: dropCoincidentWaypoints(route.waypoints) };
+    files.push({ name: `${route.name}.plan`, data: generateQgcPlan(mission, settings) });
+    files.push({ name: `${route.name}.waypoints`, data: generateQgcWpl(mission, settings) });
+  });
+
+  return saveFiles(files, "qgc_missions.zip");
+};
+
+/** DJI Fly mission KMZ (wpmz/template.kml + wpmz/waylines.wpml) for one route. */
+export const buildDJIWPMLKmz = async (route: Route, settings: FlightSettings): Promise<Blob> => {
+    const kmzZip = new JSZip();
+    const wpmzFolder = kmzZip.folder("wpmz");
     
-    // Process all routes in parallel promises
-    const promises = routes.map(async (route, i) => {
-        const kmzZip = new JSZip();
-        const wpmzFolder = kmzZip.folder("wpmz");
-        
-        if (wpmzFolder) {
-            const template = generateTemplateKml(route.name, route.waypoints, settings);
-            const waylines = generateWaylinesWpml(route.name, route.waypoints, settings);
-            
-            wpmzFolder.file("template.kml", template);
-            wpmzFolder.file("waylines.wpml", waylines);
-        }
+    if (wpmzFolder) {
+        // Imported missions keep their own finish and RC-lost actions
+        const routeSettings = route.missionConfig ? { ...settings, ...route.missionConfig } : settings;
+        const mission = { ...route, waypoints: dropCoincidentWaypoints(route.waypoints) };
+        const template = generateTemplateKml(mission, routeSettings);
+        const waylines = generateWaylinesWpml(mission.name, mission.waypoints, routeSettings);
         
-        const blob = await kmzZip.generateAsync({type:"blob"});
-        masterZip.file(`${route.name}_DJI_Fly.kmz`, blob);
-    });
+        wpmzFolder.file("template.kml", template);
+        wpmzFolder.file("waylines.wpml", waylines);
+    }
+    
+    return kmzZip.generateAsync({type:"blob"});
+};
 
-    await Promise.all(promises);
+export const exportDJIWPML = async (routes: Route[], settings: FlightSettings) => {
+    // Process all routes in parallel promises
+    const promises = routes.map(async (route): Promise<ExportFile> => ({
+        name: `${route.name}_DJI_Fly.kmz`,
+        data: await buildDJIWPMLKmz(route, settings)
+    }));
 
-    const content = await masterZip.generateAsync({type:"blob"});
-    saveAs(content, "DJI_WPML_Missions.zip");
+    // Desktop writes the KMZs straight into the chosen folder, the browser zips them
+    return saveFiles(await Promise.all(promises), "DJI_WPML_Missions.zip");
 };
@@ -0,0 +1,185 @@
+import { Route, Waypoint, FlightSettings, PhotoFootprint, CoverageGrid } from '../types';
+import { calculateMappingFootprint, calculateBearing, calculateDistance, computeDestinationPoint } from './geometryService';
+
+type LatLng = { lat: number; lng: number };
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+const METERS_PER_DEGREE = 111320;
+// Corner rays flatter than this (about 3 degrees below the horizon) would reach kilometers away
+const MIN_RAY_DESCENT = 0.05;
+const MAX_COVERAGE_CELLS = 250000;
+
+// Overlap classes for the coverage layer, from a single photo up to what photogrammetry wants
+export const COVERAGE_LEVELS: { min: number; label: string; color: [number, number, number] }[] = [
+  { min: 1, label: '1', color: [220, 38, 38] },
+  { min: 2, label: '2', color: [249, 115, 22] },
+  { min: 3, label: '3-4', color: [234, 179, 8] },
+  { min: 5, label: '5-8', color: [132, 204, 22] },
+  { min: 9, label: '9+', color: [22, 163, 74] }
+];
+
+const takesPhoto = (wp: Waypoint) =>
+  wp.actionType1 === 1 || wp.actionType2 === 1 || (wp.extraActions || []).some(action => action.type === 1);
+
+// Same precedence as the WPML export: POI first, then a fixed heading, else along the path
+const headingAt = (wp: Waypoint, position: LatLng, pathBearing: number) => {
+  if (wp.poiLat !== 0 || wp.poiLon !== 0) return calculateBearing(position.lat, position.lng, wp.poiLat, wp.poiLon);
+  if (wp.heading !== 0) return wp.heading;
+  return pathBearing;
+};
+
+/**
+ * Projects the image corners onto flat ground. Uses the planner's camera model, so a nadir
+ * footprint matches the width and height the lane and photo spacing are derived from.
+ * Returns null when the camera looks too close to the horizon for a bounded footprint.
+ */
+export const cameraFootprint = (position: LatLng, altitude: number, heading: number, gimbalPitch: number, settings: FlightSettings): LatLng[] | null => {
+  if (altitude <= 0) return null;
+  const { footprintWidth, footprintHeight } = calculateMappingFootprint(settings, 1);
+  const halfWidth = footprintWidth / 2;
+  const halfHeight = footprintHeight / 2;
+
+  const yaw = toRad(heading);
+  const pitch = toRad(Math.max(-90, Math.min(0, gimbalPitch)));
+  // East, north, up
+  const forward = [Math.sin(yaw) * Math.cos(pitch), Math.cos(yaw) * Math.cos(pitch), Math.sin(pitch)];
+  const right = [Math.cos(yaw), -Math.sin(yaw), 0];
+  const up = [-Math.sin(yaw) * Math.sin(pitch), -Math.cos(yaw) * Math.sin(pitch), Math.cos(pitch)];
+
+  const corners: LatLng[] = [];
+  for (const [sx, sy] of [[-1, 1], [1, 1], [1, -1], [-1, -1]]) {
+    const ray = forward.map((f, i) => f + sx * halfWidth * right[i] + sy * halfHeight * up[i]);
+    const length = Math.hypot(ray[0], ray[1], ray[2]);
+    if (ray[2] / length > -MIN_RAY_DESCENT) return null;
+    const scale = altitude / -ray[2];
+    const east = ray[0] * scale;
+    const north = ray[1] * scale;
+    corners.push(computeDestinationPoint(position.lat, position.lng, Math.hypot(east, north), toDeg(Math.atan2(east, north))));
+  }
+  return corners;
+};
+
+/**
+ * Footprints of every photo a route takes: waypoints with a Take Photo action, plus interval
+ * shots along legs. Mapping grids shoot their lanes at settings.photoTimeInterval unless the
+ * waypoint sets its own interval. The timer keeps running across waypoints while the interval holds.
+ */
+export const routeFootprints = (route: Route, settings: FlightSettings): PhotoFootprint[] => {
+  const wps = route.waypoints;
+  const footprints: PhotoFootprint[] = [];
+  const add = (wp: Waypoint, position: LatLng, altitude: number, pathBearing: number) => {
+    const corners = cameraFootprint(position, altitude, headingAt(wp, position, pathBearing), wp.gimbalPitch, settings);
+    if (corners) footprints.push({ routeId: route.id, waypointId: wp.id, corners });
+  };
+
+  let activeInterval = -1;
+  let nextShotAt = 0; // Meters into the current leg
+
+  wps.forEach((wp, i) => {
+    const next = wps[i + 1];
+    const pathBearing = next
+      ? calculateBearing(wp.latitude, wp.longitude, next.latitude, next.longitude)
+      : i > 0 ? calculateBearing(wps[i - 1].latitude, wps[i - 1].longitude, wp.latitude, wp.longitude) : 0;
+
+    if (takesPhoto(wp)) add(wp, { lat: wp.latitude, lng: wp.longitude }, wp.altitude, pathBearing);
+    if (!next) return;
+
+    const interval = wp.photoTimeInterval > 0 ? wp.photoTimeInterval
+      : route.originalPolygon && wp.isEffort && next.isEffort ? settings.photoTimeInterval
+      : -1;
+    const spacing = interval > 0 ? interval * (wp.speed > 0 ? wp.speed : settings.speedKmh / 3.6) : 0;
+    if (interval !== activeInterval) {
+      activeInterval = interval;
+      nextShotAt = spacing;
+    }
+    const legLength = calculateDistance(wp.latitude, wp.longitude, next.latitude, next.longitude);
+    if (spacing < 0.5) return;
+
+    for (; nextShotAt < legLength; nextShotAt += spacing) {
+      const t = nextShotAt / legLength;
+      const position = { lat: wp.latitude + t * (next.latitude - wp.latitude), lng: wp.longitude + t * (next.longitude - wp.longitude) };
+      add(wp, position, wp.altitude + t * (next.altitude - wp.altitude), pathBearing);
+    }
+    nextShotAt -= legLength;
+  });
+
+  return footprints;
+};
+
+/** Counts the footprints over each cell of a grid sized to stay under MAX_COVERAGE_CELLS. */
+export const computeCoverage = (footprints: PhotoFootprint[]): CoverageGrid | null => {
+  if (footprints.length === 0) return null;
+  let south = Infinity, west = Infinity, north = -Infinity, east = -Infinity;
+  footprints.forEach(fp => fp.corners.forEach(p => {
+    south = Math.min(south, p.lat);
+    north = Math.max(north, p.lat);
+    west = Math.min(west, p.lng);
+    east = Math.max(east, p.lng);
+  }));
+
+  const metersPerDegLng = METERS_PER_DEGREE * Math.cos(toRad((south + north) / 2));
+  const width = (east - west) * metersPerDegLng;
+  const height = (north - south) * METERS_PER_DEGREE;
+  if (width <= 0 || height <= 0) return null;
+
+  const cellSize = Math.max(0.25, Math.sqrt((width * height) / MAX_COVERAGE_CELLS));
+  const cols = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const counts = new Uint16Array(cols * rows);
+
+  footprints.forEach(fp => {
+    // Local meters, x to the east and y to the south so rows run from the north edge
+    const quad = fp.corners.map(p => ({ x: (p.lng - west) * metersPerDegLng, y: (north - p.lat) * METERS_PER_DEGREE }));
+    const edgeSide = (i: number, x: number, y: number) => {
+      const a = quad[i];
+      const b = quad[(i + 1) % quad.length];
+      return (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x);
+    };
+    const orientation = Math.sign(edgeSide(0, quad[2].x, quad[2].y));
+
+    const col0 = Math.max(0, Math.floor(Math.min(...quad.map(p => p.x)) / cellSize));
+    const col1 = Math.min(cols - 1, Math.floor(Math.max(...quad.map(p => p.x)) / cellSize));
+    const row0 = Math.max(0, Math.floor(Math.min(...quad.map(p => p.y)) / cellSize));
+    const row1 = Math.min(rows - 1, Math.floor(Math.max(...quad.map(p => p.y)) / cellSize));
+
+    for (let row = row0; row <= row1; row++) {
+      const y = (row + 0.5) * cellSize;
+      for (let col = col0; col <= col1; col++) {
+        const x = (col + 0.5) * cellSize;
+        // Footprints are convex, so the cell center is inside when it is on the same side of every edge
+        if (quad.every((_, i) => edgeSide(i, x, y) * orientation >= 0) && counts[row * cols + col] < 65535) {
+          counts[row * cols + col]++;
+        }
+      }
+    }
+  });
+
+  return {
+    bounds: [[north - (rows * cellSize) / METERS_PER_DEGREE, west], [north, west + (cols * cellSize) / metersPerDegLng]],
+    cols,
+    rows,
+    counts,
+    cellSize
+  };
+};
+
+/** Paints the grid one pixel per cell, colored by COVERAGE_LEVELS, as a PNG data URL. */
+export const renderCoverage = (grid: CoverageGrid): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = grid.cols;
+  canvas.height = grid.rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available.');
+
+  const highestFirst = [...COVERAGE_LEVELS].reverse();
+  const image = ctx.createImageData(grid.cols, grid.rows);
+  grid.counts.forEach((count, i) => {
+    if (count === 0) return;
+    const level = highestFirst.find(l => count >= l.min)!;
+    image.data.set([...level.color, 170], i * 4);
+  });
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, FlightSettings } from '../types';
+import { calculateDistance, calculateMappingFootprint, generateCorridorWaypoints, getCorridorLineCount, getCorridorLineSpacing } from './geometryService';
+
+const settings: FlightSettings = { ...DEFAULT_SETTINGS, flightMode: 'corridor', altitude: 60, corridorWidth: 80 };
+
+// Straight east-west centerline, so each line keeps one latitude
+const path = [{ lat: -26.300, lng: -48.600 }, { lat: -26.300, lng: -48.596 }];
+
+// Distance between the outermost lines
+const corridorSpan = (s: FlightSettings) => {
+    const lats = generateCorridorWaypoints(path, s).map(p => p.lat);
+    return calculateDistance(Math.min(...lats), path[0].lng, Math.max(...lats), path[0].lng);
+};
+
+describe('generateCorridorWaypoints', () => {
+    const { footprintWidth, laneSpacing } = calculateMappingFootprint(settings);
+
+    it('spreads a fixed number of lines across the corridor width', () => {
+        const twoLines = { ...settings, corridorLines: 2 };
+        expect(getCorridorLineSpacing(twoLines)).toBeCloseTo(80 - footprintWidth, 6);
+        expect(corridorSpan(twoLines)).toBeCloseTo(80 - footprintWidth, 0);
+    });
+
+    it('derives enough lines to keep the side overlap when none are set', () => {
+        const auto = { ...settings, corridorLines: 0 };
+        expect(getCorridorLineCount(auto)).toBeGreaterThan(1);
+        expect(getCorridorLineSpacing(auto)).toBeLessThanOrEqual(laneSpacing);
+        expect(corridorSpan(auto)).toBeCloseTo(80 - footprintWidth, 0);
+    });
+});
@@ -1,5 +1,5 @@
 
-import { Waypoint, Route, FlightSettings, DRONE_PRESETS, RouteStats } from '../types';
+import { Waypoint, Route, FlightSettings, DRONE_PRESETS, RouteStats, GridRotationCandidate } from '../types';
 import * as turf from '@turf/turf';
 import { polygon as createPolygon, lineString as createLineString, point as createPoint, points as createPoints } from '@turf/helpers';
 
@@ -70,6 +70,58 @@ export const updateWaypointsWithBearings = (waypoints: Waypoint[]): Waypoint[] =
   });
 };
 
+/**
+ * Orbit around a point of interest. Every waypoint faces the POI (heading and gimbal pitch
+ * towards center + orbitPoiAltitude) and carries the POI fields used by Litchi and WPML.
+ * The last waypoint closes the final lap over the starting bearing.
+ */
+export const generateOrbitWaypoints = (
+    center: { lat: number; lng: number },
+    radius: number,
+    settings: FlightSettings,
+    startBearing = 0
+): Waypoint[] => {
+    const pointsPerLap = Math.max(3, Math.round(settings.orbitPoints));
+    const laps = Math.max(1, Math.round(settings.orbitLaps));
+    const total = pointsPerLap * laps;
+    const direction = settings.orbitClockwise ? 1 : -1;
+    const chord = 2 * radius * Math.sin(Math.PI / pointsPerLap);
+
+    const waypoints: Waypoint[] = [];
+    for (let i = 0; i <= total; i++) {
+        const bearing = (startBearing + direction * (i * 360) / pointsPerLap + 360) % 360;
+        const pos = computeDestinationPoint(center.lat, center.lng, radius, bearing);
+        const altitude = settings.altitude + (settings.orbitClimbPerLap * i) / pointsPerLap;
+        const pitch = -toDeg(Math.atan2(altitude - settings.orbitPoiAltitude, radius));
+
+        waypoints.push({
+            id: i + 1,
+            latitude: pos.lat,
+            longitude: pos.lng,
+            altitude: parseFloat(altitude.toFixed(1)),
+            heading: parseFloat(calculateBearing(pos.lat, pos.lng, center.lat, center.lng).toFixed(2)),
+            curveSize: parseFloat((chord * 0.45).toFixed(1)),
+            rotationDir: settings.orbitClockwise ? 0 : 1,
+            gimbalMode: 1, // Litchi: focus POI
+            gimbalPitch: parseFloat(Math.max(-90, Math.min(30, pitch)).toFixed(1)),
+            actionType1: settings.action1,
+            actionParam1: 0,
+            actionType2: -1,
+            actionParam2: 0,
+            altitudeMode: settings.altitudeMode,
+            speed: parseFloat((settings.speedKmh / 3.6).toFixed(2)),
+            poiLat: center.lat,
+            poiLon: center.lng,
+            poiAlt: settings.orbitPoiAltitude,
+            poiAltMode: settings.altitudeMode,
+            photoTimeInterval: -1,
+            photoDistInterval: -1,
+            isEffort: true
+        });
+    }
+    return waypoints;
+};
+
 export const calculatePhotoInterval = (
     altitude: number, 
     speedKmh: number, 
@@ -142,26 +194,14 @@ const projectFromLocalCartesian = (x: number, y: number, centerLat: number, cent
     return { lat, lng };
 };
 
-export const generateGridWaypoints = (
-  polygonCoords: { lat: number; lng: number }[],
-  settings: FlightSettings,
-  rotationAngle: number
-): ( { lat: number, lng: number, isEffort: boolean } )[] => {
-    if (polygonCoords.length < 3) return polygonCoords.map(p => ({...p, isEffort: true}));
-    
-    const turfPolyCoords = polygonCoords.map(p => [p.lng, p.lat]);
-    if (turfPolyCoords[0][0] !== turfPolyCoords[turfPolyCoords.length-1][0]) {
-        turfPolyCoords.push(turfPolyCoords[0]);
-    }
-    const turfPoly = createPolygon([turfPolyCoords]);
-    const centroid = turf.centroid(turfPoly);
-    const centerLng = centroid.geometry.coordinates[0];
-    const centerLat = centroid.geometry.coordinates[1];
-
-    const projectedCoords = polygonCoords.map(p => projectToLocalCartesian(p.lat, p.lng, centerLat, centerLng));
-    
+/**
+ * Nadir footprint at settings.altitude and the lane / photo spacing it implies for the
+ * side (mappingOverlapH) and forward (mappingOverlap) overlaps.
+ * @param distance Camera-to-surface range; defaults to the flight altitude for nadir shots
+ */
+export const calculateMappingFootprint = (settings: FlightSettings, distance = settings.altitude) => {
     const drone = DRONE_PRESETS.find(d => d.model === settings.selectedDroneModel) || DRONE_PRESETS[0];
-    const altitude = settings.altitude;
+    const altitude = distance;
     
     const aspectHoriz = settings.aspectRatio === '4:3' ? 4 : 16;
     const aspectVert = settings.aspectRatio === '4:3' ? 3 : 9;
@@ -180,90 +220,409 @@ export const generateGridWaypoints = (
     const overlapVDecimal = settings.mappingOverlap / 100;
     const photoSpacing = footprintHeight * (1 - overlapVDecimal);
 
-    if (laneSpacing <= 0.1) return polygonCoords.map(p => ({lat: p.lat, lng: p.lng, isEffort: true}));
+    return { footprintWidth, footprintHeight, laneSpacing, photoSpacing };
+};
 
-    const generatePass = (angle: number): { lat: number, lng: number, isEffort: boolean }[] => {
-        const rad = toRad(-angle);
-        const cos = Math.cos(rad);
-        const sin = Math.sin(rad);
+type LocalPoint = { x: number; y: number };
 
-        const rotatedCoords = projectedCoords.map(p => ({
-            x: p.x * cos - p.y * sin,
-            y: p.x * sin + p.y * cos
-        }));
+const GEOMETRY_EPSILON = 1e-6;
+const BOUNDARY_TOLERANCE_M = 0.01;
 
-        let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-        rotatedCoords.forEach(p => {
-            if(p.x < minX) minX = p.x;
-            if(p.x > maxX) maxX = p.x;
-            if(p.y < minY) minY = p.y;
-            if(p.y > maxY) maxY = p.y;
-        });
+const stripClosingPoint = (coords: { lat: number; lng: number }[]) => {
+    const ring = [...coords];
+    while (ring.length > 1 && ring[0].lat === ring[ring.length - 1].lat && ring[0].lng === ring[ring.length - 1].lng) {
+        ring.pop();
+    }
+    return ring;
+};
+
+const rotateLocal = (p: LocalPoint, angleDeg: number): LocalPoint => {
+    const rad = toRad(angleDeg);
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    return { x: p.x * cos - p.y * sin, y: p.x * sin + p.y * cos };
+};
+
+const localDistance = (a: LocalPoint, b: LocalPoint) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const cross = (o: LocalPoint, a: LocalPoint, b: LocalPoint) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// True only when both segments cross each other's interior (touching endpoints doesn't count)
+const segmentsCross = (a: LocalPoint, b: LocalPoint, c: LocalPoint, d: LocalPoint) => {
+    const d1 = cross(c, d, a);
+    const d2 = cross(c, d, b);
+    const d3 = cross(a, b, c);
+    const d4 = cross(a, b, d);
+    return ((d1 > GEOMETRY_EPSILON && d2 < -GEOMETRY_EPSILON) || (d1 < -GEOMETRY_EPSILON && d2 > GEOMETRY_EPSILON)) &&
+           ((d3 > GEOMETRY_EPSILON && d4 < -GEOMETRY_EPSILON) || (d3 < -GEOMETRY_EPSILON && d4 > GEOMETRY_EPSILON));
+};
+
+const distanceToSegment = (p: LocalPoint, a: LocalPoint, b: LocalPoint) => {
+    const lenSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+    if (lenSq === 0) return localDistance(p, a);
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / lenSq));
+    return localDistance(p, { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+};
+
+const pointInRing = (p: LocalPoint, ring: LocalPoint[]) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const pi = ring[i];
+        const pj = ring[j];
+        if ((pi.y > p.y) !== (pj.y > p.y) && p.x < ((pj.x - pi.x) * (p.y - pi.y)) / (pj.y - pi.y) + pi.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+const forEachRingEdge = (rings: LocalPoint[][], fn: (a: LocalPoint, b: LocalPoint) => boolean | void) => {
+    for (const ring of rings) {
+        for (let i = 0; i < ring.length; i++) {
+            if (fn(ring[i], ring[(i + 1) % ring.length]) === true) return true;
+        }
+    }
+    return false;
+};
+
+// rings[0] is the outer boundary, any further rings are holes. Points on the boundary count as inside.
+const isInsideArea = (p: LocalPoint, rings: LocalPoint[][]) => {
+    if (forEachRingEdge(rings, (a, b) => distanceToSegment(p, a, b) < BOUNDARY_TOLERANCE_M)) return true;
+    if (!pointInRing(p, rings[0])) return false;
+    return !rings.slice(1).some(hole => pointInRing(p, hole));
+};
 
-        const getIntersection = (y: number, p1: {x:number, y:number}, p2: {x:number, y:number}) => {
-            if ((p1.y > y && p2.y > y) || (p1.y < y && p2.y < y)) return null;
-            if (p1.y === p2.y) return null; 
-            const t = (y - p1.y) / (p2.y - p1.y);
-            const x = p1.x + t * (p2.x - p1.x);
-            return { x, y };
-        };
-
-        const finalMetric: {x: number, y: number, isEffort: boolean}[] = [];
-        let curY = minY + (laneSpacing / 2);
-        let lIdx = 0;
-        while (curY < maxY) {
-            const intersections = [];
-            for (let i = 0; i < rotatedCoords.length; i++) {
-                const p1 = rotatedCoords[i];
-                const p2 = rotatedCoords[(i + 1) % rotatedCoords.length];
-                const inter = getIntersection(curY, p1, p2);
-                if (inter) intersections.push(inter);
+const isSegmentInside = (a: LocalPoint, b: LocalPoint, rings: LocalPoint[][]) => {
+    if (forEachRingEdge(rings, (c, d) => segmentsCross(a, b, c, d))) return false;
+    return [0.25, 0.5, 0.75].every(t => isInsideArea({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) }, rings));
+};
+
+/**
+ * Shortest path inside the area between two points, using a visibility graph over the ring vertices.
+ * Returns only the intermediate vertices (empty when the straight segment already stays inside).
+ */
+const createInteriorRouter = (rings: LocalPoint[][]) => {
+    const nodes = rings.flat();
+    let visibility: number[][] | null = null;
+
+    const buildVisibility = () => {
+        const matrix = nodes.map(() => nodes.map(() => Infinity));
+        for (let i = 0; i < nodes.length; i++) {
+            for (let j = i + 1; j < nodes.length; j++) {
+                if (isSegmentInside(nodes[i], nodes[j], rings)) {
+                    matrix[i][j] = matrix[j][i] = localDistance(nodes[i], nodes[j]);
+                }
             }
-            intersections.sort((a, b) => a.x - b.x);
-            for (let i = 0; i < intersections.length - 1; i += 2) {
-                const pS = intersections[i];
-                const pE = intersections[i+1];
-                let lineWps = [{...pS, isEffort: true}, {...pE, isEffort: true}];
-                if (lIdx % 2 !== 0) lineWps.reverse();
-                
-                if (finalMetric.length > 0) {
-                    const connector = {...lineWps[0], isEffort: false};
-                    finalMetric.push(connector);
-                    finalMetric.push({...lineWps[0], isEffort: true});
-                    finalMetric.push({...lineWps[1], isEffort: true});
-                } else {
-                    finalMetric.push(lineWps[0]);
-                    finalMetric.push(lineWps[1]);
+        }
+        return matrix;
+    };
+
+    return (from: LocalPoint, to: LocalPoint): LocalPoint[] => {
+        if (isSegmentInside(from, to, rings)) return [];
+        if (!visibility) visibility = buildVisibility();
+        const graph = visibility;
+
+        const toTarget = nodes.map(n => isSegmentInside(n, to, rings) ? localDistance(n, to) : Infinity);
+        const dist = nodes.map(n => isSegmentInside(from, n, rings) ? localDistance(from, n) : Infinity);
+        const prev: number[] = nodes.map(() => -1);
+        const done: boolean[] = nodes.map(() => false);
+
+        let bestTotal = Infinity;
+        let bestLast = -1;
+        for (let iter = 0; iter < nodes.length; iter++) {
+            let u = -1;
+            for (let i = 0; i < nodes.length; i++) {
+                if (!done[i] && (u === -1 || dist[i] < dist[u])) u = i;
+            }
+            if (u === -1 || dist[u] === Infinity || dist[u] >= bestTotal) break;
+            done[u] = true;
+            if (dist[u] + toTarget[u] < bestTotal) {
+                bestTotal = dist[u] + toTarget[u];
+                bestLast = u;
+            }
+            for (let v = 0; v < nodes.length; v++) {
+                if (!done[v] && dist[u] + graph[u][v] < dist[v]) {
+                    dist[v] = dist[u] + graph[u][v];
+                    prev[v] = u;
                 }
             }
-            curY += laneSpacing;
-            lIdx++;
         }
 
-        return finalMetric.map(p => {
-            const revRadVal = toRad(angle);
-            const xRot = p.x * Math.cos(revRadVal) - p.y * Math.sin(revRadVal);
-            const yRot = p.x * Math.sin(revRadVal) + p.y * Math.cos(revRadVal);
-            const ll = projectFromLocalCartesian(xRot, yRot, centerLat, centerLng);
-            return { ...ll, isEffort: p.isEffort };
-        });
+        // Unreachable (degenerate ring): fall back to the direct connector
+        if (bestLast === -1) return [];
+        const path: LocalPoint[] = [];
+        for (let i = bestLast; i !== -1; i = prev[i]) path.unshift(nodes[i]);
+        return path;
     };
+};
 
-    let finalPoints = generatePass(rotationAngle);
-    if (settings.mappingPattern === 'crosshatch') {
-        const pass2 = generatePass(rotationAngle + 90);
-        if (finalPoints.length > 0 && pass2.length > 0) {
-            const connector = { ...pass2[0], isEffort: false };
-            finalPoints = [...finalPoints, connector, ...pass2];
-        } else {
-            finalPoints = [...finalPoints, ...pass2];
+type Lane = [LocalPoint, LocalPoint];
+
+/**
+ * Boustrophedon decomposition: lanes are cut from the rotated rings one scanline at a time and
+ * grouped into cells. A lane continues a cell only when it overlaps exactly one lane of the
+ * previous scanline and that lane overlaps nothing else; any split or merge opens a new cell.
+ * Lane endpoints are returned in the unrotated local frame, ordered left to right.
+ */
+const decomposeIntoCells = (rings: LocalPoint[][], angle: number, laneSpacing: number): Lane[][] => {
+    const rotatedRings = rings.map(ring => ring.map(p => rotateLocal(p, -angle)));
+
+    let minY = Infinity, maxY = -Infinity;
+    rotatedRings[0].forEach(p => {
+        if (p.y < minY) minY = p.y;
+        if (p.y > maxY) maxY = p.y;
+    });
+
+    const cells: { y: number, x0: number, x1: number }[][] = [];
+    let prevSegments: { x0: number, x1: number, cell: number }[] = [];
+
+    for (let curY = minY + (laneSpacing / 2); curY < maxY; curY += laneSpacing) {
+        const xs: number[] = [];
+        rotatedRings.forEach(ring => {
+            for (let i = 0; i < ring.length; i++) {
+                const p1 = ring[i];
+                const p2 = ring[(i + 1) % ring.length];
+                // Half-open rule so a vertex lying on the scanline is counted once
+                if ((p1.y <= curY && p2.y > curY) || (p2.y <= curY && p1.y > curY)) {
+                    xs.push(p1.x + ((curY - p1.y) / (p2.y - p1.y)) * (p2.x - p1.x));
+                }
+            }
+        });
+        xs.sort((a, b) => a - b);
+
+        const segments: { x0: number, x1: number, cell: number }[] = [];
+        for (let i = 0; i < xs.length - 1; i += 2) {
+            if (xs[i + 1] - xs[i] > GEOMETRY_EPSILON) segments.push({ x0: xs[i], x1: xs[i + 1], cell: -1 });
         }
+
+        const overlaps = (a: { x0: number, x1: number }, b: { x0: number, x1: number }) => Math.max(a.x0, b.x0) < Math.min(a.x1, b.x1);
+        segments.forEach(seg => {
+            const above = prevSegments.filter(p => overlaps(p, seg));
+            if (above.length === 1 && segments.filter(s => overlaps(above[0], s)).length === 1) {
+                seg.cell = above[0].cell;
+            } else {
+                seg.cell = cells.length;
+                cells.push([]);
+            }
+            cells[seg.cell].push({ y: curY, x0: seg.x0, x1: seg.x1 });
+        });
+        prevSegments = segments;
     }
 
-    if (finalPoints.length === 0) return polygonCoords.map(p => ({lat: p.lat, lng: p.lng, isEffort: true}));
+    return cells.map(cell => cell.map(seg => [
+        rotateLocal({ x: seg.x0, y: seg.y }, angle),
+        rotateLocal({ x: seg.x1, y: seg.y }, angle)
+    ] as Lane));
+};
+
+// Serpentine through one cell, entering from its first or last lane and from either side
+const traverseCell = (cell: Lane[], fromLast: boolean, startReversed: boolean): Lane[] => {
+    const lanes = fromLast ? [...cell].reverse() : cell;
+    return lanes.map((lane, i) => ((i % 2 === 0) !== startReversed ? lane : [lane[1], lane[0]] as Lane));
+};
+
+// Covers the cells one at a time, always moving on to the cell entry nearest to the current position
+const orderCells = (cells: Lane[][]): Lane[] => {
+    if (cells.length === 0) return [];
+    const ordered = traverseCell(cells[0], false, false);
+    const remaining = cells.slice(1);
+
+    while (remaining.length > 0) {
+        const current = ordered[ordered.length - 1][1];
+        let best = { index: 0, lanes: [] as Lane[], dist: Infinity };
+        remaining.forEach((cell, index) => {
+            [[false, false], [false, true], [true, false], [true, true]].forEach(([fromLast, startReversed]) => {
+                const lanes = traverseCell(cell, fromLast, startReversed);
+                const dist = localDistance(current, lanes[0][0]);
+                if (dist < best.dist) best = { index, lanes, dist };
+            });
+        });
+        ordered.push(...best.lanes);
+        remaining.splice(best.index, 1);
+    }
+    return ordered;
+};
+
+export const generateGridWaypoints = (
+  polygonCoords: { lat: number; lng: number }[],
+  settings: FlightSettings,
+  rotationAngle: number,
+  exclusionZones: { lat: number; lng: number }[][] = []
+): ( { lat: number, lng: number, isEffort: boolean } )[] => {
+    const outerRing = stripClosingPoint(polygonCoords);
+    if (outerRing.length < 3) return polygonCoords.map(p => ({...p, isEffort: true}));
+    
+    const turfPolyCoords = outerRing.map(p => [p.lng, p.lat]);
+    turfPolyCoords.push(turfPolyCoords[0]);
+    const turfPoly = createPolygon([turfPolyCoords]);
+    const centroid = turf.centroid(turfPoly);
+    const centerLng = centroid.geometry.coordinates[0];
+    const centerLat = centroid.geometry.coordinates[1];
+
+    const holes = exclusionZones.map(stripClosingPoint).filter(zone => zone.length >= 3);
+    const rings = [outerRing, ...holes].map(ring => ring.map(p => projectToLocalCartesian(p.lat, p.lng, centerLat, centerLng)));
+    
+    const { laneSpacing } = calculateMappingFootprint(settings);
+
+    if (laneSpacing <= 0.1) return polygonCoords.map(p => ({lat: p.lat, lng: p.lng, isEffort: true}));
+
+    const lanes = orderCells(decomposeIntoCells(rings, rotationAngle, laneSpacing));
+    if (settings.mappingPattern === 'crosshatch') {
+        lanes.push(...orderCells(decomposeIntoCells(rings, rotationAngle + 90, laneSpacing)));
+    }
+
+    // Each lane is preceded by a non-effort copy of its start, with any detour vertices in between
+    const routeInside = createInteriorRouter(rings);
+    const finalMetric: (LocalPoint & { isEffort: boolean })[] = [];
+    lanes.forEach(([start, end]) => {
+        if (finalMetric.length > 0) {
+            const last = finalMetric[finalMetric.length - 1];
+            routeInside(last, start).forEach(p => finalMetric.push({ ...p, isEffort: false }));
+            finalMetric.push({ ...start, isEffort: false });
+        }
+        finalMetric.push({ ...start, isEffort: true });
+        finalMetric.push({ ...end, isEffort: true });
+    });
+
+    if (finalMetric.length === 0) return polygonCoords.map(p => ({lat: p.lat, lng: p.lng, isEffort: true}));
+    return finalMetric.map(p => ({
+        ...projectFromLocalCartesian(p.x, p.y, centerLat, centerLng),
+        isEffort: p.isEffort
+    }));
+};
+
+const COINCIDENT_WAYPOINT_M = 0.01;
+
+/** Distance between two waypoints including the altitude step, in meters. */
+export const waypointSpacing = (a: Waypoint, b: Waypoint) =>
+    Math.hypot(calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude), b.altitude - a.altitude);
+
+/**
+ * Grid and corridor connectors end on a copy of the next lane start so the map can tell transit from
+ * effort legs. Missions reject waypoints that close together, so exporters keep only the lane start.
+ */
+export const dropCoincidentWaypoints = (waypoints: Waypoint[]): Waypoint[] =>
+    waypoints.filter((wp, idx) => idx === waypoints.length - 1 || waypointSpacing(wp, waypoints[idx + 1]) >= COINCIDENT_WAYPOINT_M);
+
+// Number of parallel corridor lines: the configured count, or enough lanes to span the corridor width
+export const getCorridorLineCount = (settings: FlightSettings): number => {
+    if (settings.corridorLines > 0) return Math.round(settings.corridorLines);
+    const { footprintWidth, laneSpacing } = calculateMappingFootprint(settings);
+    if (laneSpacing <= 0.1) return 1;
+    return Math.max(1, Math.ceil((settings.corridorWidth - footprintWidth) / laneSpacing) + 1);
+};
+
+// Distance between corridor lines, spread so the outer footprints reach the corridor edges.
+// More than the lane spacing means less side overlap than configured.
+export const getCorridorLineSpacing = (settings: FlightSettings): number => {
+    const lineCount = getCorridorLineCount(settings);
+    if (lineCount < 2) return 0;
+    const { footprintWidth } = calculateMappingFootprint(settings);
+    return Math.max(settings.corridorWidth - footprintWidth, 0) / (lineCount - 1);
+};
+
+export const buildCorridorBuffer = (path: { lat: number; lng: number }[], width: number): { lat: number; lng: number }[] => {
+    if (path.length < 2 || width <= 0) return [];
+    const buffered = turf.buffer(createLineString(path.map(p => [p.lng, p.lat])), width / 2, { units: 'meters' });
+    const geom = buffered?.geometry;
+    if (!geom) return [];
+    const ring = geom.type === 'Polygon' ? geom.coordinates[0] : geom.coordinates[0][0];
+    return ring.map(c => ({ lat: c[1], lng: c[0] }));
+};
+
+/**
+ * Corridor mapping: parallel lines spread across the corridor width around the centerline,
+ * flown as a serpentine so each line follows the path's curvature.
+ */
+export const generateCorridorWaypoints = (
+    path: { lat: number; lng: number }[],
+    settings: FlightSettings
+): ( { lat: number, lng: number, isEffort: boolean } )[] => {
+    if (path.length < 2) return path.map(p => ({ ...p, isEffort: true }));
+
+    const lineCount = getCorridorLineCount(settings);
+    const lineSpacing = getCorridorLineSpacing(settings);
+    const centerline = createLineString(path.map(p => [p.lng, p.lat]));
+
+    const finalPoints: { lat: number, lng: number, isEffort: boolean }[] = [];
+    for (let i = 0; i < lineCount; i++) {
+        const offset = (i - (lineCount - 1) / 2) * lineSpacing;
+        const line = Math.abs(offset) < 0.01 ? centerline : turf.lineOffset(centerline, offset, { units: 'meters' });
+        let coords = line.geometry.coordinates.map(c => ({ lat: c[1], lng: c[0] }));
+        if (i % 2 !== 0) coords = coords.reverse();
+
+        if (finalPoints.length > 0) {
+            finalPoints.push({ ...coords[0], isEffort: false });
+        }
+        coords.forEach(c => finalPoints.push({ ...c, isEffort: true }));
+    }
     return finalPoints;
 };
 
+/**
+ * Vertical serpentine in front of a wall (start -> end). Rows climb from facadeBaseAltitude to
+ * facadeTopAltitude, the drone stands off facadeStandoff meters on facadeSide (looking from start
+ * to end) and every stop faces the wall with the gimbal level. Spacing comes from the camera
+ * footprint at the standoff distance and the two overlap settings.
+ */
+export const generateFacadeWaypoints = (
+    start: { lat: number; lng: number },
+    end: { lat: number; lng: number },
+    settings: FlightSettings
+): Waypoint[] => {
+    const wallLength = calculateDistance(start.lat, start.lng, end.lat, end.lng);
+    const wallBearing = calculateBearing(start.lat, start.lng, end.lat, end.lng);
+    const outward = (wallBearing + (settings.facadeSide === 'right' ? 90 : 270)) % 360;
+    const facing = (outward + 180) % 360;
+
+    const standoff = Math.max(1, settings.facadeStandoff);
+    const { laneSpacing, photoSpacing } = calculateMappingFootprint(settings, standoff);
+    const base = Math.min(settings.facadeBaseAltitude, settings.facadeTopAltitude);
+    const height = Math.abs(settings.facadeTopAltitude - settings.facadeBaseAltitude);
+
+    // Evenly spread so both wall ends and both altitude limits get a stop
+    const columns = laneSpacing > 0.1 ? Math.ceil(wallLength / laneSpacing) + 1 : 2;
+    const rows = photoSpacing > 0.1 ? Math.ceil(height / photoSpacing) + 1 : 1;
+    const columnStep = columns > 1 ? wallLength / (columns - 1) : 0;
+    const rowStep = rows > 1 ? height / (rows - 1) : 0;
+
+    const waypoints: Waypoint[] = [];
+    for (let row = 0; row < rows; row++) {
+        const altitude = base + row * rowStep;
+        for (let c = 0; c < columns; c++) {
+            const column = row % 2 === 0 ? c : columns - 1 - c;
+            const onWall = computeDestinationPoint(start.lat, start.lng, column * columnStep, wallBearing);
+            const pos = computeDestinationPoint(onWall.lat, onWall.lng, standoff, outward);
+
+            waypoints.push({
+                id: waypoints.length + 1,
+                latitude: pos.lat,
+                longitude: pos.lng,
+                altitude: parseFloat(altitude.toFixed(1)),
+                heading: parseFloat(facing.toFixed(2)),
+                curveSize: 0,
+                rotationDir: 0,
+                gimbalMode: 2, // Litchi: interpolate, keeps the pitch fixed at every stop
+                gimbalPitch: 0,
+                actionType1: 1,
+                actionParam1: 0,
+                actionType2: -1,
+                actionParam2: 0,
+                altitudeMode: settings.altitudeMode,
+                speed: parseFloat((settings.speedKmh / 3.6).toFixed(2)),
+                poiLat: 0,
+                poiLon: 0,
+                poiAlt: 0,
+                poiAltMode: 0,
+                photoTimeInterval: -1,
+                photoDistInterval: -1,
+                isEffort: true
+            });
+        }
+    }
+    return waypoints;
+};
+
 export const estimateRouteStats = (routes: Route[], settings: FlightSettings, filterId: string | 'all'): RouteStats => {
     let totalDist = 0;
     let totalTime = 0; 
@@ -368,3 +727,60 @@ export const estimateRouteStats = (routes: Route[], settings: FlightSettings, fi
         swapPoints
     };
 };
+
+const countTurns = (waypoints: Waypoint[], thresholdDeg = 30): number => {
+    let turns = 0;
+    let lastBearing: number | null = null;
+    for (let i = 0; i < waypoints.length - 1; i++) {
+        const w1 = waypoints[i];
+        const w2 = waypoints[i + 1];
+        if (calculateDistance(w1.latitude, w1.longitude, w2.latitude, w2.longitude) < 0.5) continue;
+        const bearing = calculateBearing(w1.latitude, w1.longitude, w2.latitude, w2.longitude);
+        if (lastBearing !== null) {
+            const delta = Math.abs(((bearing - lastBearing + 540) % 360) - 180);
+            if (delta > thresholdDeg) turns++;
+        }
+        lastBearing = bearing;
+    }
+    return turns;
+};
+
+/**
+ * Sweeps grid angles for a mapping route and ranks them by batteries, then flight time.
+ * Each candidate goes through generateGridWaypoints and estimateRouteStats exactly like an applied grid.
+ */
+export const rankGridRotations = (route: Route, settings: FlightSettings, stepDeg = 5): GridRotationCandidate[] => {
+    if (!route.originalPolygon || route.waypoints.length === 0) return [];
+
+    const candidates: GridRotationCandidate[] = [];
+    for (let angle = 0; angle < 360; angle += stepDeg) {
+        const coords = generateGridWaypoints(route.originalPolygon, settings, angle, route.exclusionZones);
+        const waypoints: Waypoint[] = coords.map((c, idx) => ({
+            ...route.waypoints[0],
+            id: idx + 1,
+            latitude: c.lat,
+            longitude: c.lng,
+            isEffort: c.isEffort
+        }));
+
+        let pathLength = 0;
+        for (let i = 0; i < waypoints.length - 1; i++) {
+            pathLength += calculateDistance(waypoints[i].latitude, waypoints[i].longitude, waypoints[i + 1].latitude, waypoints[i + 1].longitude);
+        }
+
+        const stats = estimateRouteStats([{ ...route, waypoints }], settings, route.id);
+        candidates.push({
+            angle,
+            pathLength,
+            turns: countTurns(waypoints),
+            totalTimeMinutes: stats.totalTimeMinutes,
+            batteryCount: stats.batteryCount
+        });
+    }
+
+    return candidates.sort((a, b) =>
+        a.batteryCount - b.batteryCount ||
+        a.totalTimeMinutes - b.totalTimeMinutes ||
+        a.turns - b.turns
+    );
+};
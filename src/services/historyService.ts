@@ -0,0 +1,64 @@
+import { Route, RouteHistory, HistoryEntry } from '../types';
+
+export const MAX_HISTORY = 100;
+const MERGE_WINDOW_MS = 1500;
+
+export const createHistory = (routes: Route[] = []): RouteHistory => ({ present: routes, past: [], future: [] });
+
+// Updaters map over the routes and return untouched (e.g. locked) routes as-is
+const isUnchanged = (prev: Route[], next: Route[]) =>
+    prev === next || (prev.length === next.length && prev.every((r, i) => r === next[i]));
+
+/**
+ * Applies an update to the present routes and records the previous state for undo.
+ * No-op updates leave the history untouched; a new change clears the redo stack.
+ */
+export const recordChange = (
+    history: RouteHistory,
+    update: (prev: Route[]) => Route[],
+    labelKey: string,
+    options: { detail?: string; mergeKey?: string } = {}
+): RouteHistory => {
+    const next = update(history.present);
+    if (isUnchanged(history.present, next)) return history;
+
+    const now = Date.now();
+    const last = history.past[history.past.length - 1];
+    if (options.mergeKey && last?.mergeKey === options.mergeKey && history.future.length === 0 && now - last.timestamp < MERGE_WINDOW_MS) {
+        // Keep the state from before the first edit of the burst
+        return { present: next, past: [...history.past.slice(0, -1), { ...last, detail: options.detail ?? last.detail, timestamp: now }], future: [] };
+    }
+
+    const entry: HistoryEntry = { labelKey, detail: options.detail, routes: history.present, timestamp: now, mergeKey: options.mergeKey };
+    return { present: next, past: [...history.past, entry].slice(-MAX_HISTORY), future: [] };
+};
+
+export const undoHistory = (history: RouteHistory): RouteHistory => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return history;
+    return {
+        present: entry.routes,
+        past: history.past.slice(0, -1),
+        future: [{ ...entry, routes: history.present, mergeKey: undefined }, ...history.future]
+    };
+};
+
+export const redoHistory = (history: RouteHistory): RouteHistory => {
+    const entry = history.future[0];
+    if (!entry) return history;
+    return {
+        present: entry.routes,
+        past: [...history.past, { ...entry, routes: history.present }],
+        future: history.future.slice(1)
+    };
+};
+
+/** Undoes back to before past[index], or redoes up to and including future[index]. */
+export const jumpToHistory = (history: RouteHistory, stack: 'past' | 'future', index: number): RouteHistory => {
+    let result = history;
+    const steps = stack === 'past' ? history.past.length - index : index + 1;
+    for (let i = 0; i < steps; i++) {
+        result = stack === 'past' ? undoHistory(result) : redoHistory(result);
+    }
+    return result;
+};
@@ -0,0 +1,148 @@
+import JSZip from 'jszip';
+import FileSaver from 'file-saver';
+
+// Handle FileSaver import for both ESM and UMD environments
+const saveAs = (FileSaver as any).saveAs || FileSaver;
+
+export interface FileFilter {
+  name: string;
+  extensions: string[]; // Without the dot
+}
+
+export interface ExportFile {
+  name: string;
+  data: Blob | string;
+}
+
+export interface ControllerMission {
+  uuid: string;
+  size: number; // bytes
+  modifiedAt: number; // epoch ms
+  preview: string | null; // Data URL of DJI Fly's map thumbnail
+}
+
+// Offline tile source registered in the main process, served on dfp-tiles://<id>/{z}/{x}/{y}
+export interface LocalTileSourceInfo {
+  id: string;
+  name: string;
+  format: string;
+  minZoom: number;
+  maxZoom: number;
+  bounds: [[number, number], [number, number]] | null; // [[south, west], [north, east]]
+}
+
+interface DesktopFile {
+  path: string;
+  name: string;
+  data: Uint8Array;
+}
+
+/** API exposed by preload.cjs when running inside the Electron shell. */
+interface DesktopBridge {
+  openFiles(options: { filters: FileFilter[]; multiple: boolean }): Promise<DesktopFile[]>;
+  saveFile(options: { defaultName: string; filters: FileFilter[]; data: Uint8Array }): Promise<string | null>;
+  writeFile(filePath: string, data: Uint8Array): Promise<void>;
+  chooseFolder(): Promise<string | null>;
+  writeToFolder(folder: string, files: { name: string; data: Uint8Array }[]): Promise<string[]>;
+  getRecentFiles(): Promise<string[]>;
+  openRecentFile(filePath: string): Promise<DesktopFile>;
+  onOpenFile(callback: (file: DesktopFile) => void): () => void;
+  listControllerMissions(root: string): Promise<{ waypointDir: string; missions: ControllerMission[] }>;
+  replaceControllerMission(root: string, uuid: string, data: Uint8Array): Promise<{ kmzPath: string; backupPath: string }>;
+  openMbtiles(): Promise<LocalTileSourceInfo | null>;
+  openTileFolder(): Promise<LocalTileSourceInfo | null>;
+}
+
+const desktop: DesktopBridge | undefined = typeof window !== 'undefined' ? (window as any).dfpDesktop : undefined;
+
+export const isDesktop = !!desktop;
+
+// Files from the desktop bridge keep their disk path so they can be saved back in place
+export type PlatformFile = File & { path?: string };
+
+const toFile = (file: DesktopFile): PlatformFile =>
+  Object.assign(new File([file.data as BlobPart], file.name), { path: file.path });
+
+const toBytes = async (data: Blob | string) =>
+  new Uint8Array(await (typeof data === 'string' ? new Blob([data]) : data).arrayBuffer());
+
+export const fileNameOf = (filePath: string) => filePath.split(/[\\/]/).pop() || filePath;
+
+/** Native open dialog. Desktop only; the web build uses hidden file inputs. */
+export const openFilesDialog = async (filters: FileFilter[], multiple = false): Promise<PlatformFile[]> =>
+  desktop ? (await desktop.openFiles({ filters, multiple })).map(toFile) : [];
+
+/**
+ * Save-As dialog on desktop, a download in the browser. Returns the chosen path on desktop,
+ * null when cancelled or in the browser.
+ */
+export const saveFile = async (data: Blob | string, fileName: string, filters: FileFilter[] = []): Promise<string | null> => {
+  if (!desktop) {
+    saveAs(typeof data === 'string' ? new Blob([data]) : data, fileName);
+    return null;
+  }
+  return desktop.saveFile({ defaultName: fileName, filters, data: await toBytes(data) });
+};
+
+/** Overwrites a file previously opened or saved through a dialog. */
+export const writeFile = async (filePath: string, data: Blob | string) => {
+  if (!desktop) throw new Error('Direct file writes need the desktop app.');
+  await desktop.writeFile(filePath, await toBytes(data));
+};
+
+/**
+ * Writes each file into a folder the user picks (desktop), or bundles them into one
+ * zip download (browser). Returns the number of files written, 0 when cancelled.
+ */
+export const saveFiles = async (files: ExportFile[], zipName: string): Promise<number> => {
+  if (!desktop) {
+    const zip = new JSZip();
+    files.forEach(f => zip.file(f.name, f.data));
+    saveAs(await zip.generateAsync({ type: 'blob' }), zipName);
+    return files.length;
+  }
+
+  const folder = await desktop.chooseFolder();
+  if (!folder) return 0;
+  const payload = await Promise.all(files.map(async f => ({ name: f.name, data: await toBytes(f.data) })));
+  return (await desktop.writeToFolder(folder, payload)).length;
+};
+
+export const getRecentFiles = async (): Promise<string[]> => desktop ? desktop.getRecentFiles() : [];
+
+export const openRecentFile = async (filePath: string): Promise<PlatformFile> => {
+  if (!desktop) throw new Error('Recent files need the desktop app.');
+  return toFile(await desktop.openRecentFile(filePath));
+};
+
+/** Files opened from the OS (e.g. double-clicking a .dfpp). Returns an unsubscribe function. */
+export const onOpenFileRequest = (callback: (file: PlatformFile) => void): (() => void) =>
+  desktop ? desktop.onOpenFile(file => callback(toFile(file))) : () => {};
+
+/** Picks the controller storage (or any folder laid out like it). Desktop only. */
+export const chooseControllerRoot = async (): Promise<string | null> => desktop ? desktop.chooseFolder() : null;
+
+export const listControllerMissions = async (root: string) => {
+  if (!desktop) throw new Error('Sending to the controller needs the desktop app.');
+  return desktop.listControllerMissions(root);
+};
+
+/** Backs up the mission's KMZ, then overwrites it with the given one. */
+export const replaceControllerMission = async (root: string, uuid: string, kmz: Blob) => {
+  if (!desktop) throw new Error('Sending to the controller needs the desktop app.');
+  return desktop.replaceControllerMission(root, uuid, await toBytes(kmz));
+};
+
+/** Picks an MBTiles file and serves its tiles. Desktop only; returns null when cancelled. */
+export const openMbtiles = async (): Promise<LocalTileSourceInfo | null> => {
+  if (!desktop) throw new Error('MBTiles basemaps need the desktop app.');
+  return desktop.openMbtiles();
+};
+
+/** Picks a {z}/{x}/{y} tile folder and serves its tiles. Desktop only; returns null when cancelled. */
+export const openTileFolder = async (): Promise<LocalTileSourceInfo | null> => {
+  if (!desktop) throw new Error('Tile folders need the desktop app.');
+  return desktop.openTileFolder();
+};
+
+export const localTileUrl = (sourceId: string) => `dfp-tiles://${sourceId}/{z}/{x}/{y}`;
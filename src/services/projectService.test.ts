@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../types';
+import { PROJECT_SCHEMA_VERSION, parseProject } from './projectService';
+
+describe('parseProject', () => {
+    it('migrates a version 1 workspace save', () => {
+        const v1 = {
+            settings: { altitude: 75 },
+            routes: [{ id: 'r1', name: 'Survey', color: '#ff5722', homePoint: { lat: -26.3, lng: -48.6 }, waypoints: [{ id: 1, latitude: -26.3, longitude: -48.6 }] }]
+        };
+        const doc = parseProject(JSON.stringify(v1), 'field');
+
+        expect(doc.format).toBe('dfpp');
+        expect(doc.schemaVersion).toBe(PROJECT_SCHEMA_VERSION);
+        expect(doc.metadata.name).toBe('field');
+        expect(doc.settings).toEqual({ ...DEFAULT_SETTINGS, altitude: 75 });
+        expect(doc.routes[0].locked).toBe(false);
+        expect(doc.routes[0].waypoints[0]).toMatchObject({ id: 1, actionType1: -1, photoTimeInterval: -1 });
+    });
+
+    it('rejects projects from a newer schema', () => {
+        const doc = { format: 'dfpp', schemaVersion: PROJECT_SCHEMA_VERSION + 1, routes: [] };
+        expect(() => parseProject(JSON.stringify(doc))).toThrow(/newer version/);
+    });
+
+    it.each([
+        ['no routes', { format: 'dfpp', schemaVersion: 2 }],
+        ['routes that are not a list', { format: 'dfpp', schemaVersion: 2, routes: {} }],
+        ['a route without waypoints', { format: 'dfpp', schemaVersion: 2, routes: [{ id: 'r1' }] }],
+        ['a route that is not an object', { routes: [null] }],
+        ['waypoints that are not a list', { routes: [{ id: 'r1', waypoints: 'none' }] }],
+        ['settings that are not an object', { format: 'dfpp', schemaVersion: 2, settings: 'x', routes: [] }],
+        ['metadata that is not an object', { format: 'dfpp', schemaVersion: 2, metadata: [], routes: [] }],
+        ['schema version 0', { format: 'dfpp', schemaVersion: 0, routes: [] }]
+    ])('rejects a document with %s', (_label, doc) => {
+        expect(() => parseProject(JSON.stringify(doc))).toThrow(Error);
+        expect(() => parseProject(JSON.stringify(doc))).not.toThrow(TypeError);
+    });
+});
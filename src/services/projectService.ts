@@ -0,0 +1,136 @@
+import { Route, Waypoint, FlightSettings, DEFAULT_SETTINGS, ProjectDocument, ProjectMetadata } from '../types';
+import { saveFile, writeFile, FileFilter } from './platformService';
+
+export const PROJECT_FILE_EXTENSION = '.dfpp';
+export const PROJECT_FILE_FILTER: FileFilter = { name: 'Flight planner project', extensions: ['dfpp'] };
+
+/**
+ * Schema history:
+ * 1 - bare { routes, settings } as written by the first workspace saves (no version field)
+ * 2 - { format: 'dfpp', schemaVersion, metadata, settings, routes }
+ */
+export const PROJECT_SCHEMA_VERSION = 2;
+
+const WAYPOINT_DEFAULTS: Omit<Waypoint, 'id' | 'latitude' | 'longitude'> = {
+  altitude: DEFAULT_SETTINGS.altitude,
+  heading: 0,
+  curveSize: 0,
+  rotationDir: 0,
+  gimbalMode: 0,
+  gimbalPitch: 0,
+  actionType1: -1,
+  actionParam1: 0,
+  actionType2: -1,
+  actionParam2: 0,
+  altitudeMode: 0,
+  speed: 0,
+  poiLat: 0,
+  poiLon: 0,
+  poiAlt: 0,
+  poiAltMode: 0,
+  photoTimeInterval: -1,
+  photoDistInterval: -1
+};
+
+export const createProjectMetadata = (name = ''): ProjectMetadata => {
+  const now = new Date().toISOString();
+  return { name, author: '', siteName: '', notes: '', createdAt: now, updatedAt: now };
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Early saves predate some waypoint columns and the lock flag; anything malformed is left for parseProject to reject
+const migrateV1Route = (r: any) => {
+  if (!isObject(r)) return r;
+  const waypoints = r.waypoints ?? [];
+  return {
+    ...r,
+    locked: !!r.locked,
+    waypoints: Array.isArray(waypoints) ? waypoints.map((wp: any) => ({ ...WAYPOINT_DEFAULTS, ...wp })) : waypoints
+  };
+};
+
+// Each step upgrades a document from version N to N + 1
+const MIGRATIONS: Record<number, (doc: any, fallbackName: string) => any> = {
+  1: (doc, fallbackName) => ({
+    format: 'dfpp',
+    schemaVersion: 2,
+    metadata: createProjectMetadata(fallbackName),
+    settings: doc.settings || {},
+    routes: Array.isArray(doc.routes) ? doc.routes.map(migrateV1Route) : doc.routes
+  })
+};
+
+const getSchemaVersion = (doc: any): number => {
+  if (doc.format === 'dfpp' && typeof doc.schemaVersion === 'number') {
+    if (!Number.isInteger(doc.schemaVersion) || doc.schemaVersion < 1) throw new Error(`Unknown project schema version ${doc.schemaVersion}.`);
+    return doc.schemaVersion;
+  }
+  if (Array.isArray(doc.routes)) return 1;
+  throw new Error('Not a flight planner project.');
+};
+
+/** Parses a project document of any known schema version and migrates it to the current one. */
+export const parseProject = (text: string, fallbackName = ''): ProjectDocument => {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error('Project file is not valid JSON.');
+  }
+  if (!doc || typeof doc !== 'object') throw new Error('Not a flight planner project.');
+
+  let version = getSchemaVersion(doc);
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project was saved by a newer version (schema ${version}, supported up to ${PROJECT_SCHEMA_VERSION}).`);
+  }
+  while (version < PROJECT_SCHEMA_VERSION) {
+    doc = MIGRATIONS[version](doc, fallbackName);
+    version = doc.schemaVersion;
+  }
+
+  if (!Array.isArray(doc.routes) || !doc.routes.every((r: unknown) => isObject(r) && Array.isArray(r.waypoints))) {
+    throw new Error('Project routes are missing or malformed.');
+  }
+  if (doc.settings !== undefined && !isObject(doc.settings)) throw new Error('Project settings are malformed.');
+  if (doc.metadata !== undefined && !isObject(doc.metadata)) throw new Error('Project metadata is malformed.');
+
+  // Map layers belong to the installation; never take them (or their HTML) from a project file
+  const { mapLayers: _mapLayers, ...settings } = doc.settings || {};
+
+  return {
+    format: 'dfpp',
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    metadata: { ...createProjectMetadata(fallbackName), ...doc.metadata },
+    settings: { ...DEFAULT_SETTINGS, ...settings },
+    routes: doc.routes as Route[]
+  };
+};
+
+export const createProjectDocument = (routes: Route[], settings: FlightSettings, metadata: ProjectMetadata): ProjectDocument => ({
+  format: 'dfpp',
+  schemaVersion: PROJECT_SCHEMA_VERSION,
+  metadata: { ...metadata, updatedAt: new Date().toISOString() },
+  settings,
+  routes
+});
+
+export const serializeProject = (doc: ProjectDocument) => JSON.stringify(doc);
+
+export const readProjectFile = async (file: File): Promise<ProjectDocument> =>
+  parseProject(await file.text(), file.name.replace(/\.(dfpp|json)$/i, ''));
+
+/**
+ * Writes over filePath when given (desktop), otherwise asks where to save. Returns the
+ * path the project now lives at, or null in the browser and when cancelled.
+ */
+export const saveProjectFile = async (doc: ProjectDocument, filePath?: string | null): Promise<string | null> => {
+  const data = JSON.stringify(doc, null, 2);
+  if (filePath) {
+    await writeFile(filePath, data);
+    return filePath;
+  }
+  const blob = new Blob([data], { type: 'application/json' });
+  return saveFile(blob, `${doc.metadata.name || 'flight_plan'}${PROJECT_FILE_EXTENSION}`, [PROJECT_FILE_FILTER]);
+};
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProjectSummary } from '../types';
+import { ProjectStorage, migrateLegacyProjects } from './storageService';
+
+const createMemoryStorage = (projects: (ProjectSummary & { data: string })[] = []): ProjectStorage & { projects: Map<string, ProjectSummary & { data: string }> } => {
+    const stored = new Map(projects.map(p => [p.name, p]));
+    return {
+        projects: stored,
+        async list() { return [...stored.values()].map(({ name, size, updatedAt }) => ({ name, size, updatedAt })); },
+        async load(name) { return stored.get(name)?.data ?? null; },
+        async save(name, data, updatedAt = Date.now()) {
+            const summary = { name, size: data.length, updatedAt };
+            stored.set(name, { ...summary, data });
+            return summary;
+        },
+        async remove(name) { stored.delete(name); },
+        async loadSession() { return null; },
+        async saveSession() {},
+        async clearSession() {}
+    };
+};
+
+// Like the browser's, Object.keys() lists the stored items
+const createLocalStorage = () => Object.defineProperties({} as Record<string, string>, {
+    getItem: { value(this: Record<string, string>, key: string) { return Object.hasOwn(this, key) ? this[key] : null; } },
+    setItem: { value(this: Record<string, string>, key: string, value: string) { this[key] = value; } },
+    removeItem: { value(this: Record<string, string>, key: string) { delete this[key]; } }
+});
+
+describe('migrateLegacyProjects', () => {
+    let local: Record<string, string>;
+
+    beforeEach(() => {
+        local = createLocalStorage();
+        vi.stubGlobal('localStorage', local);
+        return () => vi.unstubAllGlobals();
+    });
+
+    it('keeps the modification time of imported projects', async () => {
+        local['litchi_project_Farm'] = 'farm';
+        local['litchi_project_Farm:mtime'] = '1000';
+        const storage = createMemoryStorage();
+
+        await migrateLegacyProjects(storage);
+
+        expect(storage.projects.get('Farm')).toMatchObject({ data: 'farm', updatedAt: 1000 });
+        expect(Object.keys(local)).toEqual([]);
+    });
+
+    it('does not overwrite a newer project of the same name', async () => {
+        local['litchi_project_Farm'] = 'old';
+        local['litchi_project_Farm:mtime'] = '1000';
+        const storage = createMemoryStorage([{ name: 'Farm', size: 3, updatedAt: 2000, data: 'new' }]);
+
+        await migrateLegacyProjects(storage);
+
+        expect(storage.projects.get('Farm')).toMatchObject({ data: 'new', updatedAt: 2000 });
+        expect(storage.projects.get('Farm (2)')).toMatchObject({ data: 'old', updatedAt: 1000 });
+    });
+
+    it('lets a newer fallback copy take the name and keeps the older one', async () => {
+        local['litchi_project_Farm'] = 'new';
+        local['litchi_project_Farm:mtime'] = '3000';
+        const storage = createMemoryStorage([
+            { name: 'Farm', size: 3, updatedAt: 2000, data: 'old' },
+            { name: 'Farm (2)', size: 5, updatedAt: 1500, data: 'other' }
+        ]);
+
+        await migrateLegacyProjects(storage);
+
+        expect(storage.projects.get('Farm')).toMatchObject({ data: 'new', updatedAt: 3000 });
+        expect(storage.projects.get('Farm (3)')).toMatchObject({ data: 'old', updatedAt: 2000 });
+        expect(storage.projects.get('Farm (2)')?.data).toBe('other');
+    });
+
+    it('keeps the localStorage copy when saving fails', async () => {
+        local['litchi_project_Farm'] = 'farm';
+        const storage = createMemoryStorage();
+        storage.save = async () => { throw new Error('quota'); };
+
+        await expect(migrateLegacyProjects(storage)).rejects.toThrow('quota');
+        expect(local['litchi_project_Farm']).toBe('farm');
+    });
+});
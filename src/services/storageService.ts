@@ -0,0 +1,206 @@
+import { CustomMapLayer, ProjectSummary } from '../types';
+
+const DB_NAME = 'dji-fly-planner';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const SESSION_STORE = 'session';
+const SESSION_KEY = 'current';
+
+const LEGACY_PREFIX = 'litchi_project_';
+const LEGACY_SESSION_KEY = 'dfp_session';
+const MAP_LAYERS_KEY = 'dfp_map_layers';
+
+/** Workspace persistence. Project and session data are serialized .dfpp documents. */
+export interface ProjectStorage {
+  list(): Promise<ProjectSummary[]>;
+  load(name: string): Promise<string | null>;
+  save(name: string, data: string, updatedAt?: number): Promise<ProjectSummary>;
+  remove(name: string): Promise<void>;
+  loadSession(): Promise<{ data: string; savedAt: number } | null>;
+  saveSession(data: string): Promise<void>;
+  clearSession(): Promise<void>;
+}
+
+interface StoredProject extends ProjectSummary {
+  data: string;
+}
+
+const byteSize = (data: string) => new Blob([data]).size;
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE, { keyPath: 'name' });
+    if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('Storage is blocked by another open tab.'));
+});
+
+export const createIndexedDbStorage = (): ProjectStorage => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const store = async (name: string, mode: IDBTransactionMode) => {
+    dbPromise = dbPromise || openDatabase();
+    return (await dbPromise).transaction(name, mode).objectStore(name);
+  };
+
+  return {
+    async list() {
+      const all = await promisify((await store(PROJECT_STORE, 'readonly')).getAll()) as StoredProject[];
+      return all.map(({ name, size, updatedAt }) => ({ name, size, updatedAt }));
+    },
+    async load(name) {
+      const project = await promisify((await store(PROJECT_STORE, 'readonly')).get(name)) as StoredProject | undefined;
+      return project?.data ?? null;
+    },
+    async save(name, data, updatedAt = Date.now()) {
+      const summary = { name, size: byteSize(data), updatedAt };
+      await promisify((await store(PROJECT_STORE, 'readwrite')).put({ ...summary, data }));
+      return summary;
+    },
+    async remove(name) {
+      await promisify((await store(PROJECT_STORE, 'readwrite')).delete(name));
+    },
+    async loadSession() {
+      return (await promisify((await store(SESSION_STORE, 'readonly')).get(SESSION_KEY))) ?? null;
+    },
+    async saveSession(data) {
+      await promisify((await store(SESSION_STORE, 'readwrite')).put({ data, savedAt: Date.now() }, SESSION_KEY));
+    },
+    async clearSession() {
+      await promisify((await store(SESSION_STORE, 'readwrite')).delete(SESSION_KEY));
+    }
+  };
+};
+
+// Fallback for browsers without IndexedDB (e.g. some private modes), limited to ~5 MB
+export const createLocalStorage = (): ProjectStorage => ({
+  async list() {
+    return Object.keys(localStorage).filter(k => k.startsWith(LEGACY_PREFIX) && !k.endsWith(':mtime')).map(k => {
+      const data = localStorage.getItem(k) || '';
+      return { name: k.replace(LEGACY_PREFIX, ''), size: byteSize(data), updatedAt: Number(localStorage.getItem(`${k}:mtime`)) || 0 };
+    });
+  },
+  async load(name) {
+    return localStorage.getItem(`${LEGACY_PREFIX}${name}`);
+  },
+  async save(name, data, updatedAt = Date.now()) {
+    localStorage.setItem(`${LEGACY_PREFIX}${name}`, data);
+    localStorage.setItem(`${LEGACY_PREFIX}${name}:mtime`, String(updatedAt));
+    return { name, size: byteSize(data), updatedAt };
+  },
+  async remove(name) {
+    localStorage.removeItem(`${LEGACY_PREFIX}${name}`);
+    localStorage.removeItem(`${LEGACY_PREFIX}${name}:mtime`);
+  },
+  async loadSession() {
+    const stored = localStorage.getItem(LEGACY_SESSION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  },
+  async saveSession(data) {
+    localStorage.setItem(LEGACY_SESSION_KEY, JSON.stringify({ data, savedAt: Date.now() }));
+  },
+  async clearSession() {
+    localStorage.removeItem(LEGACY_SESSION_KEY);
+  }
+});
+
+const freeName = (name: string, taken: Set<string>) => {
+  let n = 2;
+  while (taken.has(`${name} (${n})`)) n++;
+  return `${name} (${n})`;
+};
+
+/**
+ * Moves projects saved by earlier versions, or while IndexedDB was unavailable, from localStorage into the
+ * given storage. When both hold a project of the same name, the newer copy keeps it and the older one is
+ * kept under a numbered name.
+ */
+export const migrateLegacyProjects = async (storage: ProjectStorage) => {
+  const existing = new Map((await storage.list()).map(p => [p.name, p] as const));
+  const taken = new Set(existing.keys());
+  const keys = Object.keys(localStorage).filter(k => k.startsWith(LEGACY_PREFIX) && !k.endsWith(':mtime'));
+  for (const key of keys) {
+    const data = localStorage.getItem(key);
+    if (data !== null) {
+      const name = key.replace(LEGACY_PREFIX, '');
+      // The oldest saves carry no time stamp; they lose any name conflict
+      const updatedAt = Number(localStorage.getItem(`${key}:mtime`)) || 0;
+      const current = existing.get(name);
+      const currentData = current ? await storage.load(name) : null;
+
+      if (currentData === null) {
+        await storage.save(name, data, updatedAt || undefined);
+        taken.add(name);
+      } else if (currentData !== data) {
+        const older = freeName(name, taken);
+        taken.add(older);
+        if (updatedAt > current!.updatedAt) {
+          await storage.save(older, currentData, current!.updatedAt);
+          await storage.save(name, data, updatedAt);
+        } else {
+          await storage.save(older, data, updatedAt);
+        }
+      }
+    }
+    localStorage.removeItem(key);
+    localStorage.removeItem(`${key}:mtime`);
+  }
+};
+
+export const openProjectStorage = async (): Promise<ProjectStorage> => {
+  if (typeof indexedDB === 'undefined') return createLocalStorage();
+  try {
+    const storage = createIndexedDbStorage();
+    await storage.list(); // Fails early when the database cannot be opened
+    await migrateLegacyProjects(storage);
+    return storage;
+  } catch (e) {
+    console.warn('IndexedDB unavailable, falling back to localStorage', e);
+    return createLocalStorage();
+  }
+};
+
+const LAYER_TYPES: CustomMapLayer['type'][] = ['xyz', 'wms', 'wmts'];
+
+/** Layer manager entries are kept per installation, outside any project or session. */
+export const loadMapLayers = (): CustomMapLayer[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(MAP_LAYERS_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .filter(l => l && typeof l === 'object' && LAYER_TYPES.includes(l.type) && /^https?:\/\//i.test(String(l.url)))
+      .map((l): CustomMapLayer => ({
+        id: String(l.id),
+        name: String(l.name ?? ''),
+        type: l.type,
+        url: String(l.url),
+        layers: String(l.layers ?? ''),
+        style: String(l.style ?? ''),
+        tileMatrixSet: String(l.tileMatrixSet ?? ''),
+        format: String(l.format ?? 'image/png'),
+        attribution: String(l.attribution ?? ''),
+        opacity: Math.min(1, Math.max(0.1, Number(l.opacity) || 1)),
+        overlay: !!l.overlay,
+        active: !!l.active
+      }));
+  } catch (e) {
+    console.warn('Ignoring unreadable map layers', e);
+    return [];
+  }
+};
+
+export const saveMapLayers = (layers: CustomMapLayer[]) => {
+  try {
+    localStorage.setItem(MAP_LAYERS_KEY, JSON.stringify(layers));
+  } catch (e) {
+    console.error('Could not save map layers', e);
+  }
+};
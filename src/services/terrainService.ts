@@ -0,0 +1,200 @@
+import { fromArrayBuffer } from 'geotiff';
+import { ElevationGrid, FlightSettings, HomePoint, Waypoint } from '../types';
+import { calculateDistance } from './geometryService';
+
+const METERS_PER_DEGREE_LAT = 111320;
+const MAX_REFINE_DEPTH = 8;
+
+const assertGeographic = (grid: ElevationGrid): ElevationGrid => {
+    const south = grid.originLat - grid.height * grid.cellSizeLat;
+    const east = grid.originLng + grid.width * grid.cellSizeLng;
+    if (Math.abs(grid.originLat) > 90 || Math.abs(south) > 90 || Math.abs(grid.originLng) > 180 || Math.abs(east) > 180) {
+        throw new Error('DEM must use WGS84 geographic coordinates (EPSG:4326).');
+    }
+    return grid;
+};
+
+// ESRI ASCII grid (.asc): "key value" header lines followed by rows from north to south
+const parseAsciiGrid = (text: string, name: string): ElevationGrid => {
+    const lines = text.split(/\r?\n/);
+    const header: Record<string, number> = {};
+    let dataStart = 0;
+    for (; dataStart < lines.length; dataStart++) {
+        const match = lines[dataStart].trim().match(/^([a-zA-Z_]+)\s+(\S+)$/);
+        if (!match) break;
+        header[match[1].toLowerCase()] = parseFloat(match[2]);
+    }
+
+    const width = header.ncols;
+    const height = header.nrows;
+    const cellSize = header.cellsize;
+    if (!width || !height || !cellSize) throw new Error('Invalid ASCII grid header (ncols, nrows and cellsize are required).');
+
+    const xll = header.xllcorner ?? header.xllcenter - cellSize / 2;
+    const yll = header.yllcorner ?? header.yllcenter - cellSize / 2;
+    if (isNaN(xll) || isNaN(yll)) throw new Error('Invalid ASCII grid header (missing lower-left corner).');
+
+    const tokens = lines.slice(dataStart).join(' ').trim().split(/\s+/);
+    if (tokens.length < width * height) throw new Error(`ASCII grid has ${tokens.length} values, expected ${width * height}.`);
+
+    const values = new Float32Array(width * height);
+    for (let i = 0; i < values.length; i++) values[i] = parseFloat(tokens[i]);
+
+    return assertGeographic({
+        name,
+        width,
+        height,
+        originLng: xll,
+        originLat: yll + height * cellSize,
+        cellSizeLng: cellSize,
+        cellSizeLat: cellSize,
+        noData: header.nodata_value ?? null,
+        values
+    });
+};
+
+const parseGeoTiff = async (buffer: ArrayBuffer, name: string): Promise<ElevationGrid> => {
+    const tiff = await fromArrayBuffer(buffer);
+    const image = await tiff.getImage();
+
+    // GTModelTypeGeoKey: 1 = projected, 2 = geographic
+    if (image.getGeoKeys()?.GTModelTypeGeoKey === 1) {
+        throw new Error('Projected GeoTIFFs are not supported. Reproject the DEM to WGS84 (EPSG:4326).');
+    }
+
+    const [originLng, originLat] = image.getOrigin();
+    const [resX, resY] = image.getResolution();
+    const raster = await image.readRasters({ samples: [0], interleave: true });
+
+    return assertGeographic({
+        name,
+        width: image.getWidth(),
+        height: image.getHeight(),
+        originLng,
+        originLat,
+        cellSizeLng: Math.abs(resX),
+        cellSizeLat: Math.abs(resY),
+        noData: image.getGDALNoData(),
+        values: Float32Array.from(raster as ArrayLike<number>)
+    });
+};
+
+export const loadElevationFile = async (file: File): Promise<ElevationGrid> => {
+    const ext = file.name.split('.').pop()?.toLowerCase();
+    if (ext === 'asc') return parseAsciiGrid(await file.text(), file.name);
+    if (ext === 'tif' || ext === 'tiff') return parseGeoTiff(await file.arrayBuffer(), file.name);
+    throw new Error(`Unsupported DEM format ".${ext}". Use GeoTIFF (.tif) or ASCII grid (.asc).`);
+};
+
+/**
+ * Bilinear ground elevation between cell centers. Returns null outside the raster
+ * or where every surrounding cell is NoData.
+ */
+export const sampleElevation = (grid: ElevationGrid, lat: number, lng: number): number | null => {
+    const col = (lng - grid.originLng) / grid.cellSizeLng - 0.5;
+    const row = (grid.originLat - lat) / grid.cellSizeLat - 0.5;
+    if (col < -0.5 || row < -0.5 || col > grid.width - 0.5 || row > grid.height - 0.5) return null;
+
+    const c0 = Math.max(0, Math.min(grid.width - 1, Math.floor(col)));
+    const r0 = Math.max(0, Math.min(grid.height - 1, Math.floor(row)));
+    const c1 = Math.min(c0 + 1, grid.width - 1);
+    const r1 = Math.min(r0 + 1, grid.height - 1);
+    const fx = Math.max(0, Math.min(1, col - c0));
+    const fy = Math.max(0, Math.min(1, row - r0));
+
+    let sum = 0;
+    let weightSum = 0;
+    [[r0, c0, (1 - fx) * (1 - fy)], [r0, c1, fx * (1 - fy)], [r1, c0, (1 - fx) * fy], [r1, c1, fx * fy]].forEach(([r, c, w]) => {
+        const v = grid.values[r * grid.width + c];
+        if (w <= 0 || isNaN(v) || v === grid.noData) return;
+        sum += v * w;
+        weightSum += w;
+    });
+
+    return weightSum > 0 ? sum / weightSum : null;
+};
+
+type GroundPoint = { lat: number; lng: number; ground: number | null };
+
+/**
+ * Splits a leg where the terrain departs from a straight line between its ends by more
+ * than the tolerance, recursively at the point of largest deviation.
+ */
+const refineLeg = (a: GroundPoint, b: GroundPoint, grid: ElevationGrid, stepMeters: number, tolerance: number, depth = 0): GroundPoint[] => {
+    if (a.ground === null || b.ground === null || depth >= MAX_REFINE_DEPTH) return [];
+    const dist = calculateDistance(a.lat, a.lng, b.lat, b.lng);
+    const samples = Math.floor(dist / stepMeters);
+    if (samples < 1) return [];
+
+    let worst: GroundPoint | null = null;
+    let worstDeviation = tolerance;
+    for (let i = 1; i <= samples; i++) {
+        const f = i / (samples + 1);
+        const lat = a.lat + f * (b.lat - a.lat);
+        const lng = a.lng + f * (b.lng - a.lng);
+        const ground = sampleElevation(grid, lat, lng);
+        if (ground === null) continue;
+        const deviation = Math.abs(ground - (a.ground + f * (b.ground - a.ground)));
+        if (deviation > worstDeviation) {
+            worstDeviation = deviation;
+            worst = { lat, lng, ground };
+        }
+    }
+
+    if (!worst) return [];
+    return [
+        ...refineLeg(a, worst, grid, stepMeters, tolerance, depth + 1),
+        worst,
+        ...refineLeg(worst, b, grid, stepMeters, tolerance, depth + 1)
+    ];
+};
+
+/**
+ * Keeps the flight altitude (settings.altitude) constant above ground. Relative altitudes are
+ * measured from the ground at the home point; absolute mode uses the DEM elevation directly.
+ * Waypoints outside the DEM keep their altitude. Inserted waypoints carry no actions.
+ */
+export const applyTerrainFollow = (
+    waypoints: Waypoint[],
+    homePoint: HomePoint,
+    grid: ElevationGrid,
+    settings: FlightSettings
+): Waypoint[] => {
+    if (waypoints.length === 0) return waypoints;
+
+    const withGround = waypoints.map(wp => ({ wp, ground: sampleElevation(grid, wp.latitude, wp.longitude) }));
+    const homeGround = sampleElevation(grid, homePoint.lat, homePoint.lng) ?? withGround.find(p => p.ground !== null)?.ground ?? 0;
+    const reference = settings.altitudeMode === 1 ? 0 : homeGround;
+
+    const stepMeters = Math.max(5, grid.cellSizeLat * METERS_PER_DEGREE_LAT);
+    const tolerance = Math.max(0.5, settings.terrainTolerance);
+    const toAltitude = (ground: number | null, fallback: number) =>
+        ground === null ? fallback : parseFloat((settings.altitude + ground - reference).toFixed(1));
+
+    const result: Waypoint[] = [];
+    withGround.forEach(({ wp, ground }, i) => {
+        result.push({ ...wp, altitude: toAltitude(ground, wp.altitude) });
+
+        const next = withGround[i + 1];
+        if (!next) return;
+        const extra = refineLeg(
+            { lat: wp.latitude, lng: wp.longitude, ground },
+            { lat: next.wp.latitude, lng: next.wp.longitude, ground: next.ground },
+            grid, stepMeters, tolerance
+        );
+        extra.forEach(p => result.push({
+            ...wp,
+            latitude: p.lat,
+            longitude: p.lng,
+            altitude: toAltitude(p.ground, wp.altitude),
+            actionType1: -1,
+            actionParam1: 0,
+            actionType2: -1,
+            actionParam2: 0,
+            extraActions: undefined,
+            isEffort: wp.isEffort && next.wp.isEffort
+        }));
+    });
+
+    return result.map((wp, idx) => ({ ...wp, id: idx + 1 }));
+};
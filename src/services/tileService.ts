@@ -0,0 +1,299 @@
+import { fromArrayBuffer } from 'geotiff';
+import { LocalMapLayer, CustomMapLayer } from '../types';
+import { generateId } from './fileService';
+import { LocalTileSourceInfo, localTileUrl } from './platformService';
+
+// Tiles live in their own database so the project store can change versions independently
+const DB_NAME = 'dji-fly-planner-tiles';
+const DB_VERSION = 1;
+const TILE_STORE = 'tiles';
+
+// Bulk downloads are hard on free tile servers; keep a prefetch to a site, not a region
+export const MAX_PREFETCH_TILES = 5000;
+const PREFETCH_CONCURRENCY = 4;
+const MAX_OVERLAY_SIZE = 4096; // px, longest side of a GeoTIFF rendered as an overlay
+
+export interface OnlineBasemap {
+  key: string; // Cache key
+  labelKey: string; // Translation key
+  url: string;
+  attribution: string;
+  subdomains?: string;
+}
+
+export const ONLINE_BASEMAPS: OnlineBasemap[] = [
+  {
+    key: 'carto_voyager',
+    labelKey: 'map_layer_street',
+    url: 'https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png',
+    attribution: '&copy; <a href="https://carto.com/attributions">CARTO</a>',
+    subdomains: 'abcd'
+  },
+  {
+    key: 'esri_imagery',
+    labelKey: 'map_layer_sat',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri'
+  }
+];
+
+/**
+ * Leaflet URL template for XYZ and WMTS layers (WMS has its own layer type). WMTS REST
+ * templates get their placeholders mapped, KVP endpoints get a GetTile query.
+ */
+export const customLayerUrl = (layer: CustomMapLayer) => {
+  if (layer.type === 'xyz') return layer.url;
+  if (/\{TileMatrix\}/i.test(layer.url)) {
+    return layer.url
+      .replace(/\{Layer\}/gi, layer.layers)
+      .replace(/\{TileMatrixSet\}/gi, layer.tileMatrixSet)
+      .replace(/\{Style\}/gi, layer.style)
+      .replace(/\{TileMatrix\}/gi, '{z}')
+      .replace(/\{TileRow\}/gi, '{y}')
+      .replace(/\{TileCol\}/gi, '{x}');
+  }
+  const params = new URLSearchParams({
+    SERVICE: 'WMTS',
+    REQUEST: 'GetTile',
+    VERSION: '1.0.0',
+    LAYER: layer.layers,
+    STYLE: layer.style || 'default',
+    TILEMATRIXSET: layer.tileMatrixSet,
+    FORMAT: layer.format
+  });
+  // Leaflet fills the placeholders, so they must stay unescaped
+  return `${layer.url}${layer.url.includes('?') ? '&' : '?'}${params.toString()}&TILEMATRIX={z}&TILEROW={y}&TILECOL={x}`;
+};
+
+export interface TileCoord {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface LatLngBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const tileStore = async (mode: IDBTransactionMode) => {
+  dbPromise = dbPromise || new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(TILE_STORE)) request.result.createObjectStore(TILE_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return (await dbPromise).transaction(TILE_STORE, mode).objectStore(TILE_STORE);
+};
+
+const tileKey = (basemapKey: string, { z, x, y }: TileCoord) => `${basemapKey}/${z}/${x}/${y}`;
+const basemapRange = (basemapKey: string) => IDBKeyRange.bound(`${basemapKey}/`, `${basemapKey}/\uffff`);
+
+export const getCachedTile = async (basemapKey: string, coord: TileCoord): Promise<Blob | undefined> =>
+  promisify((await tileStore('readonly')).get(tileKey(basemapKey, coord)));
+
+export const countCachedTiles = async (basemapKey: string): Promise<number> =>
+  promisify((await tileStore('readonly')).count(basemapRange(basemapKey)));
+
+export const clearTileCache = async (basemapKey: string) => {
+  await promisify((await tileStore('readwrite')).delete(basemapRange(basemapKey)));
+};
+
+export const tileUrl = (basemap: OnlineBasemap, { z, x, y }: TileCoord) => {
+  const subdomains = basemap.subdomains || 'abc';
+  return basemap.url
+    .replace('{s}', subdomains[(x + y) % subdomains.length])
+    .replace('{r}', '')
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+};
+
+// Web Mercator tile indices, see https://wiki.openstreetmap.org/wiki/Slippy_map_tilenames
+const lngToTileX = (lng: number, z: number) => Math.floor(((lng + 180) / 360) * 2 ** z);
+const latToTileY = (lat: number, z: number) => {
+  const rad = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z);
+};
+
+const tileRange = (box: LatLngBox, z: number) => {
+  const max = 2 ** z - 1;
+  const clamp = (n: number) => Math.max(0, Math.min(max, n));
+  return {
+    minX: clamp(lngToTileX(box.west, z)),
+    maxX: clamp(lngToTileX(box.east, z)),
+    minY: clamp(latToTileY(box.north, z)),
+    maxY: clamp(latToTileY(box.south, z))
+  };
+};
+
+export const countTilesInBox = (box: LatLngBox, minZoom: number, maxZoom: number) => {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(box, z);
+    count += (r.maxX - r.minX + 1) * (r.maxY - r.minY + 1);
+  }
+  return count;
+};
+
+export const tilesInBox = (box: LatLngBox, minZoom: number, maxZoom: number): TileCoord[] => {
+  const tiles: TileCoord[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(box, z);
+    for (let x = r.minX; x <= r.maxX; x++) {
+      for (let y = r.minY; y <= r.maxY; y++) tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+};
+
+/**
+ * Downloads the tiles of a basemap into the offline cache, skipping the ones already there.
+ * Failed tiles are counted, not retried. Stops early when the signal aborts.
+ */
+export const prefetchTiles = async (
+  basemap: OnlineBasemap,
+  tiles: TileCoord[],
+  onProgress: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<{ saved: number; failed: number }> => {
+  if (tiles.length > MAX_PREFETCH_TILES) throw new Error(`Too many tiles (${tiles.length}, max ${MAX_PREFETCH_TILES}). Zoom in or lower the max zoom.`);
+
+  let next = 0;
+  let done = 0;
+  let saved = 0;
+  let failed = 0;
+
+  const worker = async () => {
+    while (next < tiles.length && !signal?.aborted) {
+      const coord = tiles[next++];
+      try {
+        if (!(await getCachedTile(basemap.key, coord))) {
+          const response = await fetch(tileUrl(basemap, coord), { signal });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          const blob = await response.blob();
+          await promisify((await tileStore('readwrite')).put(blob, tileKey(basemap.key, coord)));
+          saved++;
+        }
+      } catch {
+        if (!signal?.aborted) failed++;
+      }
+      onProgress(++done, tiles.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: PREFETCH_CONCURRENCY }, worker));
+  return { saved, failed };
+};
+
+export const tileSourceToLayer = (source: LocalTileSourceInfo, kind: 'mbtiles' | 'folder'): LocalMapLayer => ({
+  id: source.id,
+  name: source.name,
+  kind,
+  url: localTileUrl(source.id),
+  bounds: source.bounds,
+  minZoom: source.minZoom,
+  maxZoom: source.maxZoom
+});
+
+const WORLD_FILE_EXTENSIONS = ['wld', 'pgw', 'pngw', 'jgw', 'jpgw', 'tfw'];
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg'];
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+const assertWgs84 = (bounds: [[number, number], [number, number]], name: string) => {
+  const [[south, west], [north, east]] = bounds;
+  if (![south, north].every(v => Math.abs(v) <= 90) || ![west, east].every(v => Math.abs(v) <= 180)) {
+    throw new Error(`${name} is not in WGS84 degrees (EPSG:4326).`);
+  }
+  return bounds;
+};
+
+/**
+ * World file: x pixel size, 2 rotation terms, y pixel size (negative), then the center of the
+ * upper-left pixel. Rotated images cannot be shown as a Leaflet image overlay.
+ */
+const parseWorldFile = (text: string, width: number, height: number, name: string): [[number, number], [number, number]] => {
+  const [sizeX, rotY, rotX, sizeY, centerX, centerY] = text.trim().split(/\s+/).map(Number);
+  if ([sizeX, rotY, rotX, sizeY, centerX, centerY].some(n => n === undefined || isNaN(n))) throw new Error(`${name} is not a valid world file.`);
+  if (rotX !== 0 || rotY !== 0) throw new Error(`${name} describes a rotated image, which is not supported.`);
+
+  const west = centerX - sizeX / 2;
+  const north = centerY - sizeY / 2;
+  return assertWgs84([[north + sizeY * height, west], [north, west + sizeX * width]], name);
+};
+
+const renderGeoTiff = async (file: File): Promise<{ url: string; bounds: [[number, number], [number, number]] }> => {
+  const tiff = await fromArrayBuffer(await file.arrayBuffer());
+  const image = await tiff.getImage();
+
+  // GTModelTypeGeoKey: 1 = projected, 2 = geographic
+  if (image.getGeoKeys()?.GTModelTypeGeoKey === 1) {
+    throw new Error('Projected GeoTIFFs are not supported. Reproject the image to WGS84 (EPSG:4326).');
+  }
+  const [west, south, east, north] = image.getBoundingBox();
+  const bounds = assertWgs84([[south, west], [north, east]], file.name);
+
+  const scale = Math.min(1, MAX_OVERLAY_SIZE / Math.max(image.getWidth(), image.getHeight()));
+  const width = Math.round(image.getWidth() * scale);
+  const height = Math.round(image.getHeight() * scale);
+  const samples = image.getSamplesPerPixel();
+  const bits = image.getBitsPerSample();
+  const raster = await image.readRasters({ interleave: true, width, height }) as unknown as ArrayLike<number>;
+  const divisor = bits > 8 ? 2 ** (bits - 8) : 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available.');
+  const pixels = ctx.createImageData(width, height);
+  for (let i = 0; i < width * height; i++) {
+    const px = i * samples;
+    const r = raster[px] / divisor;
+    const g = samples >= 3 ? raster[px + 1] / divisor : r;
+    const b = samples >= 3 ? raster[px + 2] / divisor : r;
+    pixels.data.set([r, g, b, samples === 4 || samples === 2 ? raster[px + samples - 1] / divisor : 255], i * 4);
+  }
+  ctx.putImageData(pixels, 0, 0);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error(`Could not render ${file.name}.`);
+  return { url: URL.createObjectURL(blob), bounds };
+};
+
+/**
+ * Georeferenced image overlay from a WGS84 GeoTIFF, or a PNG/JPEG picked together with
+ * its world file (.pgw, .jgw, .wld). The returned layer owns an object URL.
+ */
+export const loadImageOverlay = async (files: File[]): Promise<LocalMapLayer> => {
+  const tiff = files.find(f => ['tif', 'tiff'].includes(extensionOf(f.name)));
+  const name = (tiff || files[0]).name.replace(/\.[^.]+$/, '');
+
+  if (tiff) {
+    const { url, bounds } = await renderGeoTiff(tiff);
+    return { id: generateId(), name, kind: 'image', url, bounds };
+  }
+
+  const imageFile = files.find(f => IMAGE_EXTENSIONS.includes(extensionOf(f.name)));
+  const worldFile = files.find(f => WORLD_FILE_EXTENSIONS.includes(extensionOf(f.name)));
+  if (!imageFile || !worldFile) throw new Error('Pick a GeoTIFF, or a PNG/JPEG together with its world file (.pgw, .jgw, .wld).');
+
+  const bitmap = await createImageBitmap(imageFile);
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  const bounds = parseWorldFile(await worldFile.text(), width, height, worldFile.name);
+  return { id: generateId(), name: imageFile.name.replace(/\.[^.]+$/, ''), kind: 'image', url: URL.createObjectURL(imageFile), bounds };
+};
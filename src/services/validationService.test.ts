@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, ExportTarget, FlightSettings, Route, Waypoint } from '../types';
+import { dropCoincidentWaypoints, generateCorridorWaypoints, generateFacadeWaypoints, generateGridWaypoints, waypointSpacing } from './geometryService';
+import { PLATFORM_LIMITS, getPlatformLimits, validateRoute } from './validationService';
+
+const settings: FlightSettings = { ...DEFAULT_SETTINGS, flightMode: 'mapping', altitude: 60, selectedDroneModel: 'DJI Mavic 3 Classic / Mavic 3' };
+
+const polygon = [
+    { lat: -26.300, lng: -48.600 },
+    { lat: -26.300, lng: -48.597 },
+    { lat: -26.302, lng: -48.597 },
+    { lat: -26.302, lng: -48.600 }
+];
+
+// Same waypoint model App builds for drawn routes
+const toRoute = (coords: { lat: number; lng: number; isEffort: boolean }[], speed: number): Route => ({
+    id: 'route',
+    name: 'Route',
+    color: '#ff5722',
+    locked: false,
+    homePoint: { lat: coords[0].lat - 0.0001, lng: coords[0].lng },
+    waypoints: coords.map((c, idx): Waypoint => ({
+        id: idx + 1,
+        latitude: c.lat,
+        longitude: c.lng,
+        altitude: settings.altitude,
+        heading: 0,
+        curveSize: 0,
+        rotationDir: 0,
+        gimbalMode: 0,
+        gimbalPitch: -90,
+        actionType1: 1,
+        actionParam1: 0,
+        actionType2: -1,
+        actionParam2: 0,
+        altitudeMode: 0,
+        speed,
+        poiLat: 0,
+        poiLon: 0,
+        poiAlt: 0,
+        poiAltMode: 0,
+        photoTimeInterval: -1,
+        photoDistInterval: -1,
+        isEffort: c.isEffort
+    }))
+});
+
+// Shortest leg of the sequence the mission exporters write
+const shortestLeg = (route: Route) => {
+    const exported = dropCoincidentWaypoints(route.waypoints);
+    return Math.min(...exported.slice(1).map((wp, idx) => waypointSpacing(exported[idx], wp)));
+};
+
+const errorsOf = (route: Route, target: ExportTarget, model = settings.selectedDroneModel) =>
+    validateRoute(route, { ...settings, selectedDroneModel: model }, target).filter(issue => issue.severity === 'error');
+
+describe('validateRoute', () => {
+    const targets = Object.keys(PLATFORM_LIMITS) as ExportTarget[];
+
+    it.each(targets)('accepts a generated mapping grid for %s', target => {
+        const route = toRoute(generateGridWaypoints(polygon, settings, 0), 5);
+        expect(errorsOf(route, target)).toEqual([]);
+        expect(shortestLeg(route)).toBeGreaterThanOrEqual(PLATFORM_LIMITS[target].minSpacing);
+    });
+
+    it.each(targets)('accepts a generated corridor for %s', target => {
+        const path = [{ lat: -26.300, lng: -48.600 }, { lat: -26.301, lng: -48.598 }, { lat: -26.300, lng: -48.596 }];
+        const route = toRoute(generateCorridorWaypoints(path, { ...settings, flightMode: 'corridor', corridorWidth: 80 }), 5);
+        expect(errorsOf(route, target)).toEqual([]);
+        expect(shortestLeg(route)).toBeGreaterThanOrEqual(PLATFORM_LIMITS[target].minSpacing);
+    });
+
+    it('counts the altitude step between stacked facade waypoints', () => {
+        const wall = generateFacadeWaypoints({ lat: -26.300, lng: -48.600 }, { lat: -26.300, lng: -48.5995 }, { ...settings, facadeBaseAltitude: 10, facadeTopAltitude: 30 });
+        const route = { ...toRoute(wall.map(wp => ({ lat: wp.latitude, lng: wp.longitude, isEffort: true })), 5), waypoints: wall };
+        expect(errorsOf(route, 'litchi')).toEqual([]);
+        expect(shortestLeg(route)).toBeGreaterThanOrEqual(PLATFORM_LIMITS.litchi.minSpacing);
+    });
+
+    it('rejects coincident waypoints that exporters would keep', () => {
+        const route = toRoute([
+            { lat: -26.3, lng: -48.6, isEffort: true },
+            { lat: -26.3, lng: -48.6, isEffort: true }
+        ], 5);
+        route.waypoints[1].altitude += 0.2;
+        expect(errorsOf(route, 'dji_wpml').map(issue => issue.messageKey)).toEqual(['val_spacing']);
+    });
+
+    it('still rejects distinct waypoints closer than the minimum spacing', () => {
+        const route = toRoute([
+            { lat: -26.3, lng: -48.6, isEffort: true },
+            { lat: -26.3, lng: -48.600002, isEffort: true }
+        ], 5);
+        expect(errorsOf(route, 'litchi').map(issue => issue.messageKey)).toEqual(['val_spacing']);
+    });
+
+    it('caps speed and altitude with the selected drone', () => {
+        const route = toRoute(generateGridWaypoints(polygon, settings, 0), 12);
+        expect(errorsOf(route, 'litchi', 'DJI Mavic 3 Classic / Mavic 3')).toEqual([]);
+        expect(errorsOf(route, 'litchi', 'DJI Mini 2 SE / Mini 2 / SE').every(issue => issue.messageKey === 'val_speed')).toBe(true);
+        expect(errorsOf(route, 'litchi', 'DJI Mini 2 SE / Mini 2 / SE').length).toBe(dropCoincidentWaypoints(route.waypoints).length);
+
+        expect(getPlatformLimits('litchi', 'DJI Avata 2').maxSpeed).toBe(8);
+        expect(getPlatformLimits('dji_wpml', 'DJI Matrice 350 RTK (Zenmuse P1)').maxAltitude).toBe(PLATFORM_LIMITS.dji_wpml.maxAltitude);
+    });
+
+    it('leaves geometry-only formats unaffected by the drone', () => {
+        expect(getPlatformLimits('gpx', 'DJI Avata 2')).toBe(PLATFORM_LIMITS.gpx);
+    });
+});
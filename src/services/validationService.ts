@@ -0,0 +1,138 @@
+import { Route, FlightSettings, ExportTarget, ValidationIssue, DRONE_PRESETS } from '../types';
+import { calculateDistance, estimateRouteStats, dropCoincidentWaypoints, waypointSpacing } from './geometryService';
+import { getWaypointActions } from './actionService';
+import { t, Language } from '../translations';
+
+interface PlatformLimits {
+    minWaypoints: number;
+    maxWaypoints: number;
+    minSpeed: number; // m/s
+    maxSpeed: number; // m/s
+    minAltitude: number; // m, relative to takeoff
+    maxAltitude: number;
+    minSpacing: number; // m between consecutive waypoints
+    maxLegDistance: number; // m between consecutive waypoints
+    minGimbalPitch: number;
+    maxGimbalPitch: number;
+    maxHomeDistance: number; // m, warning only
+    minPhotoInterval: number; // s, timed shots
+    checkBatteries: boolean;
+    checkDrone: boolean; // Speed and altitude are also capped by the selected drone
+}
+
+const DJI_LIMITS: PlatformLimits = {
+    minWaypoints: 2,
+    maxWaypoints: Infinity,
+    minSpeed: 0.1,
+    maxSpeed: 15,
+    minAltitude: -200,
+    maxAltitude: 500,
+    minSpacing: 0.5,
+    maxLegDistance: Infinity,
+    minGimbalPitch: -90,
+    maxGimbalPitch: 30,
+    maxHomeDistance: 2000,
+    minPhotoInterval: 2,
+    checkBatteries: true,
+    checkDrone: true
+};
+
+// Geometry-only formats carry no flight parameters, so only the basics apply
+const GENERIC_LIMITS: PlatformLimits = {
+    ...DJI_LIMITS,
+    minWaypoints: 1,
+    minSpeed: -Infinity,
+    maxSpeed: Infinity,
+    minAltitude: -Infinity,
+    maxAltitude: Infinity,
+    minSpacing: 0,
+    minGimbalPitch: -Infinity,
+    maxGimbalPitch: Infinity,
+    maxHomeDistance: Infinity,
+    minPhotoInterval: 0,
+    checkBatteries: false,
+    checkDrone: false
+};
+
+export const PLATFORM_LIMITS: Record<ExportTarget, PlatformLimits> = {
+    litchi: { ...DJI_LIMITS, maxWaypoints: 99, maxLegDistance: 2000 }, // DJI SDK mission rules
+    dji_wpml: { ...DJI_LIMITS, minSpeed: 1, maxWaypoints: 200 },
+    qgc: { ...DJI_LIMITS, maxSpeed: 30, minGimbalPitch: -90, maxGimbalPitch: 90, minPhotoInterval: 0 },
+    dji_kml: GENERIC_LIMITS,
+    gpx: GENERIC_LIMITS,
+    geojson: GENERIC_LIMITS
+};
+
+/** Format limits of the target, tightened to the speed and altitude of the selected drone. */
+export const getPlatformLimits = (target: ExportTarget, droneModel: string): PlatformLimits => {
+    const limits = PLATFORM_LIMITS[target];
+    const drone = DRONE_PRESETS.find(d => d.model === droneModel);
+    if (!limits.checkDrone || !drone) return limits;
+    return {
+        ...limits,
+        maxSpeed: Math.min(limits.maxSpeed, drone.maxSpeedMs),
+        maxAltitude: Math.min(limits.maxAltitude, drone.maxAltitudeM)
+    };
+};
+
+/**
+ * Checks one route against the limits of an export target and the selected drone. Altitude limits only apply to
+ * waypoints relative to takeoff (altitudeMode 0); absolute altitudes depend on the terrain.
+ */
+export const validateRoute = (route: Route, settings: FlightSettings, target: ExportTarget): ValidationIssue[] => {
+    const limits = getPlatformLimits(target, settings.selectedDroneModel);
+    const issues: ValidationIssue[] = [];
+    const add = (severity: ValidationIssue['severity'], messageKey: string, values?: ValidationIssue['values'], waypointId?: number) =>
+        issues.push({ severity, routeId: route.id, waypointId, messageKey, values });
+    const fmt = (n: number) => Number(n.toFixed(1));
+
+    // The sequence the mission exporters write
+    const wps = dropCoincidentWaypoints(route.waypoints);
+    if (wps.length < limits.minWaypoints) add('error', 'val_too_few', { min: limits.minWaypoints });
+    if (wps.length > limits.maxWaypoints) add('error', 'val_too_many', { count: wps.length, max: limits.maxWaypoints });
+
+    wps.forEach((wp, idx) => {
+        if (wp.speed < limits.minSpeed || wp.speed > limits.maxSpeed) {
+            add('error', 'val_speed', { value: fmt(wp.speed), min: limits.minSpeed, max: limits.maxSpeed }, wp.id);
+        }
+        if (wp.altitudeMode === 0 && (wp.altitude < limits.minAltitude || wp.altitude > limits.maxAltitude)) {
+            add('error', 'val_altitude', { value: fmt(wp.altitude), min: limits.minAltitude, max: limits.maxAltitude }, wp.id);
+        }
+        if (wp.gimbalPitch < limits.minGimbalPitch || wp.gimbalPitch > limits.maxGimbalPitch) {
+            add('error', 'val_gimbal', { value: wp.gimbalPitch, min: limits.minGimbalPitch, max: limits.maxGimbalPitch }, wp.id);
+        }
+        getWaypointActions(wp).filter(a => a.type === 5).forEach(a => {
+            if (a.param < limits.minGimbalPitch || a.param > limits.maxGimbalPitch) {
+                add('error', 'val_gimbal', { value: a.param, min: limits.minGimbalPitch, max: limits.maxGimbalPitch }, wp.id);
+            }
+        });
+        if (wp.photoTimeInterval > 0 && wp.photoTimeInterval < limits.minPhotoInterval) {
+            add('warning', 'val_photo_interval', { value: fmt(wp.photoTimeInterval), min: limits.minPhotoInterval }, wp.id);
+        }
+
+        const prev = wps[idx - 1];
+        if (prev) {
+            const spacing = waypointSpacing(prev, wp);
+            if (spacing < limits.minSpacing) add('error', 'val_spacing', { value: fmt(spacing), min: limits.minSpacing }, wp.id);
+            const dist = calculateDistance(prev.latitude, prev.longitude, wp.latitude, wp.longitude);
+            if (dist > limits.maxLegDistance) add('error', 'val_leg', { value: Math.round(dist), max: limits.maxLegDistance }, wp.id);
+        }
+
+        const homeDist = calculateDistance(route.homePoint.lat, route.homePoint.lng, wp.latitude, wp.longitude);
+        if (homeDist > limits.maxHomeDistance) add('warning', 'val_home_distance', { value: Math.round(homeDist), max: limits.maxHomeDistance }, wp.id);
+    });
+
+    // Missions cannot pause for a swap; the pilot has to resume them by hand
+    if (limits.checkBatteries && wps.length > 0) {
+        const { batteryCount } = estimateRouteStats([route], settings, route.id);
+        if (batteryCount > 1) add('warning', 'val_batteries', { count: batteryCount });
+    }
+
+    return issues;
+};
+
+export const validateRoutes = (routes: Route[], settings: FlightSettings, target: ExportTarget): ValidationIssue[] =>
+    routes.flatMap(route => validateRoute(route, settings, target));
+
+export const formatIssue = (issue: ValidationIssue, lang: Language) =>
+    t(issue.messageKey, lang).replace(/\{(\w+)\}/g, (_, key) => String(issue.values?.[key] ?? ''));
@@ -12,12 +12,75 @@ export const t = (key: string, lang: Language): string => {
     "ruler_on": { en: "Ruler ON", pt: "Régua ATIVA" },
     "map_layer_street": { en: "Street Map", pt: "Mapa de Rua" },
     "map_layer_sat": { en: "Satellite", pt: "Satélite" },
+    "offline_maps": { en: "Offline Maps", pt: "Mapas Offline" },
+    "offline_folder": { en: "Tile folder", pt: "Pasta de tiles" },
+    "offline_image": { en: "Image", pt: "Imagem" },
+    "offline_mbtiles_hint": { en: "Raster MBTiles file as a basemap", pt: "Arquivo MBTiles raster como mapa base" },
+    "offline_folder_hint": { en: "Folder with {z}/{x}/{y}.png tiles as a basemap", pt: "Pasta com tiles {z}/{x}/{y}.png como mapa base" },
+    "offline_image_hint": { en: "WGS84 GeoTIFF, or PNG/JPEG with its world file (.pgw/.jgw/.wld)", pt: "GeoTIFF em WGS84, ou PNG/JPEG com seu world file (.pgw/.jgw/.wld)" },
+    "offline_desktop_only": { en: "MBTiles and tile folders need the desktop app.", pt: "MBTiles e pastas de tiles exigem o aplicativo desktop." },
+    "offline_prefetch": { en: "Prefetch for offline use", pt: "Baixar para uso offline" },
+    "offline_min_zoom": { en: "Min zoom", pt: "Zoom mín." },
+    "offline_max_zoom": { en: "Max zoom", pt: "Zoom máx." },
+    "offline_tiles_in_view": { en: "tiles in the visible area", pt: "tiles na área visível" },
+    "offline_prefetch_view": { en: "Prefetch visible area", pt: "Baixar área visível" },
+    "offline_cached": { en: "tiles cached", pt: "tiles em cache" },
+    "offline_clear": { en: "Clear cache", pt: "Limpar cache" },
+    "offline_clear_confirm": { en: "Delete all cached tiles of this map?", pt: "Excluir todos os tiles em cache deste mapa?" },
+    "photo_footprints": { en: "Photo footprints", pt: "Área das fotos" },
+    "photo_coverage": { en: "Photo overlap", pt: "Sobreposição das fotos" },
+    "coverage_legend": { en: "Photos per spot", pt: "Fotos por ponto" },
+    "coverage_photos": { en: "photos", pt: "fotos" },
+    "layer_manager": { en: "Map Layers", pt: "Camadas do Mapa" },
+    "layer_manager_hint": { en: "Your own XYZ, WMS and WMTS sources, saved in this app, not in projects. Overlays are drawn in list order.", pt: "Suas fontes XYZ, WMS e WMTS, salvas neste app, não nos projetos. Sobreposições são desenhadas na ordem da lista." },
+    "layer_none": { en: "No custom layers yet. Add one below.", pt: "Nenhuma camada personalizada. Adicione uma abaixo." },
+    "layer_name": { en: "Name", pt: "Nome" },
+    "layer_type": { en: "Type", pt: "Tipo" },
+    "layer_role": { en: "Role", pt: "Função" },
+    "layer_base": { en: "Base map", pt: "Mapa base" },
+    "layer_overlay": { en: "Overlay", pt: "Sobreposição" },
+    "layer_opacity": { en: "Opacity", pt: "Opacidade" },
+    "layer_active": { en: "On", pt: "Ativa" },
+    "layer_active_hint": { en: "Overlays: shown on the map. Base maps: selected when the map opens.", pt: "Sobreposições: exibidas no mapa. Mapas base: selecionado ao abrir o mapa." },
+    "layer_add": { en: "Add Layer", pt: "Adicionar Camada" },
+    "layer_edit": { en: "Edit Layer", pt: "Editar Camada" },
+    "layer_delete_confirm": { en: "Delete layer", pt: "Excluir camada" },
+    "layer_wms_layers": { en: "WMS layers (comma separated)", pt: "Camadas WMS (separadas por vírgula)" },
+    "layer_wmts_layer": { en: "WMTS layer", pt: "Camada WMTS" },
+    "layer_style": { en: "Style", pt: "Estilo" },
+    "layer_matrix_set": { en: "Tile matrix set", pt: "Tile matrix set" },
+    "layer_format": { en: "Format", pt: "Formato" },
+    "layer_attribution": { en: "Attribution", pt: "Atribuição" },
+    "layer_err_name": { en: "Give the layer a name.", pt: "Dê um nome à camada." },
+    "layer_err_url": { en: "The URL must start with http:// or https://.", pt: "A URL deve começar com http:// ou https://." },
+    "layer_err_xyz": { en: "XYZ URLs need {z}, {x} and {y} placeholders.", pt: "URLs XYZ precisam dos marcadores {z}, {x} e {y}." },
+    "layer_err_layers": { en: "Enter at least one WMS layer name.", pt: "Informe ao menos um nome de camada WMS." },
+    "layer_err_wmts": { en: "Enter the WMTS layer and tile matrix set, or use a REST URL with {TileMatrix}.", pt: "Informe a camada WMTS e o tile matrix set, ou use uma URL REST com {TileMatrix}." },
+    "exclusion_tool": { en: "Keep-out Zone", pt: "Zona de Exclusão" },
+    "exclusion_on": { en: "Drawing Keep-out", pt: "Desenhando Exclusão" },
+    "exclusion_zone": { en: "Keep-out Zone", pt: "Zona de Exclusão" },
+    "remove_zone": { en: "Remove Zone", pt: "Remover Zona" },
     
     // Workspace
     "workspaces": { en: "Workspaces", pt: "Áreas de Trabalho" },
     "project_name": { en: "Project Name...", pt: "Nome do Projeto..." },
     "save": { en: "Save", pt: "Salvar" },
     "saved_projects": { en: "Saved Projects:", pt: "Projetos Salvos:" },
+    "open_project_file": { en: "Open .dfpp", pt: "Abrir .dfpp" },
+    "save_project_file": { en: "Save .dfpp", pt: "Salvar .dfpp" },
+    "save_as": { en: "Save As...", pt: "Salvar Como..." },
+    "recent_files": { en: "Recent files", pt: "Arquivos recentes" },
+    "project_details": { en: "Project details", pt: "Detalhes do projeto" },
+    "project_author": { en: "Author", pt: "Autor" },
+    "project_site": { en: "Site name", pt: "Nome do local" },
+    "project_notes": { en: "Notes", pt: "Notas" },
+    "project_created": { en: "Created", pt: "Criado" },
+    "project_updated": { en: "Updated", pt: "Atualizado" },
+    "restore_session": { en: "Restore unsaved session?", pt: "Restaurar sessão não salva?" },
+    "restore_session_desc": { en: "The planner was closed with unsaved changes. An autosaved copy is available.", pt: "O planejador foi fechado com alterações não salvas. Há uma cópia salva automaticamente." },
+    "routes_label": { en: "routes", pt: "rotas" },
+    "restore": { en: "Restore", pt: "Restaurar" },
+    "discard": { en: "Discard", pt: "Descartar" },
     "load": { en: "Load", pt: "Carregar" },
     
     // Stats
@@ -39,9 +102,39 @@ export const t = (key: string, lang: Language): string => {
     // Route Actions
     "route_actions": { en: "Route Actions", pt: "Ações de Rota" },
     "import": { en: "Import", pt: "Importar" },
-    "undo_last": { en: "Undo Last", pt: "Desfazer" },
+    "undo": { en: "Undo", pt: "Desfazer" },
+    "redo": { en: "Redo", pt: "Refazer" },
+    "history": { en: "History", pt: "Histórico" },
+    "history_current": { en: "Current state", pt: "Estado atual" },
+    "history_undo_to": { en: "Undo back to before this change", pt: "Desfazer até antes desta alteração" },
+    "history_redo_to": { en: "Redo up to this change", pt: "Refazer até esta alteração" },
+    "hist_open_project": { en: "Open project", pt: "Abrir projeto" },
+    "hist_import": { en: "Import", pt: "Importar" },
+    "hist_create_route": { en: "Create route", pt: "Criar rota" },
+    "hist_rename_route": { en: "Rename route", pt: "Renomear rota" },
+    "hist_delete_route": { en: "Delete route", pt: "Excluir rota" },
+    "hist_clear_routes": { en: "Delete all routes", pt: "Excluir todas as rotas" },
+    "hist_lock_route": { en: "Lock / unlock route", pt: "Bloquear / desbloquear rota" },
+    "hist_apply_settings": { en: "Apply settings", pt: "Aplicar configurações" },
+    "hist_move_waypoint": { en: "Move waypoint", pt: "Mover waypoint" },
+    "hist_edit_waypoint": { en: "Edit waypoint", pt: "Editar waypoint" },
+    "hist_edit_actions": { en: "Edit actions", pt: "Editar ações" },
+    "hist_delete_waypoint": { en: "Delete waypoint", pt: "Excluir waypoint" },
+    "hist_reorder_waypoint": { en: "Reorder waypoint", pt: "Reordenar waypoint" },
+    "hist_home_point": { en: "Move home point", pt: "Mover ponto de decolagem" },
+    "hist_rotation": { en: "Grid rotation", pt: "Rotação da grade" },
+    "hist_exclusion_zone": { en: "Keep-out zone", pt: "Zona de exclusão" },
     "delete_all": { en: "Delete All Routes", pt: "Excluir Todas as Rotas" },
     "active_routes": { en: "Active Routes", pt: "Rotas Ativas" },
+    "optimize_rotation": { en: "Optimize Grid Rotation", pt: "Otimizar Rotação da Grade" },
+    "current_angle": { en: "Current angle", pt: "Ângulo atual" },
+    "best_angle": { en: "Best Angle", pt: "Melhor Ângulo" },
+    "apply_best": { en: "Apply Best", pt: "Aplicar Melhor" },
+    "apply": { en: "Apply", pt: "Aplicar" },
+    "col_angle": { en: "Angle", pt: "Ângulo" },
+    "col_path": { en: "Path", pt: "Percurso" },
+    "col_turns": { en: "Turns", pt: "Curvas" },
+    "optimize_unavailable": { en: "Only mapping routes drawn as polygons can be optimized.", pt: "Apenas rotas de mapeamento desenhadas como polígonos podem ser otimizadas." },
     "rename_prompt": { en: "Rename route:", pt: "Renomear rota:" },
     "rename_route": { en: "Rename Route", pt: "Renomear Rota" },
     "new_name": { en: "New Name", pt: "Novo Nome" },
@@ -52,6 +145,30 @@ export const t = (key: string, lang: Language): string => {
     "flight_settings": { en: "Flight Settings", pt: "Configurações de Voo" },
     "mode_standard": { en: "Standard Mode", pt: "Modo Padrão" },
     "mode_mapping": { en: "Mapping Mode", pt: "Modo Mapeamento" },
+    "mode_orbit": { en: "Orbit (POI)", pt: "Órbita (POI)" },
+    "mode_corridor": { en: "Corridor", pt: "Corredor" },
+    "mode_facade": { en: "Facade", pt: "Fachada" },
+    "facade_hint": { en: "Draw a line along the wall (start to end). The drone flies rows by altitude facing the wall with the gimbal level.", pt: "Desenhe uma linha ao longo da parede (início ao fim). O drone voa fileiras por altitude voltado para a parede com o gimbal nivelado." },
+    "facade_base_alt": { en: "Base Altitude (m)", pt: "Altitude Base (m)" },
+    "facade_top_alt": { en: "Top Altitude (m)", pt: "Altitude Topo (m)" },
+    "facade_standoff": { en: "Standoff (m)", pt: "Afastamento (m)" },
+    "facade_side": { en: "Drone Side", pt: "Lado do Drone" },
+    "facade_right": { en: "Right of line", pt: "À direita da linha" },
+    "facade_left": { en: "Left of line", pt: "À esquerda da linha" },
+    "facade_spacing": { en: "Spacing (H × V)", pt: "Espaçamento (H × V)" },
+    "corridor_hint": { en: "Draw a line along the road, pipeline or power line. Parallel lanes are flown inside the buffer.", pt: "Desenhe uma linha ao longo da estrada, duto ou linha de transmissão. Faixas paralelas são voadas dentro do buffer." },
+    "corridor_width": { en: "Corridor Width (m)", pt: "Largura do Corredor (m)" },
+    "corridor_lines": { en: "Lines (0 = auto)", pt: "Linhas (0 = auto)" },
+    "corridor_spacing_warning": { en: "Lines are {spacing} m apart to span the width; the side overlap needs at most {max} m. Add lines or narrow the corridor.", pt: "As linhas ficam a {spacing} m para cobrir a largura; a sobreposição lateral exige no máximo {max} m. Adicione linhas ou estreite o corredor." },
+    "orbit_hint": { en: "Draw a circle on the map: its center is the POI and its radius the orbit radius.", pt: "Desenhe um círculo no mapa: o centro é o POI e o raio é o raio da órbita." },
+    "orbit_points": { en: "Points per Lap", pt: "Pontos por Volta" },
+    "orbit_laps": { en: "Laps", pt: "Voltas" },
+    "orbit_climb": { en: "Climb per Lap (m)", pt: "Subida por Volta (m)" },
+    "orbit_poi_alt": { en: "Gimbal Target Height (m)", pt: "Altura do Alvo do Gimbal (m)" },
+    "orbit_direction": { en: "Direction", pt: "Direção" },
+    "orbit_cw": { en: "Clockwise", pt: "Horário" },
+    "orbit_ccw": { en: "Counter-clockwise", pt: "Anti-horário" },
+    "orbit_poi": { en: "Orbit POI", pt: "POI da Órbita" },
     "select_drone": { en: "Select Drone", pt: "Selecionar Drone" },
     "overlap_v": { en: "Forward Overlap (%)", pt: "Sobreposição Frontal (%)" },
     "overlap_h": { en: "Side Overlap (%)", pt: "Sobreposição Lateral (%)" },
@@ -75,6 +192,23 @@ export const t = (key: string, lang: Language): string => {
     "wp_action": { en: "WP Action", pt: "Ação do WP" },
     "finish_action": { en: "Finish Action", pt: "Ação de Finalização" },
     "apply_settings": { en: "Apply Settings (Unlocked Only)", pt: "Aplicar Configurações (Desbloqueados)" },
+    "terrain_follow": { en: "Terrain Follow (DEM)", pt: "Seguir Terreno (MDE)" },
+    "load_dem": { en: "Load DEM (.tif/.asc)", pt: "Carregar MDE (.tif/.asc)" },
+    "unload_dem": { en: "Unload DEM", pt: "Remover MDE" },
+    "no_dem": { en: "No DEM loaded (WGS84 GeoTIFF or ASCII grid).", pt: "Nenhum MDE carregado (GeoTIFF ou grade ASCII em WGS84)." },
+    "terrain_follow_enable": { en: "Keep constant height above ground", pt: "Manter altura constante sobre o solo" },
+    "terrain_tolerance": { en: "Terrain Tolerance (m)", pt: "Tolerância do Terreno (m)" },
+    "airspace": { en: "No-fly Zones & Boundaries", pt: "Zonas Proibidas e Limites" },
+    "load_airspace": { en: "Load zones (.geojson/.kml)", pt: "Carregar zonas (.geojson/.kml)" },
+    "no_airspace": { en: "No zone files loaded (airports, restricted areas, property lines).", pt: "Nenhum arquivo de zonas carregado (aeroportos, áreas restritas, divisas)." },
+    "airspace_restricted": { en: "Restricted", pt: "Restrita" },
+    "airspace_boundary": { en: "Boundary", pt: "Limite" },
+    "airspace_floor": { en: "Floor (m)", pt: "Piso (m)" },
+    "airspace_ceiling": { en: "Ceiling (m)", pt: "Teto (m)" },
+    "airspace_conflicts": { en: "conflicts", pt: "conflitos" },
+    "airspace_toggle": { en: "Show and check this layer", pt: "Exibir e verificar esta camada" },
+    "remove_layer": { en: "Remove layer", pt: "Remover camada" },
+    "clip_to_boundary": { en: "Clip new mapping grids to boundaries", pt: "Recortar novas grades de mapeamento aos limites" },
     "battery_management": { en: "Battery Management", pt: "Gerenciamento de Bateria" },
     "max_battery_time": { en: "Max Flight Time (min)", pt: "Tempo Máx. Voo (min)" },
     "battery_safety": { en: "Safety Margin (%)", pt: "Margem Segurança (%)" },
@@ -86,6 +220,15 @@ export const t = (key: string, lang: Language): string => {
     "act_start_rec": { en: "Start Rec", pt: "Iniciar Gravação" },
     "act_stop_rec": { en: "Stop Rec", pt: "Parar Gravação" },
     "act_rotate": { en: "Rotate Aircraft", pt: "Girar Aeronave" },
+    "act_tilt": { en: "Tilt Gimbal", pt: "Inclinar Gimbal" },
+    "act_zoom": { en: "Zoom", pt: "Zoom" },
+    "act_focus": { en: "Focus", pt: "Foco" },
+    "param_ms": { en: "Time (ms)", pt: "Tempo (ms)" },
+    "param_deg": { en: "Angle (°)", pt: "Ângulo (°)" },
+    "param_focal": { en: "Focal length (mm)", pt: "Distância focal (mm)" },
+    "add_action": { en: "Add Action", pt: "Adicionar Ação" },
+    "no_actions": { en: "No actions at this waypoint.", pt: "Nenhuma ação neste waypoint." },
+    "action_sequence": { en: "Action Sequence", pt: "Sequência de Ações" },
     
     // Finish Options
     "fin_rth": { en: "RTH", pt: "RTH (Voltar)" },
@@ -99,6 +242,45 @@ export const t = (key: string, lang: Language): string => {
     "export_dji_pilot": { en: "DJI Pilot (KMZ)", pt: "DJI Pilot (KMZ)" },
     "export_litchi": { en: "Litchi CSV", pt: "Litchi CSV" },
     "export_kml": { en: "Standard KML", pt: "KML Padrão" },
+    "export_gpx": { en: "GPX", pt: "GPX" },
+    "export_geojson": { en: "GeoJSON (QGIS)", pt: "GeoJSON (QGIS)" },
+    "validate_for": { en: "Validate for", pt: "Validar para" },
+    "val_errors": { en: "errors", pt: "erros" },
+    "val_warnings": { en: "warnings", pt: "avisos" },
+    "val_ok": { en: "No problems found", pt: "Nenhum problema encontrado" },
+    "val_too_few": { en: "Needs at least {min} waypoints", pt: "Precisa de pelo menos {min} waypoints" },
+    "val_too_many": { en: "{count} waypoints, the limit is {max}", pt: "{count} waypoints, o limite é {max}" },
+    "val_speed": { en: "Speed {value} m/s outside {min} to {max} m/s", pt: "Velocidade {value} m/s fora de {min} a {max} m/s" },
+    "val_altitude": { en: "Altitude {value} m outside {min} to {max} m", pt: "Altitude {value} m fora de {min} a {max} m" },
+    "val_gimbal": { en: "Gimbal pitch {value}° outside {min}° to {max}°", pt: "Inclinação do gimbal {value}° fora de {min}° a {max}°" },
+    "val_photo_interval": { en: "Photo interval {value} s is below {min} s", pt: "Intervalo de fotos {value} s abaixo de {min} s" },
+    "val_spacing": { en: "Only {value} m from the previous waypoint (min {min} m)", pt: "Apenas {value} m do waypoint anterior (mín {min} m)" },
+    "val_leg": { en: "{value} m from the previous waypoint (max {max} m)", pt: "{value} m do waypoint anterior (máx {max} m)" },
+    "val_home_distance": { en: "{value} m from the home point (over {max} m)", pt: "{value} m do ponto de decolagem (acima de {max} m)" },
+    "val_batteries": { en: "Needs {count} batteries; the mission must be resumed manually after each swap", pt: "Precisa de {count} baterias; a missão deve ser retomada manualmente após cada troca" },
+    "val_airspace_inside": { en: "Inside restricted zone {zone}", pt: "Dentro da zona restrita {zone}" },
+    "val_airspace_inside_home": { en: "Home point is inside restricted zone {zone}", pt: "Ponto de decolagem dentro da zona restrita {zone}" },
+    "val_airspace_outside": { en: "Outside boundary {zone} or its altitude band", pt: "Fora do limite {zone} ou da sua faixa de altitude" },
+    "val_airspace_outside_home": { en: "Home point is outside boundary {zone}", pt: "Ponto de decolagem fora do limite {zone}" },
+    "val_airspace_leg_enters": { en: "Leg to the next waypoint crosses restricted zone {zone}", pt: "Trecho até o próximo waypoint cruza a zona restrita {zone}" },
+    "val_airspace_leg_enters_home": { en: "Leg from the home point crosses restricted zone {zone}", pt: "Trecho a partir da decolagem cruza a zona restrita {zone}" },
+    "val_airspace_leg_leaves": { en: "Leg to the next waypoint leaves boundary {zone}", pt: "Trecho até o próximo waypoint sai do limite {zone}" },
+    "val_airspace_leg_leaves_home": { en: "Leg from the home point leaves boundary {zone}", pt: "Trecho a partir da decolagem sai do limite {zone}" },
+    "target_litchi": { en: "Litchi (CSV)", pt: "Litchi (CSV)" },
+    "target_dji_wpml": { en: "DJI Fly (WPML)", pt: "DJI Fly (WPML)" },
+    "target_qgc": { en: "QGroundControl", pt: "QGroundControl" },
+    "target_dji_kml": { en: "Standard KML", pt: "KML Padrão" },
+    "target_gpx": { en: "GPX", pt: "GPX" },
+    "target_geojson": { en: "GeoJSON", pt: "GeoJSON" },
+    "send_to_controller": { en: "Send to Controller", pt: "Enviar ao Controle" },
+    "controller_hint": { en: "Create a placeholder mission in DJI Fly, connect the RC or phone by USB and replace that mission's KMZ.", pt: "Crie uma missão provisória no DJI Fly, conecte o controle ou celular via USB e substitua o KMZ dessa missão." },
+    "controller_choose": { en: "Choose controller storage", pt: "Escolher armazenamento do controle" },
+    "controller_no_missions": { en: "No missions found. Create and save a waypoint mission in DJI Fly first.", pt: "Nenhuma missão encontrada. Crie e salve uma missão de waypoints no DJI Fly primeiro." },
+    "controller_replace": { en: "Replace mission", pt: "Substituir missão" },
+    "controller_confirm": { en: "Replace this mission on the controller? The current KMZ is backed up first.", pt: "Substituir esta missão no controle? O KMZ atual será copiado antes." },
+    "controller_backup": { en: "Backup saved", pt: "Backup salvo" },
+    "refresh": { en: "Refresh", pt: "Atualizar" },
+    "export_qgc": { en: "QGroundControl (.plan / WPL)", pt: "QGroundControl (.plan / WPL)" },
     "dji_fly_note": { en: "DJI Fly Note: Compatible with Mini 4 Pro, Air 3, Mavic 3 Series, Matrice 30.", pt: "Nota DJI Fly: Compatível com Mini 4 Pro, Air 3, Mavic 3 Series, Matrice 30." },
     
     // Route Manager
@@ -192,9 +374,13 @@ export const t = (key: string, lang: Language): string => {
     "instr_creating_routes": { en: "Creating Routes", pt: "Criando Rotas" },
     "instr_polyline_tool": { en: "Polyline Tool: Use this for standard waypoint missions (video/inspection). Click points to draw, double-click to finish.", pt: "Ferramenta Polilinha: Use para missões de waypoints padrão (vídeo/inspeção). Clique para desenhar, clique duplo para finalizar." },
     "instr_polygon_tool": { en: "Polygon Tool: Use this for Mapping Mode. Draw an area, and the app generates a grid automatically.", pt: "Ferramenta Polígono: Use para o Modo Mapeamento. Desenhe uma área e o app gera a grade automaticamente." },
+    "instr_corridor_tool": { en: "Line Tool (Corridor Mode): Draw the centerline of a linear asset. The app flies parallel lanes covering the corridor width with the configured side overlap.", pt: "Ferramenta Linha (Modo Corredor): Desenhe a linha central de um ativo linear. O app voa faixas paralelas cobrindo a largura do corredor com a sobreposição lateral configurada." },
+    "instr_facade_tool": { en: "Line Tool (Facade Mode): Draw the wall from one end to the other. The app creates a vertical serpentine between the base and top altitudes, at the standoff distance, facing the wall.", pt: "Ferramenta Linha (Modo Fachada): Desenhe a parede de uma ponta à outra. O app cria uma serpentina vertical entre as altitudes base e topo, na distância de afastamento, voltada para a parede." },
+    "instr_circle_tool": { en: "Circle Tool (Orbit Mode): Draw a circle around a point of interest. The app generates an orbit whose heading and gimbal always face the POI.", pt: "Ferramenta Círculo (Modo Órbita): Desenhe um círculo em volta de um ponto de interesse. O app gera uma órbita com heading e gimbal sempre voltados para o POI." },
     "instr_adjusting": { en: "Adjusting", pt: "Ajustando" },
     "instr_drag_wp": { en: "Drag any waypoint arrow to move it.", pt: "Arraste qualquer seta de waypoint para movê-la." },
     "instr_drag_home": { en: "Drag the Green 'H' Marker to set the Takeoff/Home point. This is crucial for accurate RTH estimates.", pt: "Arraste o Marcador 'H' Verde para definir o ponto de decolagem. Isso é crucial para estimativas reais de RTH." },
+    "instr_exclusion_zone": { en: "Turn on 'Keep-out Zone' and draw a polygon inside a mapping area to exclude buildings or crowds. Drag its red corners to edit, click it to remove.", pt: "Ative 'Zona de Exclusão' e desenhe um polígono dentro de uma área de mapeamento para excluir prédios ou multidões. Arraste os cantos vermelhos para editar, clique para remover." },
     "instr_rotate_grid": { en: "In Mapping Mode, drag the white Rotate Handle (🔄) to change grid angle.", pt: "No modo Mapeamento, arraste o manipulador branco (🔄) para mudar o ângulo da grade." },
 
     "instr_calc_title": { en: "Understanding the Calculator", pt: "Entendendo a Calculadora" },
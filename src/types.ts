@@ -11,7 +11,7 @@ export interface Waypoint {
   rotationDir: number;
   gimbalMode: number;
   gimbalPitch: number;
-  actionType1: number; // -1=None, 0=Stay, 1=Photo, 2=StartRec, 3=StopRec, 5=Rotate
+  actionType1: number; // See WAYPOINT_ACTION_TYPES, -1 = None
   actionParam1: number;
   actionType2: number;
   actionParam2: number;
@@ -23,9 +23,27 @@ export interface Waypoint {
   poiAltMode: number;
   photoTimeInterval: number;
   photoDistInterval: number;
+  extraActions?: WaypointAction[]; // Litchi action slots 3..15, in order
   isEffort?: boolean; 
 }
 
+export interface WaypointAction {
+  type: number; // Same codes as actionType1
+  param: number;
+}
+
+// Litchi action codes 0-5; zoom and focus only exist in WPML and are skipped by the Litchi export
+export const WAYPOINT_ACTION_TYPES: { type: number; labelKey: string; paramKey?: string; litchi: boolean }[] = [
+  { type: 0, labelKey: 'act_stay', paramKey: 'param_ms', litchi: true },
+  { type: 1, labelKey: 'act_photo', litchi: true },
+  { type: 2, labelKey: 'act_start_rec', litchi: true },
+  { type: 3, labelKey: 'act_stop_rec', litchi: true },
+  { type: 4, labelKey: 'act_rotate', paramKey: 'param_deg', litchi: true },
+  { type: 5, labelKey: 'act_tilt', paramKey: 'param_deg', litchi: true },
+  { type: 6, labelKey: 'act_zoom', paramKey: 'param_focal', litchi: false },
+  { type: 7, labelKey: 'act_focus', litchi: false },
+];
+
 export interface HomePoint {
     lat: number;
     lng: number;
@@ -40,6 +58,11 @@ export interface Route {
   homePoint: HomePoint;
   gridRotation?: number; 
   originalPolygon?: { lat: number; lng: number }[]; 
+  orbit?: { lat: number; lng: number; radius: number }; // POI center and radius (m) of orbit missions
+  corridor?: { path: { lat: number; lng: number }[]; width: number }; // Centerline and width (m) of corridor missions
+  facade?: { start: { lat: number; lng: number }; end: { lat: number; lng: number } }; // Wall segment of facade scans
+  missionConfig?: { finishAction: number; signalLostAction: 'rth' | 'hover' | 'continue' }; // From imported WPML, overrides the global settings on export
+  exclusionZones?: { lat: number; lng: number }[][]; // Keep-out rings inside originalPolygon
 }
 
 export interface FlightSettings {
@@ -56,7 +79,7 @@ export interface FlightSettings {
   finishAction: number; 
   signalLostAction: 'rth' | 'hover' | 'continue';
   
-  flightMode: 'standard' | 'mapping';
+  flightMode: 'standard' | 'mapping' | 'orbit' | 'corridor' | 'facade';
   mappingPattern: 'parallel' | 'crosshatch'; 
   photoTimeInterval: number; 
   mappingOverlap: number; 
@@ -64,8 +87,27 @@ export interface FlightSettings {
   selectedDroneModel: string; 
   aspectRatio: '4:3' | '16:9';
 
+  corridorWidth: number; // Total width (m) centered on the drawn polyline
+  corridorLines: number; // Parallel lines, 0 = derived from width and side overlap
+
+  facadeBaseAltitude: number; // Lowest row (m)
+  facadeTopAltitude: number; // Highest row (m)
+  facadeStandoff: number; // Horizontal distance (m) from the wall
+  facadeSide: 'left' | 'right'; // Side of the wall the drone flies on, looking from its start to its end
+
+  orbitPoints: number; // Waypoints per lap
+  orbitLaps: number;
+  orbitClimbPerLap: number; // Helix: meters gained per lap (0 = flat orbit)
+  orbitClockwise: boolean;
+  orbitPoiAltitude: number; // Height of the gimbal target above the center point
+
   maxFlightTimeMinutes: number;
   batterySafetyMargin: number; 
+
+  terrainFollow: boolean;
+  terrainTolerance: number; // Max terrain deviation (m) tolerated along a leg before inserting a waypoint
+
+  clipGridToBoundary: boolean; // New mapping polygons are cut to the active boundary layers
 }
 
 export const DEFAULT_SETTINGS: FlightSettings = {
@@ -89,9 +131,28 @@ export const DEFAULT_SETTINGS: FlightSettings = {
   mappingOverlapH: 60, // Recomendações PDF p.20
   selectedDroneModel: 'DJI Phantom 4 Pro',
   aspectRatio: '4:3',
+
+  corridorWidth: 60,
+  corridorLines: 0,
+
+  facadeBaseAltitude: 5,
+  facadeTopAltitude: 30,
+  facadeStandoff: 10,
+  facadeSide: 'right',
+
+  orbitPoints: 12,
+  orbitLaps: 1,
+  orbitClimbPerLap: 0,
+  orbitClockwise: true,
+  orbitPoiAltitude: 0,
   
   maxFlightTimeMinutes: 25,
-  batterySafetyMargin: 20
+  batterySafetyMargin: 20,
+
+  terrainFollow: false,
+  terrainTolerance: 5,
+
+  clipGridToBoundary: false
 };
 
 export interface DronePreset {
@@ -105,6 +166,8 @@ export interface DronePreset {
   imageWidthPx: number;
   imageHeightPx: number;
   realFocalLengthMm: number;
+  maxSpeedMs: number; // Top speed in Normal mode
+  maxAltitudeM: number; // Highest altitude above takeoff the app allows
 }
 
 export const DRONE_PRESETS: DronePreset[] = [
@@ -113,108 +176,136 @@ export const DRONE_PRESETS: DronePreset[] = [
         fovDiagonal: 86.2, fovH: 73.7, fovV: 58.6, notes: "1/1.3\" CMOS (24mm equiv.)",
         sensorWidthMm: 9.84, sensorHeightMm: 7.38,
         imageWidthPx: 8064, imageHeightPx: 6048, 
-        realFocalLengthMm: 6.72 
+        realFocalLengthMm: 6.72,
+        maxSpeedMs: 12, maxAltitudeM: 500
     },
     { 
         model: "DJI Mini 3", 
         fovDiagonal: 86.2, fovH: 73.7, fovV: 58.6, notes: "1/1.3\" CMOS",
         sensorWidthMm: 9.84, sensorHeightMm: 7.38,
         imageWidthPx: 4000, imageHeightPx: 3000, 
-        realFocalLengthMm: 6.72 
+        realFocalLengthMm: 6.72,
+        maxSpeedMs: 10, maxAltitudeM: 500
     },
     { 
         model: "DJI Mini 2 SE / Mini 2 / SE", 
         fovDiagonal: 83.0, fovH: 70.6, fovV: 55.9, notes: "1/2.3\" CMOS",
         sensorWidthMm: 6.17, sensorHeightMm: 4.55,
         imageWidthPx: 4000, imageHeightPx: 3000,
-        realFocalLengthMm: 4.49 
+        realFocalLengthMm: 4.49,
+        maxSpeedMs: 10, maxAltitudeM: 500
     },
     { 
         model: "DJI Air 3 (Wide)", 
         fovDiagonal: 86.2, fovH: 73.7, fovV: 58.6, notes: "1/1.3\" CMOS",
         sensorWidthMm: 9.84, sensorHeightMm: 7.38,
         imageWidthPx: 8064, imageHeightPx: 6048,
-        realFocalLengthMm: 6.72
+        realFocalLengthMm: 6.72,
+        maxSpeedMs: 12, maxAltitudeM: 500
     },
     { 
         model: "DJI Air 3 (Tele)", 
         fovDiagonal: 35.0, fovH: 28.3, fovV: 21.4, notes: "1/1.3\" CMOS (70mm equiv.)",
         sensorWidthMm: 9.84, sensorHeightMm: 7.38,
         imageWidthPx: 8064, imageHeightPx: 6048,
-        realFocalLengthMm: 19.6
+        realFocalLengthMm: 19.6,
+        maxSpeedMs: 12, maxAltitudeM: 500
     },
     { 
         model: "DJI Air 2S", 
         fovDiagonal: 88.0, fovH: 77.3, fovV: 56.1, notes: "1\" CMOS (22mm equiv.)",
         sensorWidthMm: 13.2, sensorHeightMm: 8.8,
         imageWidthPx: 5472, imageHeightPx: 3648,
-        realFocalLengthMm: 8.38
+        realFocalLengthMm: 8.38,
+        maxSpeedMs: 12, maxAltitudeM: 500
     },
     { 
         model: "DJI Mavic 3 Pro (Wide)", 
         fovDiagonal: 84.0, fovH: 73.7, fovV: 53.1, notes: "4/3 CMOS (24mm equiv.)",
         sensorWidthMm: 17.3, sensorHeightMm: 13.0,
         imageWidthPx: 5280, imageHeightPx: 3956,
-        realFocalLengthMm: 12.29 
+        realFocalLengthMm: 12.29,
+        maxSpeedMs: 15, maxAltitudeM: 500
     },
     { 
         model: "DJI Mavic 3 Classic / Mavic 3", 
         fovDiagonal: 84.0, fovH: 73.7, fovV: 53.1, notes: "4/3 CMOS (24mm equiv.)",
         sensorWidthMm: 17.3, sensorHeightMm: 13.0,
         imageWidthPx: 5280, imageHeightPx: 3956,
-        realFocalLengthMm: 12.29 
+        realFocalLengthMm: 12.29,
+        maxSpeedMs: 15, maxAltitudeM: 500
     },
     { 
         model: "DJI Mavic 3 Enterprise (M3E)", 
         fovDiagonal: 84.0, fovH: 73.7, fovV: 53.1, notes: "4/3 CMOS (Mechanical Shutter)",
         sensorWidthMm: 17.3, sensorHeightMm: 13.0,
         imageWidthPx: 5280, imageHeightPx: 3956,
-        realFocalLengthMm: 12.29 
+        realFocalLengthMm: 12.29,
+        maxSpeedMs: 15, maxAltitudeM: 500
     },
     { 
         model: "DJI Phantom 4 Pro V2.0", 
         fovDiagonal: 84.0, fovH: 73.7, fovV: 53.1, notes: "1\" CMOS (Mechanical Shutter)",
         sensorWidthMm: 13.2, sensorHeightMm: 8.8,
         imageWidthPx: 5472, imageHeightPx: 3648,
-        realFocalLengthMm: 8.8
+        realFocalLengthMm: 8.8,
+        maxSpeedMs: 14, maxAltitudeM: 500
     },
     { 
         model: "DJI Inspire 3 (X9-8K Air)", 
         fovDiagonal: 84.0, fovH: 73.7, fovV: 53.1, notes: "Full Frame (24mm lens)",
         sensorWidthMm: 36.0, sensorHeightMm: 24.0,
         imageWidthPx: 8192, imageHeightPx: 5456,
-        realFocalLengthMm: 24.0
+        realFocalLengthMm: 24.0,
+        maxSpeedMs: 18, maxAltitudeM: 1500
     },
     { 
         model: "DJI Matrice 350 RTK (Zenmuse P1)", 
         fovDiagonal: 84.0, fovH: 73.7, fovV: 53.1, notes: "Full Frame (35mm lens)",
         sensorWidthMm: 35.9, sensorHeightMm: 24.0,
         imageWidthPx: 8192, imageHeightPx: 5460,
-        realFocalLengthMm: 35.0
+        realFocalLengthMm: 35.0,
+        maxSpeedMs: 17, maxAltitudeM: 1500
     },
     { 
         model: "DJI Matrice 30 / 30T (Wide)", 
         fovDiagonal: 84.0, fovH: 73.7, fovV: 53.1, notes: "1/2\" CMOS (24mm equiv.)",
         sensorWidthMm: 6.4, sensorHeightMm: 4.8,
         imageWidthPx: 4000, imageHeightPx: 3000,
-        realFocalLengthMm: 4.5
+        realFocalLengthMm: 4.5,
+        maxSpeedMs: 17, maxAltitudeM: 1500
     },
     { 
         model: "DJI Matrice 30 / 30T (Zoom)", 
         fovDiagonal: 21.6, fovH: 17.3, fovV: 13.0, notes: "1/2\" CMOS (113mm eq. at wide zoom)",
         sensorWidthMm: 6.4, sensorHeightMm: 4.8,
         imageWidthPx: 8000, imageHeightPx: 6000,
-        realFocalLengthMm: 21.0
+        realFocalLengthMm: 21.0,
+        maxSpeedMs: 17, maxAltitudeM: 1500
     },
     { 
         model: "DJI Avata 2", 
         fovDiagonal: 155.0, fovH: 120.0, fovV: 90.0, notes: "1/1.3\" CMOS (Ultrawide)",
         sensorWidthMm: 9.84, sensorHeightMm: 7.38,
         imageWidthPx: 4000, imageHeightPx: 3000,
-        realFocalLengthMm: 2.1
+        realFocalLengthMm: 2.1,
+        maxSpeedMs: 8, maxAltitudeM: 500
     }
 ];
 
+// Elevation raster in WGS84 geographic coordinates, row 0 at the north edge
+export interface ElevationGrid {
+    name: string;
+    width: number;
+    height: number;
+    originLng: number; // West edge of the raster
+    originLat: number; // North edge of the raster
+    cellSizeLng: number;
+    cellSizeLat: number;
+    noData: number | null;
+    values: Float32Array;
+}
+
 export interface RouteStats {
     totalDistance: number;
     totalTimeMinutes: number;
@@ -224,6 +315,135 @@ export interface RouteStats {
     swapPoints: { lat: number, lng: number, wpId: number, wpIndex: number }[]; 
 }
 
+export interface GridRotationCandidate {
+    angle: number;
+    pathLength: number; // meters, waypoint legs only (no home commute)
+    turns: number;
+    totalTimeMinutes: number;
+    batteryCount: number;
+}
+
+// One undoable change: the routes as they were before it
+export interface HistoryEntry {
+    labelKey: string; // Translation key
+    detail?: string;
+    routes: Route[];
+    timestamp: number;
+    mergeKey?: string; // Continuous edits (drags, typing) with the same key collapse into one entry
+}
+
+export interface RouteHistory {
+    present: Route[];
+    past: HistoryEntry[]; // Oldest first
+    future: HistoryEntry[]; // Next redo first
+}
+
+export interface ProjectMetadata {
+    name: string;
+    author: string;
+    siteName: string;
+    notes: string;
+    createdAt: string; // ISO 8601
+    updatedAt: string; // ISO 8601
+}
+
+// .dfpp project document, see projectService for the schema history
+export interface ProjectDocument {
+    format: 'dfpp';
+    schemaVersion: number;
+    metadata: ProjectMetadata;
+    settings: FlightSettings;
+    routes: Route[];
+}
+
+// Workspace list entry
+export interface ProjectSummary {
+    name: string;
+    size: number; // bytes
+    updatedAt: number; // epoch ms
+}
+
+export type ExportTarget = 'litchi' | 'dji_kml' | 'dji_wpml' | 'gpx' | 'geojson' | 'qgc';
+
+export interface ValidationIssue {
+    severity: 'error' | 'warning';
+    routeId: string;
+    waypointId?: number; // Unset for route-level issues
+    messageKey: string; // Translation key, may contain {placeholders}
+    values?: Record<string, string | number>;
+}
+
+// One polygon of an airspace file; the first ring is the outline, the rest are holes
+export interface AirspaceZone {
+    name: string;
+    rings: { lat: number; lng: number }[][];
+}
+
+// Local no-fly / geofence file. Restricted zones must not be entered between floor and ceiling,
+// boundaries must not be left. Altitudes use the same reference as the waypoints.
+export interface AirspaceLayer {
+    id: string;
+    name: string;
+    kind: 'restricted' | 'boundary';
+    floor: number; // m
+    ceiling: number; // m
+    active: boolean; // Shown on the map and checked against the routes
+    zones: AirspaceZone[];
+}
+
+export interface AirspaceConflict {
+    routeId: string;
+    layerId: string;
+    zoneName: string;
+    kind: 'restricted' | 'boundary';
+    waypointId?: number; // Point conflicts: the waypoint, unset for the home point
+    leg?: { from: { lat: number; lng: number }; to: { lat: number; lng: number }; fromWaypointId?: number }; // Legs cutting into / out of a zone; fromWaypointId is unset for the home leg
+}
+
+// Basemap or overlay added in the layer manager, stored per installation rather than per project.
+// Tiles are requested in Web Mercator (EPSG:3857).
+export interface CustomMapLayer {
+    id: string;
+    name: string;
+    type: 'xyz' | 'wms' | 'wmts';
+    url: string; // XYZ template, WMS endpoint, or WMTS KVP endpoint / REST template with {TileMatrix}, {TileRow}, {TileCol}
+    layers: string; // WMS layers, WMTS layer
+    style: string; // WMTS only
+    tileMatrixSet: string; // WMTS only, must be Google Maps compatible
+    format: string; // MIME type, WMS and WMTS KVP
+    attribution: string;
+    opacity: number; // 0-1
+    overlay: boolean; // Drawn over the basemap instead of being one
+    active: boolean; // Overlays: shown. Base layers: selected when the map opens
+}
+
+// Offline basemap (MBTiles / tile folder) or georeferenced image shown on the map
+export interface LocalMapLayer {
+    id: string;
+    name: string;
+    kind: 'mbtiles' | 'folder' | 'image';
+    url: string; // Tile URL template, or the image URL
+    bounds: [[number, number], [number, number]] | null; // [[south, west], [north, east]], required for images
+    minZoom?: number;
+    maxZoom?: number;
+}
+
+// Ground area one photo covers, assuming flat ground at takeoff level
+export interface PhotoFootprint {
+    routeId: string;
+    waypointId: number; // Waypoint the shot is taken at, or the one starting the leg for interval shots
+    corners: { lat: number; lng: number }[]; // Image top-left, top-right, bottom-right, bottom-left
+}
+
+// Photos covering each cell of a lat/lng grid over all footprints, row 0 being the northernmost
+export interface CoverageGrid {
+    bounds: [[number, number], [number, number]]; // [[south, west], [north, east]]
+    cols: number;
+    rows: number;
+    counts: Uint16Array;
+    cellSize: number; // Approximate cell edge in meters
+}
+
 export interface CalculatorResult {
     altitude: number;
     gimbalAngle: number;